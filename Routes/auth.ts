@@ -1,8 +1,10 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
 import { createClient } from '@supabase/supabase-js'
 import { corsHeaders } from '../middleware/cors.ts'
-import { validateRequest } from '../middleware/validation.ts'
+import { validateRequest, ValidationSchema } from '../middleware/validation.ts'
 import { createErrorResponse, createSuccessResponse } from '../utils/responses.ts'
+import { RATE_LIMITS } from '../middleware/rate-limit.ts'
+import type { RouteRegistry } from '../api/route-registry.ts'
 
 // ✅ FIXED: Backend uses service role key for admin operations
 const supabaseUrl = process.env.SUPABASE_URL
@@ -21,15 +23,32 @@ export const supabase = createClient(supabaseUrl, supabaseServiceKey, {
   }
 })
 
+const signupSchema: ValidationSchema = {
+  email: { type: 'string', format: 'email' },
+  password: { type: 'string', format: 'password' },
+  userData: {
+    type: 'object',
+    properties: {
+      display_name: { type: 'string', maxLength: 100 },
+      role: { type: 'string', enum: ['fan', 'artist', 'brand', 'developer'] }
+    }
+  }
+}
+
+const loginSchema: ValidationSchema = {
+  email: { type: 'string', format: 'email' },
+  password: 'string'
+}
+
+const refreshSchema: ValidationSchema = {
+  refresh_token: 'string'
+}
+
 export const authRoutes = {
   // POST /auth/signup
   async signup(req: Request): Promise<Response> {
     try {
-      const { email, password, userData } = await validateRequest(req, {
-        email: 'string',
-        password: 'string',
-        userData: 'object'
-      })
+      const { email, password, userData } = await validateRequest(req, signupSchema)
 
       // ✅ FIXED: Only create user - let trigger handle profile/MediaID
       const { data: authData, error: authError } = await supabase.auth.admin.createUser({
@@ -82,10 +101,7 @@ export const authRoutes = {
   // POST /auth/login
   async login(req: Request): Promise<Response> {
     try {
-      const { email, password } = await validateRequest(req, {
-        email: 'string',
-        password: 'string'
-      })
+      const { email, password } = await validateRequest(req, loginSchema)
 
       const { data, error } = await supabase.auth.signInWithPassword({
         email,
@@ -108,9 +124,7 @@ export const authRoutes = {
   // POST /auth/refresh
   async refresh(req: Request): Promise<Response> {
     try {
-      const { refresh_token } = await validateRequest(req, {
-        refresh_token: 'string'
-      })
+      const { refresh_token } = await validateRequest(req, refreshSchema)
 
       const { data, error } = await supabase.auth.refreshSession({
         refresh_token
@@ -205,4 +219,38 @@ export const authRoutes = {
       return createErrorResponse(error.message, 400)
     }
   }
-} 
\ No newline at end of file
+}
+
+export function registerAuthRoutes(registry: RouteRegistry) {
+  registry
+    .add({
+      method: 'POST',
+      path: '/auth/signup',
+      summary: 'Create a user account with role-specific setup',
+      body: signupSchema,
+      rateLimit: RATE_LIMITS.auth,
+      successStatus: 201,
+      handler: (req) => authRoutes.signup(req)
+    })
+    .add({
+      method: 'POST',
+      path: '/auth/login',
+      summary: 'Authenticate with email and password',
+      body: loginSchema,
+      rateLimit: RATE_LIMITS.auth,
+      handler: (req) => authRoutes.login(req)
+    })
+    .add({
+      method: 'POST',
+      path: '/auth/refresh',
+      summary: 'Refresh the session token',
+      body: refreshSchema,
+      handler: (req) => authRoutes.refresh(req)
+    })
+    .add({
+      method: 'POST',
+      path: '/auth/logout',
+      summary: 'Sign out the current session',
+      handler: (req) => authRoutes.logout(req)
+    })
+}
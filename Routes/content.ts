@@ -1,426 +1,1735 @@
-import { Router, Request, Response } from 'express';
-import { supabase } from '../lib/supabaseClient';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createErrorResponse, createSuccessResponse, createNotFoundResponse, createForbiddenResponse, createPaginatedResponse, createValidationErrorResponse, withHeaders } from '../utils/responses.ts'
+import { applyListQuery, paginate, parseListQuery, ListOptions } from '../utils/pagination.ts'
+import { strictSchema, validateRequest, FieldSchema, ValidationError, ValidationIssue, ValidationSchema } from '../middleware/validation.ts'
+import { findActiveSegment, parseLrc, parseTtml, toLrc, toTtml, validateSegments, LyricSegment, LYRICS_FORMATS } from '../utils/lyrics.ts'
+import { canonicalLanguageTag, negotiateLanguage } from '../utils/language.ts'
+import { getAuth, getArtistId, ARTIST_ONLY } from '../middleware/auth.ts'
+import { availabilityFilter, checkRegionAvailability, resolveCountry, RegionRestricted } from '../middleware/geoblocking.ts'
+import { corsHeaders } from '../middleware/cors.ts'
+import { sha256Hex } from '../utils/crypto.ts'
+import { buildNewReleaseMessage, ddexProblems, DPID_PATTERN, DdexAlbum, DdexTrack } from '../utils/ddex.ts'
+import type { WaveformPeaks } from '../utils/waveform.ts'
+import type { RouteRegistry } from '../api/route-registry.ts'
 
-const router = Router();
+// This platform's DDEX Party Identifier, as the sender of ERN messages
+const ddexSender = {
+  dpid: Deno.env.get('DDEX_SENDER_DPID') ?? '',
+  name: Deno.env.get('DDEX_SENDER_NAME') ?? ''
+}
 
-// Middleware to get authenticated user
-const requireAuth = async (req: Request, res: Response, next: any) => {
-  const token = req.headers.authorization?.split(' ')[1];
-  if (!token) {
-    return res.status(401).json({ error: 'No authorization token provided' });
+const createAlbumSchema: ValidationSchema = {
+  name: { type: 'string', maxLength: 200 },
+  description: { type: 'string', optional: true, nullable: true, minLength: 0 },
+  release_date: { type: 'string', format: 'date', optional: true, nullable: true },
+  artwork_url: { type: 'string', format: 'url', optional: true, nullable: true }
+}
+
+// Fields an artist may edit on their own content. Ownership (artist_id),
+// licensing (license_type, via the BSL endpoints), the stored file and the
+// lyrics / visual clip documents are deliberately not listed.
+export const updateMetadataSchema: ValidationSchema = strictSchema({
+  title: { type: 'string', optional: true, maxLength: 200 },
+  description: { type: 'string', optional: true, nullable: true, minLength: 0 },
+  buy_link_url: { type: 'string', format: 'url', optional: true, nullable: true },
+  buy_link_title: { type: 'string', optional: true, nullable: true, maxLength: 100 },
+  record_label: { type: 'string', optional: true, nullable: true, maxLength: 200 },
+  publisher: { type: 'string', optional: true, nullable: true, maxLength: 200 },
+  p_line: { type: 'string', optional: true, nullable: true, maxLength: 300 },
+  isrc: { type: 'string', format: 'isrc', optional: true, nullable: true },
+  release_date: { type: 'string', format: 'date', optional: true, nullable: true },
+  explicit: { type: 'boolean', optional: true },
+  is_premium: { type: 'boolean', optional: true },
+  unlock_date: { type: 'string', format: 'date-time', optional: true, nullable: true },
+  enable_direct_downloads: { type: 'boolean', optional: true },
+  offline_listening: { type: 'boolean', optional: true },
+  include_in_rss: { type: 'boolean', optional: true },
+  display_embed_code: { type: 'boolean', optional: true },
+  enable_app_playback: { type: 'boolean', optional: true },
+  allow_comments: { type: 'boolean', optional: true },
+  show_comments_public: { type: 'boolean', optional: true },
+  show_insights_public: { type: 'boolean', optional: true },
+  availability_scope: { type: 'string', enum: ['worldwide', 'exclusive_regions', 'blocked_regions'], optional: true },
+  availability_regions: { type: 'array', items: { type: 'string', format: 'country-code' }, maxItems: 249, optional: true, nullable: true },
+  preview_clip: {
+    type: 'object',
+    optional: true,
+    nullable: true,
+    additionalProperties: false,
+    properties: {
+      start_sec: { type: 'number', min: 0 },
+      duration_sec: { type: 'number', min: 1, max: 90 }
+    }
+  },
+  // Merged into the stored object, whose other keys (upload_id,
+  // suggested_metadata, import_job_id, ...) are maintained by the server.
+  // null removes a key.
+  metadata: {
+    type: 'object',
+    optional: true,
+    additionalProperties: false,
+    properties: {
+      genre: { type: 'string', optional: true, nullable: true, maxLength: 100 }
+    }
   }
+})
+
+// artist_id and total_tracks are maintained by the server
+const updateAlbumSchema: ValidationSchema = strictSchema({
+  name: { type: 'string', optional: true, maxLength: 200 },
+  description: { type: 'string', optional: true, nullable: true, minLength: 0 },
+  release_date: { type: 'string', format: 'date', optional: true, nullable: true },
+  artwork_url: { type: 'string', format: 'url', optional: true, nullable: true }
+})
+
+// Suggestions read from embedded tags at upload (utils/tag-reader.ts).
+// album_name and track_number are informational: tracks join albums
+// through the album endpoints. cover_art becomes the album artwork.
+const SUGGESTION_FIELDS = ['title', 'isrc', 'record_label', 'p_line', 'release_date', 'explicit', 'cover_art']
 
-  const { data: { user }, error } = await supabase.auth.getUser(token);
-  if (error || !user) {
-    return res.status(401).json({ error: 'Invalid token' });
+const acceptSuggestionsSchema: ValidationSchema = strictSchema({
+  fields: { type: 'array', items: { type: 'string', enum: SUGGESTION_FIELDS }, minItems: 1, maxItems: SUGGESTION_FIELDS.length }
+})
+
+// Timings are in milliseconds from the start of the track, see utils/lyrics.ts
+const lyricTimingFields: ValidationSchema = {
+  tStartMs: { type: 'integer', min: 0 },
+  tEndMs: { type: 'integer', min: 0, optional: true, nullable: true }
+}
+
+const lyricSegmentSchema: FieldSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    ...lyricTimingFields,
+    line: { type: 'string', minLength: 0, maxLength: 500 },
+    words: {
+      type: 'array',
+      optional: true,
+      maxItems: 200,
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        properties: { ...lyricTimingFields, text: { type: 'string', maxLength: 200 } }
+      }
+    }
   }
+}
+
+// One lyrics version per language; is_original defaults to true unless
+// another language is already the original
+const addLyricsSchema: ValidationSchema = {
+  text: 'string',
+  synchronized: { type: 'boolean', optional: true },
+  language: { type: 'string', format: 'language-tag', optional: true, maxLength: 35 },
+  is_original: { type: 'boolean', optional: true },
+  rights_cleared: { type: 'boolean', optional: true },
+  segments: { type: 'array', items: lyricSegmentSchema, optional: true, maxItems: 2000 }
+}
+
+const importLyricsSchema: ValidationSchema = {
+  format: { type: 'string', enum: LYRICS_FORMATS },
+  document: { type: 'string', maxLength: 500_000 },
+  language: { type: 'string', format: 'language-tag', optional: true, maxLength: 35 },
+  is_original: { type: 'boolean', optional: true },
+  rights_cleared: { type: 'boolean', optional: true }
+}
 
-  req.user = user;
-  next();
-};
+const addVisualClipSchema: ValidationSchema = {
+  file_path: { type: 'string', maxLength: 500 },
+  duration_sec: { type: 'number', optional: true, min: 1, max: 60 },
+  loop_enabled: { type: 'boolean', optional: true }
+}
 
-// Get artist profile ID for authenticated user
-const getArtistId = async (userId: string) => {
+const trackIdsField = { type: 'array', items: { type: 'string', format: 'uuid' }, minItems: 1, maxItems: 500 } as const
+
+const attachTracksSchema: ValidationSchema = {
+  content_ids: trackIdsField,
+  position: { type: 'integer', optional: true, min: 1 }
+}
+
+const detachTracksSchema: ValidationSchema = {
+  content_ids: trackIdsField
+}
+
+// The complete tracklist in its new order
+const reorderTracksSchema: ValidationSchema = {
+  content_ids: trackIdsField
+}
+
+const RELEASE_STATUSES = ['draft', 'scheduled', 'released', 'withdrawn'] as const
+
+// release_at is required when scheduling and ignored otherwise
+const updateReleaseSchema: ValidationSchema = strictSchema({
+  status: { type: 'string', enum: [...RELEASE_STATUSES] },
+  release_at: { type: 'string', format: 'date-time', optional: true, nullable: true }
+})
+
+const enableBSLSchema: ValidationSchema = {
+  content_id: { type: 'string', format: 'uuid' }
+}
+
+const albumListOptions: ListOptions = {
+  sortFields: ['created_at', 'release_date', 'name']
+}
+
+const albumTrackListOptions: ListOptions = {
+  sortFields: ['track_number', 'created_at'],
+  defaultOrder: 'asc',
+  filters: {
+    explicit: { type: 'boolean' }
+  }
+}
+
+const bslTrackListOptions: ListOptions = {
+  sortFields: ['created_at', 'release_date', 'title'],
+  filters: {
+    album_id: { type: 'uuid' },
+    explicit: { type: 'boolean' }
+  }
+}
+
+// Verify the content item belongs to the artist; duration_seconds bounds lyric
+// timings, the availability columns are checked against partial updates
+async function findOwnedContent(supabase: SupabaseClient, contentId: string, artistId: string) {
   const { data, error } = await supabase
+    .from('content_items')
+    .select('id, album_id, duration_seconds, availability_scope, availability_regions, metadata')
+    .eq('id', contentId)
+    .eq('artist_id', artistId)
+    .single()
+
+  return error ? null : data
+}
+
+// Geoblocking applies to listeners; the owning artist always has access
+async function isArtistOf(supabase: SupabaseClient, userId: string, artistId: string): Promise<boolean> {
+  const { data } = await supabase
     .from('artist_profiles')
     .select('id')
     .eq('user_id', userId)
-    .single();
-  
-  if (error) throw new Error('Artist profile not found');
-  return data.id;
-};
-
-// ==========================================
-// CONTENT MANAGEMENT ENDPOINTS
-// ==========================================
-
-// Update content metadata
-router.put('/content/:id/metadata', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const metadata = req.body;
-    
-    // Validate user owns this content
-    const artistId = await getArtistId(req.user.id);
-    const { data: existingContent, error: fetchError } = await supabase
-      .from('content_items')
-      .select('id')
-      .eq('id', id)
-      .eq('artist_id', artistId)
-      .single();
-    
-    if (fetchError || !existingContent) {
-      return res.status(404).json({ error: 'Content not found or access denied' });
-    }
-    
-    // Update content with new metadata
-    const { data, error } = await supabase
-      .from('content_items')
-      .update(metadata)
-      .eq('id', id)
-      .select()
-      .single();
-    
-    if (error) {
-      return res.status(400).json({ error: error.message });
-    }
-    
-    res.json({ success: true, data });
-  } catch (error) {
-    res.status(500).json({ error: error.message });
-  }
-});
-
-// Get content with full metadata
-router.get('/content/:id/metadata', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    
-    const { data, error } = await supabase
-      .from('content_items')
-      .select('*')
-      .eq('id', id)
-      .single();
-    
-    if (error) {
-      return res.status(404).json({ error: 'Content not found' });
-    }
-    
-    res.json(data);
-  } catch (error) {
-    res.status(500).json({ error: error.message });
-  }
-});
-
-// ==========================================
-// ALBUM MANAGEMENT ENDPOINTS
-// ==========================================
-
-// Get all albums for artist
-router.get('/albums', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const artistId = await getArtistId(req.user.id);
-    
-    const { data, error } = await supabase
-      .from('albums')
-      .select(`
-        *,
-        tracks:content_items(id, title, track_number, duration_seconds)
-      `)
-      .eq('artist_id', artistId)
-      .order('created_at', { ascending: false });
-    
-    if (error) {
-      return res.status(400).json({ error: error.message });
-    }
-    
-    res.json(data);
-  } catch (error) {
-    res.status(500).json({ error: error.message });
+    .maybeSingle()
+
+  return data?.id === artistId
+}
+
+async function checkListenerRegion(
+  supabase: SupabaseClient,
+  userId: string,
+  content: RegionRestricted & { artist_id: string }
+): Promise<Response | null> {
+  if ((content.availability_scope ?? 'worldwide') === 'worldwide') return null
+  if (await isArtistOf(supabase, userId, content.artist_id)) return null
+  return checkRegionAvailability(content)
+}
+
+// Verify the album belongs to the artist
+async function findOwnedAlbum(supabase: SupabaseClient, albumId: string, artistId: string) {
+  const { data, error } = await supabase
+    .from('albums')
+    .select('id')
+    .eq('id', albumId)
+    .eq('artist_id', artistId)
+    .single()
+
+  return error ? null : data
+}
+
+// Runs one of the tracklist functions from 009_album_track_ordering.sql,
+// which renumber the whole album in a single transaction
+async function runTracklistOperation(
+  req: Request,
+  albumId: string,
+  fn: 'attach_album_tracks' | 'detach_album_tracks' | 'reorder_album_tracks',
+  schema: ValidationSchema
+): Promise<Response> {
+  const { supabase, user } = await getAuth(req)
+  const { content_ids, position } = await validateRequest(req, schema)
+  const artistId = await getArtistId(supabase, user.id)
+
+  const album = await findOwnedAlbum(supabase, albumId, artistId)
+  if (!album) {
+    return createNotFoundResponse('Album')
   }
-});
-
-// Create new album
-router.post('/albums', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { name, description, release_date, artwork_url } = req.body;
-    const artistId = await getArtistId(req.user.id);
-    
-    if (!name) {
-      return res.status(400).json({ error: 'Album name is required' });
-    }
-    
-    const { data, error } = await supabase
-      .from('albums')
-      .insert({
-        name,
-        description,
-        release_date,
-        artwork_url,
-        artist_id: artistId
-      })
-      .select()
-      .single();
-    
-    if (error) {
-      return res.status(400).json({ error: error.message });
-    }
-    
-    res.status(201).json(data);
-  } catch (error) {
-    res.status(500).json({ error: error.message });
+
+  const { data, error } = await supabase.rpc(fn, {
+    album_id_param: albumId,
+    content_ids,
+    ...(fn === 'attach_album_tracks' && { position_param: position ?? null })
+  })
+
+  // P0002: album vanished, 22023: track list rejected by the function
+  if (error?.code === 'P0002') {
+    return createNotFoundResponse('Album')
   }
-});
-
-// Update album
-router.put('/albums/:id', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const updates = req.body;
-    const artistId = await getArtistId(req.user.id);
-    
-    // Verify ownership
-    const { data: album, error: fetchError } = await supabase
-      .from('albums')
-      .select('id')
-      .eq('id', id)
-      .eq('artist_id', artistId)
-      .single();
-    
-    if (fetchError || !album) {
-      return res.status(404).json({ error: 'Album not found or access denied' });
-    }
-    
-    const { data, error } = await supabase
-      .from('albums')
-      .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
-    
-    if (error) {
-      return res.status(400).json({ error: error.message });
-    }
-    
-    res.json(data);
-  } catch (error) {
-    res.status(500).json({ error: error.message });
+  if (error?.code === '22023') {
+    return createValidationErrorResponse([{ field: 'content_ids', message: error.message }])
   }
-});
-
-// Delete album
-router.delete('/albums/:id', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const artistId = await getArtistId(req.user.id);
-    
-    // Verify ownership and get track count
-    const { data: album, error: fetchError } = await supabase
-      .from('albums')
-      .select('id, total_tracks')
-      .eq('id', id)
-      .eq('artist_id', artistId)
-      .single();
-    
-    if (fetchError || !album) {
-      return res.status(404).json({ error: 'Album not found or access denied' });
-    }
-    
-    if (album.total_tracks > 0) {
-      return res.status(400).json({ 
-        error: 'Cannot delete album with tracks. Remove tracks first.' 
-      });
-    }
-    
-    const { error } = await supabase
-      .from('albums')
-      .delete()
-      .eq('id', id);
-    
-    if (error) {
-      return res.status(400).json({ error: error.message });
-    }
-    
-    res.json({ success: true, message: 'Album deleted' });
-  } catch (error) {
-    res.status(500).json({ error: error.message });
+  // 55000: the album is scheduled or released (see 010_album_release_workflow.sql)
+  if (error?.code === '55000') {
+    return createErrorResponse(error.message, 409)
   }
-});
-
-// Get album tracks
-router.get('/albums/:id/tracks', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    
-    const { data, error } = await supabase
-      .from('content_items')
-      .select('*')
-      .eq('album_id', id)
-      .order('track_number', { ascending: true });
-    
-    if (error) {
-      return res.status(400).json({ error: error.message });
-    }
-    
-    res.json(data);
-  } catch (error) {
-    res.status(500).json({ error: error.message });
+  if (error) throw error
+
+  return createSuccessResponse({ album_id: albumId, tracks: data || [] })
+}
+
+interface LyricsVersion {
+  language: string
+  is_original: boolean
+  text: string
+  synchronized: boolean
+  segments: LyricSegment[] | null
+  rights_cleared: boolean
+  content: (RegionRestricted & { duration_seconds: number | null, artist_id: string }) | null
+}
+
+// Versions are the original unless another language already is
+async function defaultIsOriginal(supabase: SupabaseClient, contentId: string, language: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('content_lyrics')
+    .select('language')
+    .eq('content_id', contentId)
+    .eq('is_original', true)
+    .maybeSingle()
+
+  if (error) throw error
+  return !data || data.language === language
+}
+
+// Adds or replaces the version for its language. The content_lyrics triggers
+// demote a previous original and mirror the original into content_items.lyrics.
+async function saveLyrics(supabase: SupabaseClient, contentId: string, version: Record<string, unknown>): Promise<Response> {
+  const { data, error } = await supabase
+    .from('content_lyrics')
+    .upsert(
+      { ...version, content_id: contentId, updated_at: new Date().toISOString() },
+      { onConflict: 'content_id,language' }
+    )
+    .select()
+    .single()
+
+  if (error) throw error
+
+  return createSuccessResponse({ lyrics: data })
+}
+
+// Picks the rights-cleared version a listener should get: ?language= when
+// given, else the best match for Accept-Language, else the original.
+// `synced` limits the choice to versions with timed segments.
+async function findLyricsVersion(req: Request, supabase: SupabaseClient, contentId: string, synced = false) {
+  const requested = new URL(req.url).searchParams.get('language')
+  const language = requested === null ? null : canonicalLanguageTag(requested)
+  if (requested !== null && !language) {
+    throw new ValidationError('Invalid language', [{ field: 'language', message: 'Must be a BCP 47 language tag, e.g. en or pt-BR' }])
   }
-});
-
-// ==========================================
-// LYRICS MANAGEMENT ENDPOINTS
-// ==========================================
-
-// Add/update lyrics for content
-router.post('/content/:id/lyrics', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { text, synchronized, language, rights_cleared } = req.body;
-    const artistId = await getArtistId(req.user.id);
-    
-    // Verify content ownership
-    const { data: content, error: fetchError } = await supabase
-      .from('content_items')
-      .select('id')
-      .eq('id', id)
-      .eq('artist_id', artistId)
-      .single();
-    
-    if (fetchError || !content) {
-      return res.status(404).json({ error: 'Content not found or access denied' });
-    }
-    
-    const lyricsData = {
-      text,
-      synchronized: synchronized || false,
-      language: language || 'en',
-      rights_cleared: rights_cleared || false,
-      created_at: new Date().toISOString()
-    };
-    
-    const { data, error } = await supabase
-      .from('content_items')
-      .update({ lyrics: lyricsData })
-      .eq('id', id)
-      .select()
-      .single();
-    
-    if (error) {
-      return res.status(400).json({ error: error.message });
-    }
-    
-    res.json({ success: true, lyrics: data.lyrics });
-  } catch (error) {
-    res.status(500).json({ error: error.message });
+
+  let query = supabase
+    .from('content_lyrics')
+    .select('language, is_original, text, synchronized, segments, rights_cleared, content:content_items(duration_seconds, availability_scope, availability_regions, artist_id)')
+    .eq('content_id', contentId)
+    .eq('rights_cleared', true)
+
+  if (synced) {
+    query = query.eq('synchronized', true).not('segments', 'is', null)
   }
-});
-
-// ==========================================
-// VISUAL CLIP MANAGEMENT ENDPOINTS
-// ==========================================
-
-// Upload visual clip metadata
-router.post('/content/:id/visual-clip', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { file_path, duration_sec, loop_enabled } = req.body;
-    const artistId = await getArtistId(req.user.id);
-    
-    // Verify content ownership
-    const { data: content, error: fetchError } = await supabase
-      .from('content_items')
-      .select('id')
-      .eq('id', id)
-      .eq('artist_id', artistId)
-      .single();
-    
-    if (fetchError || !content) {
-      return res.status(404).json({ error: 'Content not found or access denied' });
-    }
-    
-    const visualClipData = {
-      file_path,
-      duration_sec: duration_sec || 30,
-      loop_enabled: loop_enabled !== false,
-      created_at: new Date().toISOString()
-    };
-    
-    const { data, error } = await supabase
-      .from('content_items')
-      .update({ visual_clip: visualClipData })
-      .eq('id', id)
-      .select()
-      .single();
-    
-    if (error) {
-      return res.status(400).json({ error: error.message });
-    }
-    
-    res.json({ success: true, visual_clip: data.visual_clip });
-  } catch (error) {
-    res.status(500).json({ error: error.message });
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const versions = (data ?? []) as unknown as LyricsVersion[]
+  const available = versions.map(version => version.language)
+  const chosen = language
+    ?? negotiateLanguage(available, req.headers.get('accept-language'))
+    ?? versions.find(version => version.is_original)?.language
+    ?? available[0]
+
+  const version = versions.find(candidate => candidate.language === chosen)
+  return version ? { version, available } : null
+}
+
+function durationMs(durationSeconds: number | null | undefined): number | null {
+  return durationSeconds === null || durationSeconds === undefined ? null : durationSeconds * 1000
+}
+
+function withLanguageHeaders(response: Response, language: string): Response {
+  return withHeaders(response, { 'Content-Language': language, 'Vary': 'Accept-Language' })
+}
+
+const revisionListOptions: ListOptions = {
+  sortFields: ['revision'],
+  timeColumn: 'changed_at',
+  filters: {
+    changed_by: { type: 'uuid' }
   }
-});
-
-// ==========================================
-// BSL LICENSE MANAGEMENT ENDPOINTS
-// ==========================================
-
-// Check BSL eligibility for artist
-router.get('/bsl/eligible', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const artistId = await getArtistId(req.user.id);
-    
-    const { data, error } = await supabase
-      .rpc('check_bsl_eligibility', { artist_id: artistId });
-    
-    if (error) {
-      return res.status(400).json({ error: error.message });
-    }
-    
-    res.json({ eligible: data });
-  } catch (error) {
-    res.status(500).json({ error: error.message });
+}
+
+interface MetadataRevision {
+  revision: number
+  changed_fields: string[]
+  before: Record<string, unknown>
+  after: Record<string, unknown>
+}
+
+// Peaks only change when the file is replaced or re-inspected, and the ETag
+// follows them; private because reads go through RLS and geoblocking
+const WAVEFORM_CACHE_CONTROL = 'private, max-age=86400'
+
+// Non-negative integer revision number from a path or query value
+function parseRevision(value: string | null, field: string, errors: ValidationIssue[]): number {
+  const revision = Number(value)
+  if (value === null || value.trim() === '' || !Number.isInteger(revision) || revision < 0) {
+    errors.push({ field, message: 'Must be a non-negative integer revision number' })
   }
-});
-
-// Enable BSL for track
-router.post('/bsl/enable', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { content_id } = req.body;
-    const artistId = await getArtistId(req.user.id);
-    
-    // Check BSL eligibility
-    const { data: eligible, error: eligibilityError } = await supabase
-      .rpc('check_bsl_eligibility', { artist_id: artistId });
-    
-    if (eligibilityError || !eligible) {
-      return res.status(403).json({ 
-        error: 'Artist not eligible for BSL licensing' 
-      });
-    }
-    
-    // Update content to BSL license
-    const { data, error } = await supabase
-      .from('content_items')
-      .update({ license_type: 'bsl' })
-      .eq('id', content_id)
-      .eq('artist_id', artistId)
-      .select()
-      .single();
-    
-    if (error) {
-      return res.status(400).json({ error: error.message });
-    }
-    
-    res.json({ success: true, data });
-  } catch (error) {
-    res.status(500).json({ error: error.message });
+  return revision
+}
+
+// Field-level changes between the state after revision `from` and after `to`.
+// Fields that were changed and later changed back are omitted.
+function diffRevisionRange(revisions: MetadataRevision[], from: number, to: number) {
+  const changes = new Map<string, { before: unknown; after: unknown }>()
+
+  for (const revision of revisions) {
+    for (const field of revision.changed_fields) {
+      const change = changes.get(field)
+      if (change) {
+        change.after = revision.after[field]
+      } else {
+        changes.set(field, { before: revision.before[field], after: revision.after[field] })
+      }
+    }
   }
-});
-
-// Get BSL-licensed tracks
-router.get('/bsl/tracks', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const artistId = await getArtistId(req.user.id);
-    
-    const { data, error } = await supabase
-      .from('content_items')
-      .select('*')
-      .eq('artist_id', artistId)
-      .eq('license_type', 'bsl')
-      .order('created_at', { ascending: false });
-    
-    if (error) {
-      return res.status(400).json({ error: error.message });
-    }
-    
-    res.json(data);
-  } catch (error) {
-    res.status(500).json({ error: error.message });
+
+  return [...changes.entries()]
+    .filter(([, change]) => JSON.stringify(change.before) !== JSON.stringify(change.after))
+    .map(([field, change]) => from <= to
+      ? { field, from: change.before, to: change.after }
+      : { field, from: change.after, to: change.before })
+}
+
+export const contentRoutes = {
+  // ==========================================
+  // CONTENT MANAGEMENT ENDPOINTS
+  // ==========================================
+
+  // PUT /content/:id/metadata
+  async updateMetadata(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const updates = await validateRequest(req, updateMetadataSchema)
+      if (Object.keys(updates).length === 0) {
+        return createErrorResponse('No editable fields provided', 400)
+      }
+
+      const artistId = await getArtistId(supabase, user.id)
+      const existingContent = await findOwnedContent(supabase, contentId, artistId)
+      if (!existingContent) {
+        return createNotFoundResponse('Content')
+      }
+
+      // An album track's unlock_date follows the album release state
+      // (see 010_album_release_workflow.sql)
+      if (updates.unlock_date !== undefined && existingContent.album_id) {
+        return createValidationErrorResponse([{
+          field: 'unlock_date',
+          message: 'Album tracks unlock when their album is released; use PATCH /content/albums/{id}/release'
+        }])
+      }
+
+      if (Array.isArray(updates.availability_regions)) {
+        updates.availability_regions = [...new Set(updates.availability_regions as string[])]
+      }
+
+      // Restricted scopes need at least one region, whichever side of the
+      // pair this update changes
+      const scope = updates.availability_scope ?? existingContent.availability_scope ?? 'worldwide'
+      const regions = updates.availability_regions !== undefined
+        ? updates.availability_regions as string[] | null
+        : existingContent.availability_regions
+      if (scope !== 'worldwide' && (regions ?? []).length === 0) {
+        return createValidationErrorResponse([{
+          field: 'availability_regions',
+          message: `At least one country code is required when availability_scope is ${scope}`
+        }])
+      }
+
+      if (updates.metadata) {
+        const metadata: Record<string, unknown> = { ...existingContent.metadata, ...updates.metadata as Record<string, unknown> }
+        for (const [key, value] of Object.entries(metadata)) {
+          if (value === null) delete metadata[key]
+        }
+        updates.metadata = metadata
+      }
+
+      const { data, error } = await supabase
+        .from('content_items')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', contentId)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return createSuccessResponse(data)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/:id/metadata
+  async getMetadata(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+
+      const { data, error } = await supabase
+        .from('content_items')
+        .select('*')
+        .eq('id', contentId)
+        .single()
+
+      if (error || !data) {
+        return createNotFoundResponse('Content')
+      }
+
+      const blocked = await checkListenerRegion(supabase, user.id, data)
+      if (blocked) return blocked
+
+      return createSuccessResponse(data)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/:id/waveform?buckets=
+  async getWaveform(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const buckets = new URL(req.url).searchParams.get('buckets')
+
+      const { data, error } = await supabase
+        .from('content_items')
+        .select('id, artist_id, waveform_peaks, availability_scope, availability_regions')
+        .eq('id', contentId)
+        .single()
+
+      if (error || !data) {
+        return createNotFoundResponse('Content')
+      }
+
+      const blocked = await checkListenerRegion(supabase, user.id, data)
+      if (blocked) return blocked
+
+      const waveform = data.waveform_peaks as WaveformPeaks | null
+      if (!waveform) {
+        return createNotFoundResponse('Waveform')
+      }
+
+      let body = waveform
+      if (buckets !== null) {
+        const peaks = waveform.resolutions[buckets]
+        if (!peaks) {
+          return createValidationErrorResponse([
+            { field: 'buckets', message: `Must be one of: ${Object.keys(waveform.resolutions).join(', ')}` }
+          ])
+        }
+        body = { ...waveform, resolutions: { [buckets]: peaks } }
+      }
+
+      const etag = `"${(await sha256Hex(JSON.stringify(body))).slice(0, 32)}"`
+      const cacheHeaders = { 'ETag': etag, 'Cache-Control': WAVEFORM_CACHE_CONTROL }
+
+      const ifNoneMatch = req.headers.get('If-None-Match')
+      if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag)) {
+        return new Response(null, { status: 304, headers: { ...corsHeaders, ...cacheHeaders } })
+      }
+
+      return withHeaders(createSuccessResponse(body), cacheHeaders)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // POST /content/:id/suggestions/accept
+  async acceptSuggestions(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const { fields } = await validateRequest(req, acceptSuggestionsSchema)
+      const accepted = [...new Set(fields as string[])]
+
+      const artistId = await getArtistId(supabase, user.id)
+      const { data: content } = await supabase
+        .from('content_items')
+        .select('id, album_id, metadata')
+        .eq('id', contentId)
+        .eq('artist_id', artistId)
+        .maybeSingle()
+
+      if (!content) {
+        return createNotFoundResponse('Content')
+      }
+      const suggestions = content.metadata?.suggested_metadata
+      if (!suggestions) {
+        return createNotFoundResponse('Metadata suggestions')
+      }
+
+      const errors: ValidationIssue[] = []
+      const updates: Record<string, unknown> = {}
+      for (const field of accepted) {
+        if (field === 'cover_art') {
+          if (!suggestions.cover_art) {
+            errors.push({ field: 'fields', message: 'No cover art was found in the file' })
+          } else if (!content.album_id) {
+            errors.push({ field: 'fields', message: 'cover_art needs the track to be on an album' })
+          }
+        } else if (suggestions.extracted_metadata?.[field] === undefined) {
+          errors.push({ field: 'fields', message: `No suggestion for ${field}` })
+        } else {
+          updates[field] = suggestions.extracted_metadata[field]
+        }
+      }
+      if (errors.length > 0) {
+        return createValidationErrorResponse(errors)
+      }
+
+      if (accepted.includes('cover_art')) {
+        const { error } = await supabase
+          .from('albums')
+          .update({ artwork_url: suggestions.cover_art.url, updated_at: new Date().toISOString() })
+          .eq('id', content.album_id)
+          .eq('artist_id', artistId)
+
+        if (error) throw error
+      }
+
+      const { data, error } = await supabase
+        .from('content_items')
+        .update({
+          ...updates,
+          metadata: {
+            ...content.metadata,
+            suggested_metadata: {
+              ...suggestions,
+              accepted_fields: [...new Set([...(suggestions.accepted_fields ?? []), ...accepted])]
+            }
+          },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', contentId)
+        .select()
+        .single()
+
+      // ISRCs are unique across the catalogue
+      if (error?.code === '23505') {
+        return createErrorResponse('The suggested ISRC is already assigned to another track', 409)
+      }
+      if (error) throw error
+
+      return createSuccessResponse(data)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // ==========================================
+  // METADATA REVISION ENDPOINTS
+  // ==========================================
+
+  // GET /content/:id/revisions
+  async getRevisions(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const list = parseListQuery(new URL(req.url), revisionListOptions)
+      const artistId = await getArtistId(supabase, user.id)
+
+      const content = await findOwnedContent(supabase, contentId, artistId)
+      if (!content) {
+        return createNotFoundResponse('Content')
+      }
+
+      const query = supabase
+        .from('content_metadata_revisions')
+        .select('id, revision, changed_by, changed_at, changed_fields, before, after, restored_from')
+        .eq('content_id', contentId)
+
+      const { data, error } = await applyListQuery(query, list)
+
+      if (error) throw error
+
+      const { items, pagination } = paginate(data, list)
+      return createPaginatedResponse(items, pagination)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/:id/revisions/diff?from=:rev&to=:rev
+  async diffRevisions(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const url = new URL(req.url)
+
+      const errors: ValidationIssue[] = []
+      const from = parseRevision(url.searchParams.get('from'), 'from', errors)
+      const to = parseRevision(url.searchParams.get('to'), 'to', errors)
+      if (errors.length > 0) {
+        return createValidationErrorResponse(errors)
+      }
+
+      const artistId = await getArtistId(supabase, user.id)
+      const content = await findOwnedContent(supabase, contentId, artistId)
+      if (!content) {
+        return createNotFoundResponse('Content')
+      }
+
+      const { data: revisions, error } = await supabase
+        .from('content_metadata_revisions')
+        .select('revision, changed_fields, before, after')
+        .eq('content_id', contentId)
+        .gte('revision', Math.min(from, to))
+        .lte('revision', Math.max(from, to))
+        .order('revision', { ascending: true })
+
+      if (error) throw error
+
+      // Revisions are numbered without gaps from 1, so a short range means
+      // `from` or `to` does not exist (0 is the original state, not a row)
+      const low = Math.min(from, to)
+      const expected = Math.abs(to - from) + (low > 0 ? 1 : 0)
+      if ((revisions || []).length !== expected) {
+        return createNotFoundResponse('Revision')
+      }
+
+      return createSuccessResponse({
+        from,
+        to,
+        changes: diffRevisionRange((revisions || []).filter(r => r.revision > low), from, to)
+      })
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // POST /content/:id/revisions/:rev/restore
+  async restoreRevision(req: Request, contentId: string, rev: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+
+      const errors: ValidationIssue[] = []
+      const revision = parseRevision(rev, 'rev', errors)
+      if (errors.length > 0) {
+        return createValidationErrorResponse(errors)
+      }
+
+      const artistId = await getArtistId(supabase, user.id)
+      const content = await findOwnedContent(supabase, contentId, artistId)
+      if (!content) {
+        return createNotFoundResponse('Content')
+      }
+
+      const { data, error } = await supabase
+        .rpc('restore_content_metadata_revision', {
+          content_id_param: contentId,
+          revision_param: revision
+        })
+
+      // P0002: raised by the function when the revision does not exist
+      if (error?.code === 'P0002') {
+        return createNotFoundResponse('Revision')
+      }
+      if (error) throw error
+
+      const created = Array.isArray(data) ? data[0] : data
+      if (!created) {
+        return createSuccessResponse({ revision: null }, 200, `Content already matches revision ${revision}`)
+      }
+
+      return createSuccessResponse({ revision: created }, 200, `Restored revision ${revision}`)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // ==========================================
+  // ALBUM MANAGEMENT ENDPOINTS
+  // ==========================================
+
+  // GET /content/albums
+  async getAlbums(req: Request): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const artistId = await getArtistId(supabase, user.id)
+      const list = parseListQuery(new URL(req.url), albumListOptions)
+
+      const query = supabase
+        .from('albums')
+        .select(`
+          *,
+          tracks:content_items(id, title, track_number, duration_seconds)
+        `)
+        .eq('artist_id', artistId)
+
+      const { data, error } = await applyListQuery(query, list)
+
+      if (error) throw error
+
+      const { items, pagination } = paginate(data, list)
+      return createPaginatedResponse(items, pagination)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // POST /content/albums
+  async createAlbum(req: Request): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const { name, description, release_date, artwork_url } = await validateRequest(req, createAlbumSchema)
+      const artistId = await getArtistId(supabase, user.id)
+
+      const { data, error } = await supabase
+        .from('albums')
+        .insert({
+          name,
+          description,
+          release_date,
+          artwork_url,
+          artist_id: artistId
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return createSuccessResponse(data, 201)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // PUT /content/albums/:id
+  async updateAlbum(req: Request, albumId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const updates = await validateRequest(req, updateAlbumSchema)
+      if (Object.keys(updates).length === 0) {
+        return createErrorResponse('No editable fields provided', 400)
+      }
+
+      const artistId = await getArtistId(supabase, user.id)
+
+      // Verify ownership
+      const { data: album, error: fetchError } = await supabase
+        .from('albums')
+        .select('id')
+        .eq('id', albumId)
+        .eq('artist_id', artistId)
+        .single()
+
+      if (fetchError || !album) {
+        return createNotFoundResponse('Album')
+      }
+
+      const { data, error } = await supabase
+        .from('albums')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', albumId)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return createSuccessResponse(data)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // DELETE /content/albums/:id
+  async deleteAlbum(req: Request, albumId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const artistId = await getArtistId(supabase, user.id)
+
+      // Verify ownership and get track count
+      const { data: album, error: fetchError } = await supabase
+        .from('albums')
+        .select('id, total_tracks, release_status')
+        .eq('id', albumId)
+        .eq('artist_id', artistId)
+        .single()
+
+      if (fetchError || !album) {
+        return createNotFoundResponse('Album')
+      }
+
+      if (album.release_status === 'scheduled' || album.release_status === 'released') {
+        return createErrorResponse(`Cannot delete a ${album.release_status} album. Withdraw or unschedule it first.`, 409)
+      }
+
+      if (album.total_tracks > 0) {
+        throw new Error('Cannot delete album with tracks. Remove tracks first.')
+      }
+
+      const { error } = await supabase
+        .from('albums')
+        .delete()
+        .eq('id', albumId)
+
+      if (error) throw error
+
+      return createSuccessResponse({ message: 'Album deleted' })
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/albums/:id/tracks
+  async getAlbumTracks(req: Request, albumId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const list = parseListQuery(new URL(req.url), albumTrackListOptions)
+
+      const { data: album } = await supabase
+        .from('albums')
+        .select('artist_id')
+        .eq('id', albumId)
+        .maybeSingle()
+
+      let query = supabase
+        .from('content_items')
+        .select('*')
+        .eq('album_id', albumId)
+
+      // Tracks unavailable in the caller's region are filtered out by the
+      // query so pages stay full; the owning artist sees every track
+      if (!album || !await isArtistOf(supabase, user.id, album.artist_id)) {
+        query = query.or(availabilityFilter(await resolveCountry()))
+      }
+
+      const { data, error } = await applyListQuery(query, list)
+
+      if (error) throw error
+
+      const { items, pagination } = paginate(data, list)
+      return createPaginatedResponse(items, pagination)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // POST /content/albums/:id/tracks
+  async attachAlbumTracks(req: Request, albumId: string): Promise<Response> {
+    try {
+      return await runTracklistOperation(req, albumId, 'attach_album_tracks', attachTracksSchema)
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // POST /content/albums/:id/tracks/detach
+  async detachAlbumTracks(req: Request, albumId: string): Promise<Response> {
+    try {
+      return await runTracklistOperation(req, albumId, 'detach_album_tracks', detachTracksSchema)
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // PUT /content/albums/:id/tracks
+  async reorderAlbumTracks(req: Request, albumId: string): Promise<Response> {
+    try {
+      return await runTracklistOperation(req, albumId, 'reorder_album_tracks', reorderTracksSchema)
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/albums/:id/release
+  async getAlbumRelease(req: Request, albumId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const artistId = await getArtistId(supabase, user.id)
+
+      const { data: album, error: fetchError } = await supabase
+        .from('albums')
+        .select('id, release_status, release_at, release_date, released_at, withdrawn_at, status_changed_at')
+        .eq('id', albumId)
+        .eq('artist_id', artistId)
+        .single()
+
+      if (fetchError || !album) {
+        return createNotFoundResponse('Album')
+      }
+
+      const { data: problems, error } = await supabase.rpc('album_release_problems', {
+        album_id_param: albumId
+      })
+
+      if (error) throw error
+
+      return createSuccessResponse({
+        ...album,
+        ready: (problems ?? []).length === 0,
+        problems: problems ?? []
+      })
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // PATCH /content/albums/:id/release
+  async updateAlbumRelease(req: Request, albumId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const { status, release_at } = await validateRequest(req, updateReleaseSchema)
+
+      if (status === 'scheduled' && !release_at) {
+        return createValidationErrorResponse([{ field: 'release_at', message: 'Required when scheduling a release' }])
+      }
+
+      const artistId = await getArtistId(supabase, user.id)
+      const album = await findOwnedAlbum(supabase, albumId, artistId)
+      if (!album) {
+        return createNotFoundResponse('Album')
+      }
+
+      // Report every readiness problem rather than the function's summary
+      if (status === 'scheduled' || status === 'released') {
+        const { data: problems, error: problemsError } = await supabase.rpc('album_release_problems', {
+          album_id_param: albumId
+        })
+        if (problemsError) throw problemsError
+        if ((problems ?? []).length > 0) {
+          return createValidationErrorResponse(problems as ValidationIssue[])
+        }
+      }
+
+      const { data, error } = await supabase
+        .rpc('transition_album_release', {
+          album_id_param: albumId,
+          target_status: status,
+          release_at_param: status === 'scheduled' ? release_at : null
+        })
+        .single()
+
+      // P0002: album vanished, 55000: transition not allowed from the
+      // current status, 22023: not ready or release_at not in the future
+      if (error?.code === 'P0002') {
+        return createNotFoundResponse('Album')
+      }
+      if (error?.code === '55000') {
+        return createErrorResponse(error.message, 409)
+      }
+      if (error?.code === '22023') {
+        return createValidationErrorResponse([{ field: status === 'scheduled' ? 'release_at' : 'status', message: error.message }])
+      }
+      if (error) throw error
+
+      return createSuccessResponse(data)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/albums/:id/ddex?recipient=&recipient_name=&test=
+  async exportAlbumDdex(req: Request, albumId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      if (!ddexSender.dpid || !ddexSender.name) {
+        return createErrorResponse('DDEX export is not configured', 503)
+      }
+
+      const params = new URL(req.url).searchParams
+      const recipient = { dpid: params.get('recipient') ?? '', name: params.get('recipient_name') ?? '' }
+      const paramErrors: ValidationIssue[] = []
+      if (!DPID_PATTERN.test(recipient.dpid)) {
+        paramErrors.push({ field: 'recipient', message: 'Must be the DDEX Party Identifier of the recipient' })
+      }
+      if (!recipient.name.trim()) {
+        paramErrors.push({ field: 'recipient_name', message: 'Required' })
+      }
+      if (paramErrors.length > 0) {
+        return createValidationErrorResponse(paramErrors)
+      }
+
+      const { data: artist } = await supabase
+        .from('artist_profiles')
+        .select('id, artist_name, record_label')
+        .eq('user_id', user.id)
+        .single()
+
+      if (!artist) {
+        throw new Error('Artist profile not found')
+      }
+
+      const { data: albumRow } = await supabase
+        .from('albums')
+        .select('id, name, release_date, artwork_url')
+        .eq('id', albumId)
+        .eq('artist_id', artist.id)
+        .maybeSingle()
+
+      if (!albumRow) {
+        return createNotFoundResponse('Album')
+      }
+
+      const { data: tracks, error } = await supabase
+        .from('content_items')
+        .select('id, title, track_number, isrc, p_line, record_label, publisher, release_date, explicit, duration_ms, duration_seconds, availability_scope, availability_regions, license_type, metadata')
+        .eq('album_id', albumId)
+        .order('track_number', { ascending: true })
+
+      if (error) throw error
+
+      const album: DdexAlbum = { ...albumRow, artist_name: artist.artist_name, record_label: artist.record_label }
+      const problems = ddexProblems(album, (tracks ?? []) as DdexTrack[])
+      if (problems.length > 0) {
+        return createValidationErrorResponse(problems)
+      }
+
+      const body = buildNewReleaseMessage(album, tracks as DdexTrack[], {
+        sender: ddexSender,
+        recipient,
+        messageId: crypto.randomUUID(),
+        createdAt: new Date(),
+        test: params.get('test') === 'true'
+      })
+
+      return new Response(body, {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/xml; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${albumId}.ern.xml"`
+        }
+      })
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // ==========================================
+  // LYRICS MANAGEMENT ENDPOINTS
+  // ==========================================
+
+  // GET /content/:id/lyrics?language=
+  async getLyrics(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+
+      const found = await findLyricsVersion(req, supabase, contentId)
+      if (!found) {
+        return createNotFoundResponse('Lyrics')
+      }
+
+      const blocked = found.version.content
+        && await checkListenerRegion(supabase, user.id, found.version.content)
+      if (blocked) return blocked
+
+      const { content: _content, ...version } = found.version
+      return withLanguageHeaders(
+        createSuccessResponse({ ...version, available_languages: found.available }),
+        version.language
+      )
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return createValidationErrorResponse(error.errors)
+      }
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/:id/lyrics/versions
+  async getLyricsVersions(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const artistId = await getArtistId(supabase, user.id)
+
+      const content = await findOwnedContent(supabase, contentId, artistId)
+      if (!content) {
+        return createNotFoundResponse('Content')
+      }
+
+      const { data, error } = await supabase
+        .from('content_lyrics')
+        .select('language, is_original, synchronized, source_format, rights_cleared, created_at, updated_at')
+        .eq('content_id', contentId)
+        .order('is_original', { ascending: false })
+        .order('language', { ascending: true })
+
+      if (error) throw error
+
+      return createSuccessResponse(data || [])
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // POST /content/:id/lyrics
+  async addLyrics(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const { text, synchronized, language, is_original, rights_cleared, segments } = await validateRequest(req, addLyricsSchema)
+      const artistId = await getArtistId(supabase, user.id)
+
+      const content = await findOwnedContent(supabase, contentId, artistId)
+      if (!content) {
+        return createNotFoundResponse('Content')
+      }
+
+      if (segments) {
+        const errors = validateSegments(segments, content.duration_seconds ?? null)
+        if (errors.length > 0) {
+          return createValidationErrorResponse(errors)
+        }
+      }
+
+      const tag = canonicalLanguageTag(language ?? 'en')!
+      return await saveLyrics(supabase, contentId, {
+        language: tag,
+        is_original: is_original ?? await defaultIsOriginal(supabase, contentId, tag),
+        text,
+        synchronized: synchronized || Boolean(segments?.length),
+        segments: segments ?? null,
+        source_format: null,
+        rights_cleared: rights_cleared || false
+      })
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // POST /content/:id/lyrics/import
+  async importLyrics(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const { format, document, language, is_original, rights_cleared } = await validateRequest(req, importLyricsSchema)
+      const artistId = await getArtistId(supabase, user.id)
+
+      const content = await findOwnedContent(supabase, contentId, artistId)
+      if (!content) {
+        return createNotFoundResponse('Content')
+      }
+
+      const parsed = format === 'lrc' ? parseLrc(document) : parseTtml(document)
+      if (parsed.segments.length === 0) {
+        return createValidationErrorResponse([{ field: 'document', message: 'Document contains no timed lines' }])
+      }
+
+      const errors = validateSegments(parsed.segments, content.duration_seconds ?? null)
+      if (errors.length > 0) {
+        return createValidationErrorResponse(errors)
+      }
+
+      // The body's language wins over the document's [la:] / xml:lang
+      const tag = canonicalLanguageTag(language ?? parsed.language ?? 'en')
+      if (!tag) {
+        return createValidationErrorResponse([{ field: 'language', message: `Document language "${parsed.language}" is not a BCP 47 tag; pass language explicitly` }])
+      }
+
+      return await saveLyrics(supabase, contentId, {
+        language: tag,
+        is_original: is_original ?? await defaultIsOriginal(supabase, contentId, tag),
+        text: parsed.segments.map(segment => segment.line).join('\n'),
+        synchronized: true,
+        segments: parsed.segments,
+        source_format: format,
+        rights_cleared: rights_cleared || false
+      })
+
+    } catch (error) {
+      // Parse failures carry line-level issues
+      if (error instanceof ValidationError) {
+        return createValidationErrorResponse(error.errors)
+      }
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // DELETE /content/:id/lyrics/:language
+  async deleteLyrics(req: Request, contentId: string, languageParam: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const language = canonicalLanguageTag(languageParam)
+      if (!language) {
+        return createValidationErrorResponse([{ field: 'language', message: 'Must be a BCP 47 language tag, e.g. en or pt-BR' }])
+      }
+
+      const artistId = await getArtistId(supabase, user.id)
+      const content = await findOwnedContent(supabase, contentId, artistId)
+      if (!content) {
+        return createNotFoundResponse('Content')
+      }
+
+      const { data, error } = await supabase
+        .from('content_lyrics')
+        .delete()
+        .eq('content_id', contentId)
+        .eq('language', language)
+        .select('language')
+
+      if (error) throw error
+      if (!data || data.length === 0) {
+        return createNotFoundResponse('Lyrics')
+      }
+
+      return createSuccessResponse({ message: 'Lyrics deleted', language })
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/:id/lyrics/export?format=lrc|ttml&language=
+  async exportLyrics(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const format = new URL(req.url).searchParams.get('format') ?? 'lrc'
+      if (!(LYRICS_FORMATS as readonly string[]).includes(format)) {
+        return createValidationErrorResponse([{ field: 'format', message: `Must be one of: ${LYRICS_FORMATS.join(', ')}` }])
+      }
+
+      const found = await findLyricsVersion(req, supabase, contentId, true)
+      if (!found) {
+        return createNotFoundResponse('Synchronized lyrics')
+      }
+
+      const blocked = found.version.content
+        && await checkListenerRegion(supabase, user.id, found.version.content)
+      if (blocked) return blocked
+
+      const { language, segments, content } = found.version
+      const body = format === 'lrc'
+        ? toLrc(segments!, { enhanced: true, language })
+        : toTtml(segments!, { language, durationMs: durationMs(content?.duration_seconds) })
+
+      return withLanguageHeaders(new Response(body, {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': format === 'lrc' ? 'text/plain; charset=utf-8' : 'application/ttml+xml; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${contentId}.${language}.${format}"`
+        }
+      }), language)
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return createValidationErrorResponse(error.errors)
+      }
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/:id/lyrics/active?offset_ms=&language=
+  async getActiveLyric(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const rawOffset = new URL(req.url).searchParams.get('offset_ms')
+      const offsetMs = Number(rawOffset)
+      if (rawOffset === null || rawOffset.trim() === '' || !Number.isInteger(offsetMs) || offsetMs < 0) {
+        return createValidationErrorResponse([{ field: 'offset_ms', message: 'Must be a non-negative integer number of milliseconds' }])
+      }
+
+      const found = await findLyricsVersion(req, supabase, contentId, true)
+      if (!found) {
+        return createNotFoundResponse('Synchronized lyrics')
+      }
+
+      const blocked = found.version.content
+        && await checkListenerRegion(supabase, user.id, found.version.content)
+      if (blocked) return blocked
+
+      const segments = found.version.segments!
+      const trackEndMs = durationMs(found.version.content?.duration_seconds)
+      const active = findActiveSegment(segments, offsetMs, trackEndMs)
+
+      // The next line after the active one, or after the gap offsetMs is in
+      const nextIndex = active
+        ? active.index + 1
+        : segments.findIndex(segment => segment.tStartMs > offsetMs)
+      const next = nextIndex >= 0 && nextIndex < segments.length
+        ? { index: nextIndex, tStartMs: segments[nextIndex].tStartMs, line: segments[nextIndex].line }
+        : null
+
+      return withLanguageHeaders(createSuccessResponse({
+        offset_ms: offsetMs,
+        language: found.version.language,
+        active: active && {
+          index: active.index,
+          tStartMs: active.segment.tStartMs,
+          tEndMs: active.endMs,
+          line: active.segment.line,
+          word: active.word
+        },
+        next
+      }), found.version.language)
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return createValidationErrorResponse(error.errors)
+      }
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // ==========================================
+  // VISUAL CLIP MANAGEMENT ENDPOINTS
+  // ==========================================
+
+  // POST /content/:id/visual-clip
+  async addVisualClip(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const { file_path, duration_sec, loop_enabled } = await validateRequest(req, addVisualClipSchema)
+      const artistId = await getArtistId(supabase, user.id)
+
+      const content = await findOwnedContent(supabase, contentId, artistId)
+      if (!content) {
+        return createNotFoundResponse('Content')
+      }
+
+      const visualClipData = {
+        file_path,
+        duration_sec: duration_sec || 30,
+        loop_enabled: loop_enabled !== false,
+        created_at: new Date().toISOString()
+      }
+
+      const { data, error } = await supabase
+        .from('content_items')
+        .update({ visual_clip: visualClipData })
+        .eq('id', contentId)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return createSuccessResponse({ visual_clip: data.visual_clip })
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // ==========================================
+  // BSL LICENSE MANAGEMENT ENDPOINTS
+  // ==========================================
+
+  // GET /content/bsl/eligible
+  async checkBSLEligibility(req: Request): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const artistId = await getArtistId(supabase, user.id)
+
+      const { data, error } = await supabase
+        .rpc('check_bsl_eligibility', { artist_id: artistId })
+
+      if (error) throw error
+
+      return createSuccessResponse({ eligible: data })
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // POST /content/bsl/enable
+  async enableBSL(req: Request): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const { content_id } = await validateRequest(req, enableBSLSchema)
+      const artistId = await getArtistId(supabase, user.id)
+
+      // Check BSL eligibility
+      const { data: eligible, error: eligibilityError } = await supabase
+        .rpc('check_bsl_eligibility', { artist_id: artistId })
+
+      if (eligibilityError || !eligible) {
+        return createForbiddenResponse('Artist not eligible for BSL licensing')
+      }
+
+      // Update content to BSL license
+      const { data, error } = await supabase
+        .from('content_items')
+        .update({ license_type: 'bsl' })
+        .eq('id', content_id)
+        .eq('artist_id', artistId)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return createSuccessResponse(data)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/bsl/tracks
+  async getBSLTracks(req: Request): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const artistId = await getArtistId(supabase, user.id)
+      const list = parseListQuery(new URL(req.url), bslTrackListOptions)
+
+      const query = supabase
+        .from('content_items')
+        .select('*')
+        .eq('artist_id', artistId)
+        .eq('license_type', 'bsl')
+
+      const { data, error } = await applyListQuery(query, list)
+
+      if (error) throw error
+
+      const { items, pagination } = paginate(data, list)
+      return createPaginatedResponse(items, pagination)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
   }
-});
+}
 
-export default router;
\ No newline at end of file
+export function registerContentRoutes(registry: RouteRegistry) {
+  registry
+    .add({
+      method: 'GET',
+      path: '/content/:id/metadata',
+      summary: 'Get a content item with its full metadata',
+      auth: {},
+      handler: (req, { params }) => contentRoutes.getMetadata(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/:id/waveform',
+      summary: 'Get waveform peaks of an audio content item',
+      auth: {},
+      handler: (req, { params }) => contentRoutes.getWaveform(req, params.id)
+    })
+    .add({
+      method: 'POST',
+      path: '/content/:id/suggestions/accept',
+      summary: 'Apply metadata suggestions read from the file\'s embedded tags',
+      auth: ARTIST_ONLY,
+      body: acceptSuggestionsSchema,
+      handler: (req, { params }) => contentRoutes.acceptSuggestions(req, params.id)
+    })
+    .add({
+      method: 'PUT',
+      path: '/content/:id/metadata',
+      summary: 'Update content item metadata',
+      auth: ARTIST_ONLY,
+      body: updateMetadataSchema,
+      handler: (req, { params }) => contentRoutes.updateMetadata(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/:id/revisions',
+      summary: 'List the metadata revision history of a content item',
+      auth: ARTIST_ONLY,
+      list: revisionListOptions,
+      handler: (req, { params }) => contentRoutes.getRevisions(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/:id/revisions/diff',
+      summary: 'Field-level diff between two metadata revisions (?from=&to=, 0 is the original state)',
+      auth: ARTIST_ONLY,
+      handler: (req, { params }) => contentRoutes.diffRevisions(req, params.id)
+    })
+    .add({
+      method: 'POST',
+      path: '/content/:id/revisions/:rev/restore',
+      summary: 'Restore content metadata to how it was right after a revision',
+      auth: ARTIST_ONLY,
+      handler: (req, { params }) => contentRoutes.restoreRevision(req, params.id, params.rev)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/:id/lyrics',
+      summary: 'Rights-cleared lyrics in the best language for Accept-Language (or ?language=)',
+      auth: {},
+      handler: (req, { params }) => contentRoutes.getLyrics(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/:id/lyrics/versions',
+      summary: 'List all lyric versions of a content item by language',
+      auth: ARTIST_ONLY,
+      handler: (req, { params }) => contentRoutes.getLyricsVersions(req, params.id)
+    })
+    .add({
+      method: 'POST',
+      path: '/content/:id/lyrics',
+      summary: 'Add or replace the lyrics version for a language (original or translation)',
+      auth: ARTIST_ONLY,
+      body: addLyricsSchema,
+      handler: (req, { params }) => contentRoutes.addLyrics(req, params.id)
+    })
+    .add({
+      method: 'DELETE',
+      path: '/content/:id/lyrics/:language',
+      summary: 'Delete the lyrics version for a language',
+      auth: ARTIST_ONLY,
+      handler: (req, { params }) => contentRoutes.deleteLyrics(req, params.id, params.language)
+    })
+    .add({
+      method: 'POST',
+      path: '/content/:id/lyrics/import',
+      summary: 'Add or replace a time-synced lyrics version parsed from an LRC (incl. enhanced) or TTML document',
+      auth: ARTIST_ONLY,
+      body: importLyricsSchema,
+      handler: (req, { params }) => contentRoutes.importLyrics(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/:id/lyrics/export',
+      summary: 'Download time-synced lyrics as LRC (?format=lrc, default) or TTML (?format=ttml), language chosen as for GET lyrics',
+      auth: {},
+      handler: (req, { params }) => contentRoutes.exportLyrics(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/:id/lyrics/active',
+      summary: 'The lyric line (and word) active at a playback offset (?offset_ms=)',
+      auth: {},
+      handler: (req, { params }) => contentRoutes.getActiveLyric(req, params.id)
+    })
+    .add({
+      method: 'POST',
+      path: '/content/:id/visual-clip',
+      summary: 'Attach visual clip metadata to a content item',
+      auth: ARTIST_ONLY,
+      body: addVisualClipSchema,
+      handler: (req, { params }) => contentRoutes.addVisualClip(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/albums',
+      summary: "List the artist's albums with their tracks",
+      auth: ARTIST_ONLY,
+      list: albumListOptions,
+      handler: (req) => contentRoutes.getAlbums(req)
+    })
+    .add({
+      method: 'POST',
+      path: '/content/albums',
+      summary: 'Create an album',
+      auth: ARTIST_ONLY,
+      body: createAlbumSchema,
+      successStatus: 201,
+      handler: (req) => contentRoutes.createAlbum(req)
+    })
+    .add({
+      method: 'PUT',
+      path: '/content/albums/:id',
+      summary: 'Update an album',
+      auth: ARTIST_ONLY,
+      body: updateAlbumSchema,
+      handler: (req, { params }) => contentRoutes.updateAlbum(req, params.id)
+    })
+    .add({
+      method: 'DELETE',
+      path: '/content/albums/:id',
+      summary: 'Delete an empty album',
+      auth: ARTIST_ONLY,
+      handler: (req, { params }) => contentRoutes.deleteAlbum(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/albums/:id/tracks',
+      summary: 'List the tracks of an album in track order',
+      auth: {},
+      list: albumTrackListOptions,
+      handler: (req, { params }) => contentRoutes.getAlbumTracks(req, params.id)
+    })
+    .add({
+      method: 'POST',
+      path: '/content/albums/:id/tracks',
+      summary: 'Attach tracks to an album at a position (default: the end), moving them from other albums',
+      auth: ARTIST_ONLY,
+      body: attachTracksSchema,
+      handler: (req, { params }) => contentRoutes.attachAlbumTracks(req, params.id)
+    })
+    .add({
+      method: 'PUT',
+      path: '/content/albums/:id/tracks',
+      summary: "Reorder an album's complete tracklist",
+      auth: ARTIST_ONLY,
+      body: reorderTracksSchema,
+      handler: (req, { params }) => contentRoutes.reorderAlbumTracks(req, params.id)
+    })
+    .add({
+      method: 'POST',
+      path: '/content/albums/:id/tracks/detach',
+      summary: 'Remove tracks from an album; remaining tracks are renumbered',
+      auth: ARTIST_ONLY,
+      body: detachTracksSchema,
+      handler: (req, { params }) => contentRoutes.detachAlbumTracks(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/albums/:id/release',
+      summary: "An album's release status and any problems blocking its release",
+      auth: ARTIST_ONLY,
+      handler: (req, { params }) => contentRoutes.getAlbumRelease(req, params.id)
+    })
+    .add({
+      method: 'PATCH',
+      path: '/content/albums/:id/release',
+      summary: 'Schedule, publish, unschedule or withdraw an album release',
+      auth: ARTIST_ONLY,
+      body: updateReleaseSchema,
+      handler: (req, { params }) => contentRoutes.updateAlbumRelease(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/albums/:id/ddex',
+      summary: 'Export an album as a DDEX ERN 4.3 NewReleaseMessage, or list what it is missing',
+      auth: ARTIST_ONLY,
+      handler: (req, { params }) => contentRoutes.exportAlbumDdex(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/bsl/eligible',
+      summary: 'Check whether the artist is eligible for BSL licensing',
+      auth: ARTIST_ONLY,
+      handler: (req) => contentRoutes.checkBSLEligibility(req)
+    })
+    .add({
+      method: 'POST',
+      path: '/content/bsl/enable',
+      summary: 'License a track under the Buckets Sync Library',
+      auth: ARTIST_ONLY,
+      body: enableBSLSchema,
+      handler: (req) => contentRoutes.enableBSL(req)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/bsl/tracks',
+      summary: "List the artist's BSL-licensed tracks",
+      auth: ARTIST_ONLY,
+      list: bslTrackListOptions,
+      handler: (req) => contentRoutes.getBSLTracks(req)
+    })
+}
@@ -0,0 +1,132 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createErrorResponse, createSuccessResponse, createNotFoundResponse, createPaginatedResponse } from '../utils/responses.ts'
+import { applyListQuery, paginate, parseListQuery, ListOptions } from '../utils/pagination.ts'
+import { strictSchema, validateRequest, ValidationSchema } from '../middleware/validation.ts'
+import { getAuth, ARTIST_ONLY, AuthRequirement } from '../middleware/auth.ts'
+import { logger } from '../utils/logger.ts'
+import type { RouteRegistry } from '../api/route-registry.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+// Admins review flags of every uploader, which RLS only shows to the uploader
+const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+const ADMIN_ONLY: AuthRequirement = { roles: ['admin'] }
+
+// Mirrors content_duplicate_flags in 015_content_duplicates.sql
+const DUPLICATE_ACTIONS = ['blocked', 'linked', 'flagged', 'warned'] as const
+const MATCH_TYPES = ['checksum', 'isrc', 'title_duration'] as const
+const REVIEW_STATUSES = ['pending', 'dismissed', 'confirmed'] as const
+
+const FLAG_COLUMNS = 'id, upload_id, uploader_id, content_item_id, matched_content_id, match_type, action, review_status, reviewed_by, reviewed_at, review_note, created_at'
+
+const duplicateListOptions: ListOptions = {
+  sortFields: ['created_at'],
+  timeColumn: 'created_at',
+  filters: {
+    action: { type: 'string', enum: DUPLICATE_ACTIONS },
+    match_type: { type: 'string', enum: MATCH_TYPES },
+    review_status: { type: 'string', enum: REVIEW_STATUSES },
+    uploader_id: { type: 'uuid' },
+    content_item_id: { type: 'uuid' }
+  }
+}
+
+const reviewDuplicateSchema: ValidationSchema = strictSchema({
+  review_status: { type: 'string', enum: ['dismissed', 'confirmed'] },
+  review_note: { type: 'string', optional: true, nullable: true, maxLength: 2000 }
+})
+
+export const duplicateRoutes = {
+  // GET /content/duplicates
+  async getDuplicates(req: Request): Promise<Response> {
+    try {
+      const { supabase, role } = await getAuth(req)
+      const list = parseListQuery(new URL(req.url), duplicateListOptions)
+
+      // Artists get the detections for their own uploads through RLS
+      const client = role === 'admin' ? adminClient : supabase
+      const query = client
+        .from('content_duplicate_flags')
+        .select(FLAG_COLUMNS)
+
+      const { data, error } = await applyListQuery(query, list)
+
+      if (error) throw error
+
+      const { items, pagination } = paginate(data, list)
+      return createPaginatedResponse(items, pagination)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // PATCH /content/duplicates/:id
+  async reviewDuplicate(req: Request, flagId: string): Promise<Response> {
+    try {
+      const { user } = await getAuth(req)
+      const { review_status, review_note } = await validateRequest(req, reviewDuplicateSchema)
+
+      const { data: flag } = await adminClient
+        .from('content_duplicate_flags')
+        .select('id, action')
+        .eq('id', flagId)
+        .maybeSingle()
+
+      if (!flag) {
+        return createNotFoundResponse('Duplicate flag')
+      }
+      // Linked re-uploads and warnings are informational
+      if (flag.action !== 'blocked' && flag.action !== 'flagged') {
+        return createErrorResponse(`A ${flag.action} duplicate is not reviewed`, 409)
+      }
+
+      const { data, error } = await adminClient
+        .from('content_duplicate_flags')
+        .update({
+          review_status,
+          review_note: review_note ?? null,
+          reviewed_by: user.id,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', flagId)
+        .select(FLAG_COLUMNS)
+        .single()
+
+      if (error) throw error
+
+      logger.info('duplicate.reviewed', { flag_id: flagId, review_status, reviewed_by: user.id })
+      return createSuccessResponse(data)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  }
+}
+
+export function registerDuplicateRoutes(registry: RouteRegistry) {
+  registry
+    .add({
+      method: 'GET',
+      path: '/content/duplicates',
+      summary: 'List duplicate detections (own uploads, or all for admins)',
+      auth: ARTIST_ONLY,
+      list: duplicateListOptions,
+      handler: (req) => duplicateRoutes.getDuplicates(req)
+    })
+    .add({
+      method: 'PATCH',
+      path: '/content/duplicates/:id',
+      summary: 'Dismiss or confirm a blocked or flagged duplicate',
+      auth: ADMIN_ONLY,
+      body: reviewDuplicateSchema,
+      handler: (req, { params }) => duplicateRoutes.reviewDuplicate(req, params.id)
+    })
+}
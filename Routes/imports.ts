@@ -0,0 +1,205 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createErrorResponse, createSuccessResponse, createNotFoundResponse, createPaginatedResponse, createValidationErrorResponse, withHeaders } from '../utils/responses.ts'
+import { applyListQuery, paginate, parseListQuery, ListOptions } from '../utils/pagination.ts'
+import { strictSchema, toFieldSchema, validateData, validateRequest, ValidationError, ValidationIssue, ValidationSchema } from '../middleware/validation.ts'
+import { getAuth, getArtistId, ARTIST_ONLY } from '../middleware/auth.ts'
+import { CATALOG_FORMATS, parseCatalogCsv, toCatalogRow } from '../utils/catalog-import.ts'
+import { readNewReleaseMessage } from '../utils/ddex.ts'
+import { updateMetadataSchema } from './content.ts'
+import { logger } from '../utils/logger.ts'
+import type { RouteRegistry } from '../api/route-registry.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+// Jobs are queued only here, after validation, so artists have no INSERT
+// policy on catalog_import_jobs (017_catalog_imports.sql)
+const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+// Imports are applied by api/import-worker.ts in one transaction each
+const MAX_IMPORT_ROWS = 2000
+
+// As in the license_type CHECK of 003_advanced_metadata_system.sql. BSL is
+// enabled per track through the BSL endpoints, which check eligibility.
+const IMPORT_LICENSE_TYPES = ['all_rights_reserved', 'cc_by', 'cc_by_sa', 'cc_by_nc', 'cc_by_nc_sa', 'cc_by_nd', 'cc_by_nc_nd']
+
+// Columns validated with the same rules as PUT /content/:id/metadata
+const EDITABLE_COLUMNS = [
+  'title', 'description', 'isrc', 'record_label', 'publisher', 'p_line', 'release_date', 'explicit',
+  'availability_scope', 'availability_regions', 'buy_link_url', 'buy_link_title'
+]
+
+const importRowSchema: ValidationSchema = strictSchema({
+  ...Object.fromEntries(EDITABLE_COLUMNS.map((column) => [column, updateMetadataSchema[column]])),
+  title: { ...toFieldSchema(updateMetadataSchema.title), optional: false },
+  license_type: { type: 'string', enum: IMPORT_LICENSE_TYPES, optional: true },
+  album: { type: 'string', optional: true, maxLength: 200 },
+  album_release_date: { type: 'string', format: 'date', optional: true },
+  track_number: { type: 'integer', min: 1, optional: true },
+  genre: { type: 'string', optional: true, maxLength: 100 }
+})
+
+const createImportSchema: ValidationSchema = strictSchema({
+  format: { type: 'string', enum: CATALOG_FORMATS },
+  document: { type: 'string', maxLength: 5_000_000 },
+  all_or_nothing: { type: 'boolean', optional: true }
+})
+
+const JOB_COLUMNS = 'id, format, all_or_nothing, status, total_rows, succeeded_rows, failed_rows, error, created_at, started_at, finished_at'
+
+const importListOptions: ListOptions = {
+  sortFields: ['created_at'],
+  timeColumn: 'created_at',
+  filters: {
+    status: { type: 'string', enum: ['queued', 'running', 'completed', 'failed'] },
+    format: { type: 'string', enum: CATALOG_FORMATS }
+  }
+}
+
+// Schema errors plus the rules PUT /content/:id/metadata and the album
+// endpoints apply across fields
+function validateEntry(values: Record<string, unknown>): ValidationIssue[] {
+  const errors = validateData(values, importRowSchema)
+
+  const scope = values.availability_scope ?? 'worldwide'
+  if (scope !== 'worldwide' && !(values.availability_regions as string[] | undefined)?.length) {
+    errors.push({ field: 'availability_regions', message: `At least one country code is required when availability_scope is ${scope}` })
+  }
+  for (const field of ['album_release_date', 'track_number']) {
+    if (values[field] !== undefined && values.album === undefined) {
+      errors.push({ field, message: 'Requires album' })
+    }
+  }
+
+  return errors
+}
+
+export const importRoutes = {
+  // POST /content/imports
+  async createImport(req: Request): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const { format, document, all_or_nothing } = await validateRequest(req, createImportSchema)
+      const artistId = await getArtistId(supabase, user.id)
+
+      const entries = format === 'csv' ? parseCatalogCsv(document) : readNewReleaseMessage(document)
+      if (entries.length === 0) {
+        return createValidationErrorResponse([{ field: 'document', message: 'Contains no tracks' }])
+      }
+      if (entries.length > MAX_IMPORT_ROWS) {
+        return createValidationErrorResponse([{ field: 'document', message: `Contains ${entries.length} tracks; split it into imports of at most ${MAX_IMPORT_ROWS}` }])
+      }
+
+      // Invalid rows are queued too, so the report covers every row
+      const rows = entries.map((entry) => toCatalogRow({
+        ...entry,
+        errors: [...entry.errors, ...validateEntry(entry.values)]
+      }))
+
+      const { data, error } = await adminClient
+        .from('catalog_import_jobs')
+        .insert({
+          artist_id: artistId,
+          user_id: user.id,
+          format,
+          all_or_nothing: all_or_nothing ?? false,
+          rows,
+          total_rows: rows.length
+        })
+        .select(JOB_COLUMNS)
+        .single()
+
+      if (error) throw error
+
+      const invalidRows = rows.filter((row) => row.errors.length > 0).length
+      logger.info('import.queued', { job_id: data.id, format, total_rows: rows.length, invalid_rows: invalidRows })
+
+      return withHeaders(
+        createSuccessResponse({ ...data, invalid_rows: invalidRows }, 202),
+        { 'Location': new URL(`/content/imports/${data.id}`, req.url).toString() }
+      )
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return createValidationErrorResponse(error.errors)
+      }
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/imports
+  async getImports(req: Request): Promise<Response> {
+    try {
+      const { supabase } = await getAuth(req)
+      const list = parseListQuery(new URL(req.url), importListOptions)
+
+      const query = supabase
+        .from('catalog_import_jobs')
+        .select(JOB_COLUMNS)
+
+      const { data, error } = await applyListQuery(query, list)
+
+      if (error) throw error
+
+      const { items, pagination } = paginate(data, list)
+      return createPaginatedResponse(items, pagination)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/imports/:id
+  async getImport(req: Request, jobId: string): Promise<Response> {
+    try {
+      const { supabase } = await getAuth(req)
+
+      const { data } = await supabase
+        .from('catalog_import_jobs')
+        .select(`${JOB_COLUMNS}, results`)
+        .eq('id', jobId)
+        .maybeSingle()
+
+      if (!data) {
+        return createNotFoundResponse('Import')
+      }
+
+      return createSuccessResponse(data)
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  }
+}
+
+export function registerImportRoutes(registry: RouteRegistry) {
+  registry
+    .add({
+      method: 'POST',
+      path: '/content/imports',
+      summary: 'Queue a bulk import of tracks and albums from a CSV or DDEX ERN document',
+      auth: ARTIST_ONLY,
+      body: createImportSchema,
+      handler: (req) => importRoutes.createImport(req)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/imports',
+      summary: "List the artist's catalog imports",
+      auth: ARTIST_ONLY,
+      list: importListOptions,
+      handler: (req) => importRoutes.getImports(req)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/imports/:id',
+      summary: 'Get a catalog import with its per-row results',
+      auth: ARTIST_ONLY,
+      handler: (req, { params }) => importRoutes.getImport(req, params.id)
+    })
+}
@@ -1,26 +1,55 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../middleware/cors.ts'
-import { validateRequest } from '../middleware/validation.ts'
-import { createErrorResponse, createSuccessResponse, createNotFoundResponse } from '../utils/responses.ts'
+import { validateRequest, ValidationSchema } from '../middleware/validation.ts'
+import { getAuth, getOptionalAuth } from '../middleware/auth.ts'
+import { createErrorResponse, createSuccessResponse, createNotFoundResponse, createPaginatedResponse } from '../utils/responses.ts'
+import { applyListQuery, paginate, parseListQuery, ListOptions } from '../utils/pagination.ts'
+import { RATE_LIMITS } from '../middleware/rate-limit.ts'
+import type { RouteRegistry } from '../api/route-registry.ts'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''  
 
+const updatePreferencesSchema: ValidationSchema = {
+  interests: { type: 'array', items: 'string', minItems: 3, maxItems: 5 },
+  genre_preferences: { type: 'array', items: 'string', optional: true },
+  content_flags: { type: 'object', optional: true },
+  location_code: { type: 'string', optional: true, nullable: true, maxLength: 10 },
+  privacy_settings: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      data_sharing: 'boolean',
+      location_access: 'boolean',
+      audio_capture: 'boolean',
+      anonymous_logging: 'boolean',
+      marketing_communications: 'boolean'
+    }
+  }
+}
+
+const engagementListOptions: ListOptions = {
+  sortFields: ['timestamp'],
+  timeColumn: 'timestamp',
+  filters: {
+    event_type: { type: 'string' },
+    content_id: { type: 'uuid' }
+  }
+}
+
+const logEventSchema: ValidationSchema = {
+  event_type: 'string',
+  content_id: { type: 'string', format: 'uuid', optional: true, nullable: true },
+  metadata: { type: 'object', optional: true },
+  is_anonymous: 'boolean'
+}
 
 export const mediaIdRoutes = {
   // GET /mediaid/preferences
   async getPreferences(req: Request): Promise<Response> {
     try {
-      const authHeader = req.headers.get('Authorization')
-      if (!authHeader) throw new Error('No authorization header')
-
-      const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-        global: { headers: { Authorization: authHeader } }
-      })
-
-      const { data: { user }, error: userError } = await supabase.auth.getUser()
-      if (userError || !user) throw new Error('Invalid user session')
+      const { user, supabase } = await getAuth(req)
 
       const { data: mediaId, error } = await supabase
         .from('media_ids')
@@ -52,25 +81,8 @@ export const mediaIdRoutes = {
   // PUT /mediaid/preferences
   async updatePreferences(req: Request): Promise<Response> {
     try {
-      const authHeader = req.headers.get('Authorization')
-      if (!authHeader) throw new Error('No authorization header')
-
-      const updates = await validateRequest(req, {
-        interests: 'array',
-        privacy_settings: 'object'
-      })
-
-      // Validate interests count (3-5 required)
-      if (updates.interests.length < 3 || updates.interests.length > 5) {
-        throw new Error('Please select 3-5 interests')
-      }
-
-      const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-        global: { headers: { Authorization: authHeader } }
-      })
-
-      const { data: { user }, error: userError } = await supabase.auth.getUser()
-      if (userError || !user) throw new Error('Invalid user session')
+      const { user, supabase } = await getAuth(req)
+      const updates = await validateRequest(req, updatePreferencesSchema)
 
       const { data: mediaId, error: updateError } = await supabase
         .from('media_ids')
@@ -124,47 +136,45 @@ export const mediaIdRoutes = {
   // GET /mediaid/analytics
   async getAnalytics(req: Request): Promise<Response> {
     try {
-      const authHeader = req.headers.get('Authorization')
-      if (!authHeader) throw new Error('No authorization header')
+      const { user, supabase } = await getAuth(req)
+      const list = parseListQuery(new URL(req.url), engagementListOptions)
 
-      const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-        global: { headers: { Authorization: authHeader } }
-      })
+      // Totals are aggregated in the database over all of the user's events
+      const { data: summary, error: summaryError } = await supabase
+        .rpc('mediaid_engagement_summary')
 
-      const { data: { user }, error: userError } = await supabase.auth.getUser()
-      if (userError || !user) throw new Error('Invalid user session')
+      if (summaryError) throw summaryError
 
-      // Get user's engagement statistics
-      const { data: engagementStats, error: statsError } = await supabase
+      const eventCounts: Record<string, number> = {}
+      let totalEvents = 0
+      let recentActivityCount = 0
+      let lastActivity: string | null = null
+
+      for (const row of summary || []) {
+        eventCounts[row.event_type] = Number(row.total_count)
+        totalEvents += Number(row.total_count)
+        recentActivityCount += Number(row.recent_count)
+        if (!lastActivity || row.last_activity > lastActivity) lastActivity = row.last_activity
+      }
+
+      // The events themselves are paged
+      const query = supabase
         .from('media_engagement_log')
-        .select('event_type, timestamp')
+        .select('id, event_type, content_id, metadata, timestamp')
         .eq('user_id', user.id)
         .eq('is_anonymous', false)
-        .order('timestamp', { ascending: false })
-        .limit(100)
-
-      if (statsError) throw statsError
-
-      // Aggregate data by event type
-      const eventCounts = engagementStats.reduce((acc: any, event: any) => {
-        acc[event.event_type] = (acc[event.event_type] || 0) + 1
-        return acc
-      }, {})
 
-      // Get recent activity (last 30 days)
-      const thirtyDaysAgo = new Date()
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
+      const { data: events, error: eventsError } = await applyListQuery(query, list)
 
-      const recentActivity = engagementStats.filter((event: any) => 
-        new Date(event.timestamp) > thirtyDaysAgo
-      )
+      if (eventsError) throw eventsError
 
-      return createSuccessResponse({
+      const { items, pagination } = paginate(events, list)
+      return createPaginatedResponse(items, pagination, {
         analytics: {
-          totalEvents: engagementStats.length,
+          totalEvents,
           eventBreakdown: eventCounts,
-          recentActivityCount: recentActivity.length,
-          lastActivity: engagementStats[0]?.timestamp || null
+          recentActivityCount,
+          lastActivity
         }
       })
 
@@ -176,21 +186,15 @@ export const mediaIdRoutes = {
   // POST /mediaid/events
   async logEvent(req: Request): Promise<Response> {
     try {
-      const authHeader = req.headers.get('Authorization')
-
-      const { event_type, content_id, metadata, is_anonymous } = await validateRequest(req, {
-        event_type: 'string',
-        content_id: 'string',
-        metadata: 'object',
-        is_anonymous: 'boolean'
-      })
+      const { event_type, content_id, metadata, is_anonymous } = await validateRequest(req, logEventSchema)
 
       const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
       let userId = null
-      if (authHeader && !is_anonymous) {
-        const { data: { user } } = await supabase.auth.getUser(authHeader)
-        userId = user?.id || null
+      if (!is_anonymous) {
+        // An invalid token still logs the event, just without a user
+        const auth = await getOptionalAuth(req).catch(() => null)
+        userId = auth?.user.id || null
       }
 
       // Get user agent and IP for analytics
@@ -224,15 +228,7 @@ export const mediaIdRoutes = {
   // DELETE /mediaid/data
   async deleteUserData(req: Request): Promise<Response> {
     try {
-      const authHeader = req.headers.get('Authorization')
-      if (!authHeader) throw new Error('No authorization header')
-
-      const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-        global: { headers: { Authorization: authHeader } }
-      })
-
-      const { data: { user }, error: userError } = await supabase.auth.getUser()
-      if (userError || !user) throw new Error('Invalid user session')
+      const { user, supabase } = await getAuth(req)
 
       // Delete all user's MediaID data (GDPR compliance)
       const { error: deleteMediaIdError } = await supabase
@@ -258,4 +254,47 @@ export const mediaIdRoutes = {
       return createErrorResponse(error.message, 400)
     }
   }
-} 
\ No newline at end of file
+}
+
+export function registerMediaIdRoutes(registry: RouteRegistry) {
+  registry
+    .add({
+      method: 'GET',
+      path: '/mediaid/preferences',
+      summary: 'Get MediaID preferences and privacy settings',
+      auth: {},
+      handler: (req) => mediaIdRoutes.getPreferences(req)
+    })
+    .add({
+      method: 'PUT',
+      path: '/mediaid/preferences',
+      summary: 'Update MediaID interests and privacy settings',
+      auth: {},
+      body: updatePreferencesSchema,
+      handler: (req) => mediaIdRoutes.updatePreferences(req)
+    })
+    .add({
+      method: 'GET',
+      path: '/mediaid/analytics',
+      summary: "Get the user's engagement analytics and a page of their events",
+      auth: {},
+      list: engagementListOptions,
+      handler: (req) => mediaIdRoutes.getAnalytics(req)
+    })
+    .add({
+      method: 'POST',
+      path: '/mediaid/events',
+      summary: 'Log an engagement event',
+      body: logEventSchema,
+      rateLimit: RATE_LIMITS.events,
+      successStatus: 201,
+      handler: (req) => mediaIdRoutes.logEvent(req)
+    })
+    .add({
+      method: 'DELETE',
+      path: '/mediaid/data',
+      summary: 'Delete all MediaID data for the user',
+      auth: {},
+      handler: (req) => mediaIdRoutes.deleteUserData(req)
+    })
+}
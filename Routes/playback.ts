@@ -0,0 +1,254 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createErrorResponse, createSuccessResponse, createNotFoundResponse, createForbiddenResponse, createValidationErrorResponse, withHeaders } from '../utils/responses.ts'
+import { getOptionalAuth, AuthContext } from '../middleware/auth.ts'
+import { checkRegionAvailability, RegionRestricted } from '../middleware/geoblocking.ts'
+import { getClientIp } from '../middleware/rate-limit.ts'
+import { logger, serializeError } from '../utils/logger.ts'
+import type { RouteRegistry } from '../api/route-registry.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+// Lifetime of issued playback and download URLs
+const signedUrlTtlSeconds = Number(Deno.env.get('SIGNED_URL_TTL_SECONDS') ?? 300)
+
+const CONTENT_BUCKET = 'artist-content'
+
+// Entitlement is decided here, so content is read and signed with the service
+// role; the caller's own client could not sign files of other artists
+const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+const DOWNLOAD_PURPOSES = ['file', 'offline'] as const
+
+interface PlayableContent extends RegionRestricted {
+  id: string
+  artist_id: string
+  title: string
+  // NULL for tracks created by a catalog import until their audio is uploaded
+  file_path: string | null
+  is_premium: boolean | null
+  unlock_date: string | null
+  enable_direct_downloads: boolean | null
+  offline_listening: boolean | null
+}
+
+type Access = 'owner' | 'subscriber' | 'public'
+
+async function findPlayableContent(contentId: string): Promise<PlayableContent | null> {
+  const { data, error } = await adminClient
+    .from('content_items')
+    .select('id, artist_id, title, file_path, is_premium, unlock_date, enable_direct_downloads, offline_listening, availability_scope, availability_regions')
+    .eq('id', contentId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as PlayableContent | null
+}
+
+function isUnlocked(content: PlayableContent): boolean {
+  // 'infinity' (tracks of unreleased albums) does not parse and stays locked
+  return content.unlock_date === null || Date.parse(content.unlock_date) <= Date.now()
+}
+
+// Owner (or admin), active subscriber of the artist, or anyone for free
+// content; null when the caller is not entitled
+async function resolveAccess(auth: AuthContext | null, content: PlayableContent): Promise<Access | null> {
+  if (auth) {
+    if (auth.role === 'admin') return 'owner'
+
+    const { data: profile } = await adminClient
+      .from('artist_profiles')
+      .select('id')
+      .eq('user_id', auth.user.id)
+      .maybeSingle()
+
+    if (profile?.id === content.artist_id) return 'owner'
+  }
+
+  if (!isUnlocked(content)) return null
+  if (!content.is_premium) return 'public'
+  if (!auth) return null
+
+  // One row per fan and artist (UNIQUE in 001_initial_schema.sql)
+  const { data: subscription, error } = await adminClient
+    .from('subscriptions')
+    .select('id')
+    .eq('fan_id', auth.user.id)
+    .eq('artist_id', content.artist_id)
+    .eq('status', 'active')
+    .maybeSingle()
+
+  if (error) throw error
+  return subscription ? 'subscriber' : null
+}
+
+// Checks shared by stream and download: content exists, caller is entitled
+// and in an allowed region. Returns the error response or the access level.
+async function authorize(
+  req: Request,
+  auth: AuthContext | null,
+  content: PlayableContent | null
+): Promise<Response | Access> {
+  if (!content) {
+    return createNotFoundResponse('Content')
+  }
+
+  const access = await resolveAccess(auth, content)
+  if (!access) {
+    if (!isUnlocked(content)) {
+      return createForbiddenResponse('This content is not unlocked yet')
+    }
+    return auth
+      ? createForbiddenResponse('An active subscription to this artist is required')
+      : createErrorResponse('Sign in with an active subscription to play this content', 401)
+  }
+
+  if (access !== 'owner') {
+    const blocked = await checkRegionAvailability(content)
+    if (blocked) return blocked
+  }
+
+  if (!content.file_path) {
+    return createNotFoundResponse('Audio file')
+  }
+
+  return access
+}
+
+async function signContentUrl(content: PlayableContent, download?: string) {
+  const { data, error } = await adminClient.storage
+    .from(CONTENT_BUCKET)
+    .createSignedUrl(content.file_path!, signedUrlTtlSeconds, download ? { download } : undefined)
+
+  if (error || !data) throw new Error(error?.message ?? 'Could not sign content URL')
+
+  return {
+    url: data.signedUrl,
+    expires_in: signedUrlTtlSeconds,
+    expires_at: new Date(Date.now() + signedUrlTtlSeconds * 1000).toISOString()
+  }
+}
+
+// Recorded in media_engagement_log; a failed insert never fails the request
+async function logEngagement(
+  req: Request,
+  auth: AuthContext | null,
+  contentId: string,
+  eventType: 'play' | 'download',
+  metadata: Record<string, unknown>
+) {
+  const ip = getClientIp()
+  const { error } = await adminClient
+    .from('media_engagement_log')
+    .insert({
+      user_id: auth?.user.id ?? null,
+      content_id: contentId,
+      event_type: eventType,
+      user_agent: req.headers.get('User-Agent') || '',
+      ip_address: ip === 'unknown' ? null : ip,
+      is_anonymous: !auth,
+      metadata,
+      timestamp: new Date().toISOString()
+    })
+
+  if (error) {
+    logger.warn('playback.engagement_log_failed', { content_id: contentId, event_type: eventType, error: serializeError(error) })
+  }
+}
+
+// Signed URLs must not be cached by intermediaries
+function noStore(response: Response): Response {
+  return withHeaders(response, { 'Cache-Control': 'no-store' })
+}
+
+// "My Song" + "path/track.flac" -> "My Song.flac"
+function downloadFilename(content: PlayableContent): string {
+  const extension = content.file_path!.match(/\.[A-Za-z0-9]{1,8}$/)?.[0] ?? ''
+  const base = content.title.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ').trim() || content.id
+  return `${base}${extension}`
+}
+
+export const playbackRoutes = {
+  // GET /content/:id/stream
+  async getStreamUrl(req: Request, contentId: string): Promise<Response> {
+    // An invalid or expired token reaches the error middleware as a 401
+    const auth = await getOptionalAuth(req)
+
+    try {
+      const content = await findPlayableContent(contentId)
+
+      const access = await authorize(req, auth, content)
+      if (access instanceof Response) return access
+
+      const signed = await signContentUrl(content!)
+      await logEngagement(req, auth, contentId, 'play', { access })
+
+      return noStore(createSuccessResponse({ content_id: contentId, ...signed }))
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // GET /content/:id/download?purpose=file|offline
+  async getDownloadUrl(req: Request, contentId: string): Promise<Response> {
+    const auth = await getOptionalAuth(req)
+
+    try {
+      const purpose = new URL(req.url).searchParams.get('purpose') ?? 'file'
+      if (!(DOWNLOAD_PURPOSES as readonly string[]).includes(purpose)) {
+        return createValidationErrorResponse([{ field: 'purpose', message: `Must be one of: ${DOWNLOAD_PURPOSES.join(', ')}` }])
+      }
+
+      const content = await findPlayableContent(contentId)
+
+      const access = await authorize(req, auth, content)
+      if (access instanceof Response) return access
+
+      // The artist decides whether listeners may keep a file (direct
+      // downloads) or only cache it in the app (offline listening)
+      if (access !== 'owner') {
+        if (purpose === 'file' && !content!.enable_direct_downloads) {
+          return createForbiddenResponse('Downloads are not enabled for this content')
+        }
+        if (purpose === 'offline' && !content!.offline_listening) {
+          return createForbiddenResponse('Offline listening is not enabled for this content')
+        }
+      }
+
+      const signed = await signContentUrl(
+        content!,
+        purpose === 'file' ? downloadFilename(content!) : undefined
+      )
+      await logEngagement(req, auth, contentId, 'download', { access, purpose })
+
+      return noStore(createSuccessResponse({ content_id: contentId, purpose, ...signed }))
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  }
+}
+
+// Anonymous callers may play free, unlocked content, so neither route
+// requires auth up front
+export function registerPlaybackRoutes(registry: RouteRegistry) {
+  registry
+    .add({
+      method: 'GET',
+      path: '/content/:id/stream',
+      summary: 'Short-lived signed URL for playing a content item',
+      handler: (req, { params }) => playbackRoutes.getStreamUrl(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/content/:id/download',
+      summary: 'Short-lived signed URL for downloading a content item (?purpose=file|offline)',
+      handler: (req, { params }) => playbackRoutes.getDownloadUrl(req, params.id)
+    })
+}
@@ -1,35 +1,41 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../middleware/cors.ts'
-import { validateRequest } from '../middleware/validation.ts'
-import { createErrorResponse, createSuccessResponse, createNotFoundResponse } from '../utils/responses.ts'
+import { validateRequest, ValidationSchema } from '../middleware/validation.ts'
+import { getAuth } from '../middleware/auth.ts'
+import { createErrorResponse, createSuccessResponse, createNotFoundResponse, createForbiddenResponse, createPaginatedResponse } from '../utils/responses.ts'
+import { applyListQuery, paginate, parseListQuery, ListOptions } from '../utils/pagination.ts'
+import type { RouteRegistry } from '../api/route-registry.ts'
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY') ?? ''
 
+const createCheckoutSchema: ValidationSchema = {
+  artistId: { type: 'string', format: 'uuid' },
+  tier: 'string',
+  priceId: 'string',
+  successUrl: { type: 'string', format: 'url' },
+  cancelUrl: { type: 'string', format: 'url' }
+}
+
+const subscriptionListOptions: ListOptions = {
+  sortFields: ['created_at', 'current_period_end'],
+  filters: {
+    // Mirrors the subscription_status enum in 001_initial_schema.sql
+    status: { type: 'string', enum: ['active', 'canceled', 'paused', 'expired'] },
+    tier: { type: 'string' },
+    artist_id: { type: 'uuid' }
+  }
+}
+
 export const subscriptionRoutes = {
   // POST /subscriptions/create-checkout
   async createCheckout(req: Request): Promise<Response> {
     try {
-      const { artistId, tier, priceId, successUrl, cancelUrl } = await validateRequest(req, {
-        artistId: 'string',
-        tier: 'string',
-        priceId: 'string',
-        successUrl: 'string',
-        cancelUrl: 'string'
-      })
-
-      // Get user from JWT
-      const authHeader = req.headers.get('Authorization')
-      if (!authHeader) throw new Error('No authorization header')
+      const { artistId, tier, priceId, successUrl, cancelUrl } = await validateRequest(req, createCheckoutSchema)
 
-      const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-        global: { headers: { Authorization: authHeader } }
-      })
-
-      const { data: { user }, error: userError } = await supabase.auth.getUser()
-      if (userError || !user) throw new Error('Invalid user session')
+      const { user, supabase } = await getAuth(req)
 
       // Verify artist exists
       const { data: artist, error: artistError } = await supabase
@@ -91,22 +97,11 @@ export const subscriptionRoutes = {
   // GET /subscriptions/:userId
   async getUserSubscriptions(req: Request, userId: string): Promise<Response> {
     try {
-      const authHeader = req.headers.get('Authorization')
-      if (!authHeader) throw new Error('No authorization header')
-
-      const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-        global: { headers: { Authorization: authHeader } }
-      })
-
-      const { data: { user }, error: userError } = await supabase.auth.getUser()
-      if (userError || !user) throw new Error('Invalid user session')
-
-      // Users can only view their own subscriptions
-      if (user.id !== userId) {
-        throw new Error('Unauthorized to view these subscriptions')
-      }
+      // Ownership is enforced by the route's auth requirement
+      const { supabase } = await getAuth(req)
+      const list = parseListQuery(new URL(req.url), subscriptionListOptions)
 
-      const { data: subscriptions, error } = await supabase
+      const query = supabase
         .from('subscriptions')
         .select(`
           id,
@@ -125,13 +120,13 @@ export const subscriptionRoutes = {
           )
         `)
         .eq('fan_id', userId)
-        .order('created_at', { ascending: false })
+
+      const { data: subscriptions, error } = await applyListQuery(query, list)
 
       if (error) throw error
 
-      return createSuccessResponse({
-        subscriptions: subscriptions || []
-      })
+      const { items, pagination } = paginate(subscriptions, list)
+      return createPaginatedResponse(items, pagination)
 
     } catch (error) {
       return createErrorResponse(error.message, 400)
@@ -141,15 +136,7 @@ export const subscriptionRoutes = {
   // PATCH /subscriptions/:id/cancel
   async cancelSubscription(req: Request, subscriptionId: string): Promise<Response> {
     try {
-      const authHeader = req.headers.get('Authorization')
-      if (!authHeader) throw new Error('No authorization header')
-
-      const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-        global: { headers: { Authorization: authHeader } }
-      })
-
-      const { data: { user }, error: userError } = await supabase.auth.getUser()
-      if (userError || !user) throw new Error('Invalid user session')
+      const { user, role, supabase } = await getAuth(req)
 
       // Get subscription and verify ownership
       const { data: subscription, error: subError } = await supabase
@@ -162,8 +149,8 @@ export const subscriptionRoutes = {
         return createNotFoundResponse('Subscription')
       }
 
-      if (subscription.fan_id !== user.id) {
-        throw new Error('Unauthorized to cancel this subscription')
+      if (subscription.fan_id !== user.id && role !== 'admin') {
+        return createForbiddenResponse('Unauthorized to cancel this subscription')
       }
 
       if (subscription.status !== 'active') {
@@ -312,4 +299,39 @@ async function handleSubscriptionDeleted(subscription: any, supabase: any) {
       updated_at: new Date().toISOString()
     })
     .eq('stripe_subscription_id', subscription.id)
-} 
\ No newline at end of file
+}
+
+export function registerSubscriptionRoutes(registry: RouteRegistry) {
+  registry
+    .add({
+      method: 'POST',
+      path: '/subscriptions/create-checkout',
+      summary: 'Create a Stripe Checkout session for an artist subscription',
+      auth: {},
+      body: createCheckoutSchema,
+      handler: (req) => subscriptionRoutes.createCheckout(req)
+    })
+    .add({
+      method: 'POST',
+      path: '/subscriptions/webhooks/stripe',
+      summary: 'Receive Stripe webhook events',
+      rateLimit: false,
+      idempotency: false,
+      handler: (req) => subscriptionRoutes.handleStripeWebhook(req)
+    })
+    .add({
+      method: 'GET',
+      path: '/subscriptions/:userId',
+      summary: "List a user's subscriptions",
+      auth: { owner: (auth, { params }) => auth.user.id === params.userId },
+      list: subscriptionListOptions,
+      handler: (req, { params }) => subscriptionRoutes.getUserSubscriptions(req, params.userId)
+    })
+    .add({
+      method: 'PATCH',
+      path: '/subscriptions/:id/cancel',
+      summary: 'Cancel a subscription at period end',
+      auth: {},
+      handler: (req, { params }) => subscriptionRoutes.cancelSubscription(req, params.id)
+    })
+}
@@ -0,0 +1,896 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createErrorResponse, createSuccessResponse, createNotFoundResponse, createForbiddenResponse, createValidationErrorResponse, withHeaders } from '../utils/responses.ts'
+import { FORMAT_PATTERNS, ValidationError } from '../middleware/validation.ts'
+import { ApiError, ERROR_STATUS } from '../middleware/error-handling.ts'
+import { getAuth, getArtistId, ARTIST_ONLY } from '../middleware/auth.ts'
+import { corsHeaders } from '../middleware/cors.ts'
+import { inspectAudio, AudioInspection } from '../utils/audio-inspector.ts'
+import { generateWaveform, parseResolutions } from '../utils/waveform.ts'
+import { readEmbeddedTags } from '../utils/tag-reader.ts'
+import { sha256Hex } from '../utils/crypto.ts'
+import { parseByteCount, parseUploadMetadata, TUS_CHUNK_CONTENT_TYPE, TUS_EXTENSIONS, TUS_VERSION } from '../utils/tus.ts'
+import { logger, serializeError } from '../utils/logger.ts'
+import type { RouteRegistry } from '../api/route-registry.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+// Unfinished uploads can be resumed for this long after they are created
+const uploadExpiryMs = Number(Deno.env.get('UPLOAD_EXPIRY_HOURS') ?? 24) * 60 * 60 * 1000
+
+// Peak bucket counts stored in content_items.waveform_peaks
+const waveformResolutions = parseResolutions(Deno.env.get('WAVEFORM_RESOLUTIONS'))
+
+// A 'processing' upload with no progress for this long lost the request
+// assembling it (reclaim_stalled_upload in 012_resumable_uploads.sql)
+const ASSEMBLY_STALL_MS = 15 * 60 * 1000
+
+// Largest bucket limit in can_upload_file() (004_storage_buckets.sql)
+const MAX_UPLOAD_BYTES = 52428800
+
+// Bucket and content_items type per uploadable media kind; can_upload_file()
+// decides which exact MIME types each bucket accepts
+const UPLOAD_TARGETS = {
+  audio: { bucket: 'artist-content', contentType: 'audio' },
+  video: { bucket: 'visual-clips', contentType: 'video' }
+} as const
+
+// Pictures embedded in audio files (016_cover_art.sql)
+const COVER_ART_BUCKET = 'cover-art'
+
+// Duplicate detection searches every artist's items, which only the service
+// role may do; callers never query it directly
+const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+interface Upload {
+  id: string
+  user_id: string
+  content_item_id: string | null
+  bucket_name: string
+  file_path: string
+  file_size: number
+  mime_type: string
+  upload_status: 'pending' | 'processing' | 'completed' | 'failed'
+  error_message: string | null
+  metadata: Record<string, string>
+  upload_offset: number
+  expires_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+function uploadTarget(mimeType: string) {
+  const kind = mimeType.split('/')[0]
+  return kind === 'audio' || kind === 'video' ? UPLOAD_TARGETS[kind] : null
+}
+
+// Every tus response carries the protocol version
+function tusHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  return { ...corsHeaders, 'Tus-Resumable': TUS_VERSION, ...extra }
+}
+
+function tusResponse(response: Response, extra: Record<string, string> = {}): Response {
+  return withHeaders(response, { 'Tus-Resumable': TUS_VERSION, ...extra })
+}
+
+// 412 unless the client speaks the supported protocol version
+function checkTusVersion(req: Request): Response | null {
+  if (req.headers.get('Tus-Resumable') === TUS_VERSION) return null
+  return tusResponse(createErrorResponse(`Tus-Resumable: ${TUS_VERSION} is required`, 412), { 'Tus-Version': TUS_VERSION })
+}
+
+function uploadHeaders(upload: Upload): Record<string, string> {
+  return {
+    'Upload-Offset': String(upload.upload_offset),
+    'Upload-Length': String(upload.file_size),
+    ...(upload.upload_status === 'pending' && upload.expires_at && {
+      'Upload-Expires': new Date(upload.expires_at).toUTCString()
+    })
+  }
+}
+
+function isExpired(upload: Upload): boolean {
+  return upload.upload_status === 'pending' && upload.expires_at !== null && Date.parse(upload.expires_at) <= Date.now()
+}
+
+function isStalled(upload: Upload): boolean {
+  return upload.upload_status === 'processing' && Date.parse(upload.updated_at) <= Date.now() - ASSEMBLY_STALL_MS
+}
+
+// The upload to assemble again, or null when another retry got it first
+async function reclaimStalledUpload(supabase: SupabaseClient, upload: Upload): Promise<Upload | null> {
+  const { data, error } = await supabase.rpc('reclaim_stalled_upload', { upload_id_param: upload.id })
+  if (error) throw error
+  return (data as Upload[])[0] ?? null
+}
+
+function partFolder(upload: Upload): string {
+  return `${upload.user_id}/.uploads/${upload.id}`
+}
+
+async function findUpload(supabase: SupabaseClient, uploadId: string, userId: string): Promise<Upload | null> {
+  const { data, error } = await supabase
+    .from('content_upload_log')
+    .select('*')
+    .eq('id', uploadId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as Upload | null
+}
+
+async function failUpload(supabase: SupabaseClient, upload: Upload, message: string) {
+  await supabase
+    .from('content_upload_log')
+    .update({ upload_status: 'failed', error_message: message, updated_at: new Date().toISOString() })
+    .eq('id', upload.id)
+}
+
+// Best effort: leftover part objects only cost storage
+async function removeParts(supabase: SupabaseClient, upload: Upload) {
+  const { data: parts } = await supabase
+    .from('content_upload_parts')
+    .select('storage_path')
+    .eq('upload_id', upload.id)
+
+  const paths = (parts ?? []).map(part => part.storage_path)
+  if (paths.length > 0) {
+    const { error } = await supabase.storage.from(upload.bucket_name).remove(paths)
+    if (error) {
+      logger.warn('upload.part_cleanup_failed', { upload_id: upload.id, error: serializeError(error) })
+    }
+  }
+
+  await supabase.from('content_upload_parts').delete().eq('upload_id', upload.id)
+}
+
+// content_items columns filled from an inspection (013_audio_inspection.sql).
+// A duration the file does not declare leaves the stored one alone.
+function inspectionColumns(inspection: AudioInspection) {
+  return {
+    file_type: inspection.format,
+    audio_checksum: inspection.checksum,
+    file_size_bytes: inspection.byteLength,
+    sample_rate: inspection.sampleRate,
+    bit_depth: inspection.bitDepth,
+    channels: inspection.channels,
+    ...(inspection.durationMs !== null && {
+      duration_ms: inspection.durationMs,
+      duration_seconds: Math.ceil(inspection.durationMs / 1000)
+    }),
+    inspected_at: new Date().toISOString()
+  }
+}
+
+// Waveform peaks (014_waveform_peaks.sql) are decoded from WAV and FLAC only.
+// Other formats, or a file that does not decode, clear any stale peaks
+// without failing the caller.
+function waveformColumns(file: Uint8Array, inspection: AudioInspection) {
+  if (inspection.format !== 'wav' && inspection.format !== 'flac') {
+    return { waveform_peaks: null }
+  }
+
+  try {
+    return { waveform_peaks: generateWaveform(file, inspection.format, waveformResolutions) }
+  } catch (error) {
+    logger.warn('waveform.generation_failed', { format: inspection.format, error: serializeError(error) })
+    return { waveform_peaks: null }
+  }
+}
+
+// Embedded tags as suggestions the artist can accept, kept in
+// metadata.suggested_metadata (see POST /content/:id/suggestions/accept).
+// Null when the file has no tags. Cover art is stored once per image.
+async function tagSuggestions(
+  supabase: SupabaseClient,
+  userId: string,
+  file: Uint8Array,
+  inspection: AudioInspection
+): Promise<Record<string, unknown> | null> {
+  const tags = readEmbeddedTags(file, inspection.format)
+  if (!tags.tagFormat) return null
+
+  let coverArt = null
+  if (tags.coverArt) {
+    const extension = tags.coverArt.mimeType === 'image/png' ? 'png' : 'jpg'
+    const path = `${userId}/${(await sha256Hex(tags.coverArt.bytes)).slice(0, 32)}.${extension}`
+    const { error } = await supabase.storage
+      .from(COVER_ART_BUCKET)
+      .upload(path, tags.coverArt.bytes, { contentType: tags.coverArt.mimeType, upsert: true })
+
+    if (error) {
+      tags.errors.push(`Cover art could not be stored: ${error.message}`)
+    } else {
+      coverArt = {
+        file_path: path,
+        url: supabase.storage.from(COVER_ART_BUCKET).getPublicUrl(path).data.publicUrl,
+        mime_type: tags.coverArt.mimeType,
+        byte_length: tags.coverArt.bytes.length
+      }
+    }
+  }
+
+  return {
+    source: 'embedded_tags',
+    tag_format: tags.tagFormat,
+    extracted_metadata: tags.metadata,
+    confidence_scores: tags.confidence,
+    processing_errors: tags.errors,
+    cover_art: coverArt,
+    accepted_fields: [],
+    processed_at: new Date().toISOString()
+  }
+}
+
+interface DuplicateMatch {
+  content_id: string
+  artist_id: string
+  match_type: 'checksum' | 'isrc' | 'title_duration'
+}
+
+type DuplicateAction = 'blocked' | 'linked' | 'flagged' | 'warned'
+
+// Title a new item gets from its upload
+function uploadTitle(upload: Upload): string {
+  const filename = upload.metadata.filename ?? ''
+  return upload.metadata.title || filename.replace(/\.[^.]*$/, '') || 'Untitled'
+}
+
+// Items anywhere on the platform that look like the uploaded recording
+// (find_content_duplicates, 015_content_duplicates.sql). A replacement is
+// compared under its item's title and never matches that item itself.
+async function findDuplicates(supabase: SupabaseClient, upload: Upload, inspection: AudioInspection): Promise<DuplicateMatch[]> {
+  let title = uploadTitle(upload)
+  let isrc = upload.metadata.isrc || null
+
+  if (upload.content_item_id) {
+    const { data: item } = await supabase
+      .from('content_items')
+      .select('title, isrc')
+      .eq('id', upload.content_item_id)
+      .single()
+
+    title = item?.title ?? title
+    isrc = item?.isrc ?? null
+  }
+
+  const { data, error } = await adminClient.rpc('find_content_duplicates', {
+    checksum_param: inspection.checksum,
+    isrc_param: isrc,
+    title_param: title,
+    duration_ms_param: inspection.durationMs,
+    exclude_content_id: upload.content_item_id
+  })
+
+  if (error) throw error
+  return (data ?? []) as DuplicateMatch[]
+}
+
+// Best effort: a lost record must not undo an upload that went through
+async function recordDuplicates(
+  supabase: SupabaseClient,
+  upload: Upload,
+  contentItemId: string | null,
+  detections: { match: DuplicateMatch; action: DuplicateAction }[]
+) {
+  if (detections.length === 0) return
+
+  const { error } = await supabase
+    .from('content_duplicate_flags')
+    .insert(detections.map(({ match, action }) => ({
+      upload_id: upload.id,
+      uploader_id: upload.user_id,
+      content_item_id: contentItemId,
+      matched_content_id: match.content_id,
+      match_type: match.match_type,
+      action,
+      review_status: action === 'blocked' || action === 'flagged' ? 'pending' : null
+    })))
+
+  if (error) {
+    logger.error('upload.duplicate_record_failed', { upload_id: upload.id, error: serializeError(error) })
+    return
+  }
+  logger.info('upload.duplicates_detected', {
+    upload_id: upload.id,
+    actions: detections.map(({ match, action }) => `${match.match_type}:${action}`)
+  })
+}
+
+// Joins the parts into file_path, checks audio is what it was declared as
+// and not already on the platform, then creates the content item (or points
+// the linked one at the new file) with its inspection and waveform.
+// The upload ends up completed or failed.
+async function completeUpload(supabase: SupabaseClient, upload: Upload): Promise<Upload> {
+  try {
+    const { data: parts, error: partsError } = await supabase
+      .from('content_upload_parts')
+      .select('part_offset, byte_length, storage_path')
+      .eq('upload_id', upload.id)
+      .order('part_offset')
+
+    if (partsError) throw partsError
+
+    const file = new Uint8Array(upload.file_size)
+    let position = 0
+    for (const part of parts ?? []) {
+      if (part.part_offset !== position) {
+        throw new Error(`Missing bytes ${position}-${part.part_offset - 1}`)
+      }
+
+      const { data: blob, error } = await supabase.storage.from(upload.bucket_name).download(part.storage_path)
+      if (error || !blob) throw new Error(`Part at offset ${part.part_offset} could not be read`)
+
+      const bytes = new Uint8Array(await blob.arrayBuffer())
+      if (bytes.length !== part.byte_length) {
+        throw new Error(`Part at offset ${part.part_offset} has ${bytes.length} bytes, expected ${part.byte_length}`)
+      }
+      file.set(bytes, position)
+      position += bytes.length
+    }
+    if (position !== upload.file_size) {
+      throw new Error(`Received ${position} of ${upload.file_size} bytes`)
+    }
+
+    const inspection = uploadTarget(upload.mime_type)?.contentType === 'audio'
+      ? await inspectAudio(file, upload.mime_type)
+      : null
+
+    const artistId = await getArtistId(supabase, upload.user_id)
+    const matches = inspection ? await findDuplicates(supabase, upload, inspection) : []
+    const copy = matches.find(match => match.match_type === 'checksum')
+
+    // The same file again: a new upload by its owner becomes the existing
+    // item; another artist's file, or a replacement with a file some other
+    // item already has, is blocked
+    if (copy && (copy.artist_id !== artistId || upload.content_item_id)) {
+      await recordDuplicates(supabase, upload, null, [{ match: copy, action: 'blocked' }])
+      const own = copy.artist_id === artistId
+      throw new ApiError(
+        own ? `This file is already content item ${copy.content_id}` : 'This file has already been uploaded by another artist',
+        ERROR_STATUS.DUPLICATE_CONTENT,
+        'DUPLICATE_CONTENT',
+        own ? { content_item_id: copy.content_id } : undefined
+      )
+    }
+
+    let contentItemId: string
+    if (copy) {
+      contentItemId = copy.content_id
+      await recordDuplicates(supabase, upload, contentItemId, [{ match: copy, action: 'linked' }])
+    } else {
+      // file_path is this upload's own (generate_unique_filename), so a
+      // reclaimed assembly may overwrite what the stalled one stored
+      const { error: storeError } = await supabase.storage
+        .from(upload.bucket_name)
+        .upload(upload.file_path, file, { contentType: inspection?.mimeType ?? upload.mime_type, upsert: true })
+
+      if (storeError) throw new Error(storeError.message)
+
+      const fileColumns = inspection
+        ? { ...inspectionColumns(inspection), ...waveformColumns(file, inspection) }
+        : { file_size_bytes: upload.file_size }
+
+      // A replacement's old suggestions are dropped along with its old file
+      const metadata = inspection
+        ? { suggested_metadata: await tagSuggestions(supabase, upload.user_id, file, inspection) }
+        : {}
+
+      // ISRCs are unique, so one already in use stays off the new item
+      const isrc = !upload.content_item_id && !matches.some(match => match.match_type === 'isrc')
+        ? upload.metadata.isrc || null
+        : null
+
+      contentItemId = await saveContentItem(supabase, upload, artistId, { ...fileColumns, ...(isrc && { isrc }) }, metadata)
+
+      // Lookalikes are kept, for admin review when another artist owns them
+      await recordDuplicates(supabase, upload, contentItemId, matches.map(match => ({
+        match,
+        action: match.artist_id === artistId ? 'warned' : 'flagged'
+      })))
+    }
+
+    const { data: completed, error: updateError } = await supabase
+      .from('content_upload_log')
+      .update({
+        upload_status: 'completed',
+        content_item_id: contentItemId,
+        error_message: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', upload.id)
+      .select()
+      .single()
+
+    if (updateError) throw updateError
+
+    await removeParts(supabase, upload)
+    logger.info('upload.completed', { upload_id: upload.id, content_item_id: contentItemId, bytes: upload.file_size })
+    return completed as Upload
+
+  } catch (error) {
+    logger.error('upload.assembly_failed', { upload_id: upload.id, error: serializeError(error) })
+    await failUpload(supabase, upload, error instanceof ValidationError ? error.errors[0].message : error.message)
+    await removeParts(supabase, upload)
+    throw error
+  }
+}
+
+async function saveContentItem(
+  supabase: SupabaseClient,
+  upload: Upload,
+  artistId: string,
+  columns: Record<string, unknown>,
+  metadata: Record<string, unknown>
+): Promise<string> {
+  if (upload.content_item_id) {
+    const { data: previous } = await supabase
+      .from('content_items')
+      .select('file_path, metadata')
+      .eq('id', upload.content_item_id)
+      .single()
+
+    const { error } = await supabase
+      .from('content_items')
+      .update({
+        file_path: upload.file_path,
+        ...columns,
+        metadata: { ...previous?.metadata, ...metadata },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', upload.content_item_id)
+
+    if (error) throw error
+
+    // The replaced file is no longer referenced
+    if (previous?.file_path && previous.file_path !== upload.file_path) {
+      await supabase.storage.from(upload.bucket_name).remove([previous.file_path])
+    }
+    return upload.content_item_id
+  }
+
+  const { data, error } = await supabase
+    .from('content_items')
+    .insert({
+      artist_id: artistId,
+      title: uploadTitle(upload),
+      content_type: uploadTarget(upload.mime_type)!.contentType,
+      file_path: upload.file_path,
+      ...columns,
+      metadata: { original_filename: upload.metadata.filename || null, upload_id: upload.id, ...metadata }
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+  return data.id
+}
+
+// Completes an upload whose last byte has arrived and answers the PATCH
+async function completionResponse(supabase: SupabaseClient, upload: Upload): Promise<Response> {
+  try {
+    const completed = await completeUpload(supabase, upload)
+    return new Response(null, { status: 204, headers: tusHeaders(uploadHeaders(completed)) })
+  } catch (error) {
+    // The bytes are not the declared (or any supported) audio format
+    if (error instanceof ValidationError) {
+      return tusResponse(createErrorResponse(error.errors[0].message, 415, { errors: error.errors }))
+    }
+    if (error instanceof ApiError) {
+      return tusResponse(createErrorResponse(error.message, error.status, { code: error.code, details: error.details }))
+    }
+    return tusResponse(createErrorResponse(`Upload could not be assembled: ${error.message}`, 500))
+  }
+}
+
+export const uploadRoutes = {
+  // POST /uploads
+  async createUpload(req: Request): Promise<Response> {
+    try {
+      const unsupported = checkTusVersion(req)
+      if (unsupported) return unsupported
+
+      const { supabase, user } = await getAuth(req)
+
+      const length = parseByteCount(req.headers.get('Upload-Length'))
+      if (length === null || length === 0) {
+        return tusResponse(createValidationErrorResponse([
+          { field: 'Upload-Length', message: 'Must be a positive integer number of bytes (deferred length is not supported)' }
+        ]))
+      }
+      if (length > MAX_UPLOAD_BYTES) {
+        return tusResponse(createErrorResponse(`Uploads are limited to ${MAX_UPLOAD_BYTES} bytes`, 413), { 'Tus-Max-Size': String(MAX_UPLOAD_BYTES) })
+      }
+
+      const metadata = parseUploadMetadata(req.headers.get('Upload-Metadata'))
+      const mimeType = (metadata.filetype ?? '').toLowerCase()
+      const target = uploadTarget(mimeType)
+      if (!target) {
+        return tusResponse(createErrorResponse('Only audio and video files can be uploaded (set filetype in Upload-Metadata)', 415))
+      }
+
+      if (metadata.isrc && !FORMAT_PATTERNS.isrc.test(metadata.isrc)) {
+        return tusResponse(createValidationErrorResponse([
+          { field: 'Upload-Metadata.isrc', message: 'Must be a valid ISRC (CCXXXYYNNNNN, no dashes)' }
+        ]))
+      }
+
+      // Linking to an existing item replaces its file on completion
+      const contentItemId = metadata.content_id || null
+      if (contentItemId) {
+        const artistId = await getArtistId(supabase, user.id)
+        const { data: owned } = await supabase
+          .from('content_items')
+          .select('id')
+          .eq('id', contentItemId)
+          .eq('artist_id', artistId)
+          .maybeSingle()
+
+        if (!owned) {
+          return tusResponse(createNotFoundResponse('Content'))
+        }
+      }
+
+      const { data: allowed, error: permissionError } = await supabase.rpc('can_upload_file', {
+        user_id: user.id,
+        bucket_name: target.bucket,
+        file_size: length,
+        mime_type: mimeType
+      })
+      if (permissionError) throw permissionError
+      if (!allowed) {
+        return tusResponse(createForbiddenResponse(`Uploading ${mimeType} files of ${length} bytes to ${target.bucket} is not allowed`))
+      }
+
+      const { data: filePath, error: nameError } = await supabase.rpc('generate_unique_filename', {
+        user_id: user.id,
+        original_filename: metadata.filename ?? ''
+      })
+      if (nameError) throw nameError
+
+      const { data, error } = await supabase
+        .from('content_upload_log')
+        .insert({
+          user_id: user.id,
+          content_item_id: contentItemId,
+          bucket_name: target.bucket,
+          file_path: filePath,
+          file_size: length,
+          mime_type: mimeType,
+          upload_status: 'pending',
+          metadata,
+          upload_offset: 0,
+          expires_at: new Date(Date.now() + uploadExpiryMs).toISOString()
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      const upload = data as Upload
+      const location = new URL(`/uploads/${upload.id}`, req.url).toString()
+      logger.info('upload.created', { upload_id: upload.id, bucket: upload.bucket_name, bytes: length })
+
+      return tusResponse(
+        createSuccessResponse({ id: upload.id, location, expires_at: upload.expires_at }, 201),
+        { 'Location': location, ...uploadHeaders(upload) }
+      )
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return tusResponse(createValidationErrorResponse(error.errors))
+      }
+      return tusResponse(createErrorResponse(error.message, 400))
+    }
+  },
+
+  // HEAD /uploads/:id
+  async getUploadOffset(req: Request, uploadId: string): Promise<Response> {
+    try {
+      // HEAD responses carry no body
+      if (req.headers.get('Tus-Resumable') !== TUS_VERSION) {
+        return new Response(null, { status: 412, headers: tusHeaders({ 'Tus-Version': TUS_VERSION }) })
+      }
+
+      const { supabase, user } = await getAuth(req)
+      let upload = await findUpload(supabase, uploadId, user.id)
+
+      if (!upload) {
+        return new Response(null, { status: 404, headers: tusHeaders() })
+      }
+      // Clients resuming with HEAD see the full offset and send no more
+      // PATCHes, so a stalled assembly is retried here too. A failure is
+      // recorded on the upload and answered with 410 below.
+      if (isStalled(upload)) {
+        const reclaimed = await reclaimStalledUpload(supabase, upload)
+        if (reclaimed) {
+          upload = await completeUpload(supabase, reclaimed)
+            .catch((): Upload => ({ ...reclaimed, upload_status: 'failed' }))
+        }
+      }
+      if (upload.upload_status === 'failed' || isExpired(upload)) {
+        return new Response(null, { status: 410, headers: tusHeaders() })
+      }
+
+      return new Response(null, {
+        status: 200,
+        headers: tusHeaders({ ...uploadHeaders(upload), 'Cache-Control': 'no-store' })
+      })
+
+    } catch (error) {
+      logger.warn('upload.head_failed', { upload_id: uploadId, error: serializeError(error) })
+      return new Response(null, { status: 400, headers: tusHeaders() })
+    }
+  },
+
+  // PATCH /uploads/:id
+  async appendChunk(req: Request, uploadId: string): Promise<Response> {
+    try {
+      const unsupported = checkTusVersion(req)
+      if (unsupported) return unsupported
+
+      if (req.headers.get('Content-Type') !== TUS_CHUNK_CONTENT_TYPE) {
+        return tusResponse(createErrorResponse(`Content-Type must be ${TUS_CHUNK_CONTENT_TYPE}`, 415))
+      }
+
+      const offset = parseByteCount(req.headers.get('Upload-Offset'))
+      if (offset === null) {
+        return tusResponse(createValidationErrorResponse([{ field: 'Upload-Offset', message: 'Must be a non-negative integer' }]))
+      }
+
+      const { supabase, user } = await getAuth(req)
+      const upload = await findUpload(supabase, uploadId, user.id)
+      if (!upload) {
+        return tusResponse(createNotFoundResponse('Upload'))
+      }
+
+      if (isExpired(upload)) {
+        await failUpload(supabase, upload, 'Upload expired')
+        await removeParts(supabase, upload)
+        return tusResponse(createErrorResponse('Upload expired', 410))
+      }
+      if (upload.upload_status === 'failed') {
+        return tusResponse(createErrorResponse(`Upload failed: ${upload.error_message ?? 'unknown error'}`, 410))
+      }
+      // A retry of the final PATCH picks up an assembly whose request died
+      if (isStalled(upload) && offset === upload.upload_offset) {
+        const reclaimed = await reclaimStalledUpload(supabase, upload)
+        if (reclaimed) return completionResponse(supabase, reclaimed)
+      }
+      // Checked again under lock by append_upload_part; failing early saves
+      // receiving a chunk that would be thrown away
+      if (upload.upload_status !== 'pending' || offset !== upload.upload_offset) {
+        return tusResponse(
+          createErrorResponse(`Upload-Offset must be ${upload.upload_offset}`, 409),
+          uploadHeaders(upload)
+        )
+      }
+
+      const chunk = new Uint8Array(await req.arrayBuffer())
+      if (chunk.length === 0) {
+        return new Response(null, { status: 204, headers: tusHeaders(uploadHeaders(upload)) })
+      }
+      if (offset + chunk.length > upload.file_size) {
+        return tusResponse(createErrorResponse(`Chunk ends past Upload-Length ${upload.file_size}`, 413))
+      }
+
+      const partPath = `${partFolder(upload)}/${offset}-${crypto.randomUUID()}`
+      const { error: storeError } = await supabase.storage
+        .from(upload.bucket_name)
+        .upload(partPath, chunk, { contentType: upload.mime_type, upsert: false })
+
+      if (storeError) throw new Error(storeError.message)
+
+      const { data, error } = await supabase.rpc('append_upload_part', {
+        upload_id_param: upload.id,
+        expected_offset: offset,
+        part_length: chunk.length,
+        part_path: partPath
+      })
+
+      if (error) {
+        // Another request won the race for this offset
+        await supabase.storage.from(upload.bucket_name).remove([partPath])
+
+        // P0002: upload deleted meanwhile, 55000: no longer pending or offset
+        // moved on, 22023: past the declared length (see 012_resumable_uploads.sql)
+        if (error.code === 'P0002') {
+          return tusResponse(createNotFoundResponse('Upload'))
+        }
+        if (error.code === '55000') {
+          return tusResponse(createErrorResponse(error.message, 409))
+        }
+        if (error.code === '22023') {
+          return tusResponse(createErrorResponse(error.message, 413))
+        }
+        throw error
+      }
+
+      const current = data as Upload
+      if (current.upload_status === 'processing') {
+        return completionResponse(supabase, current)
+      }
+
+      return new Response(null, { status: 204, headers: tusHeaders(uploadHeaders(current)) })
+
+    } catch (error) {
+      return tusResponse(createErrorResponse(error.message, 400))
+    }
+  },
+
+  // GET /uploads/:id
+  async getUpload(req: Request, uploadId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const upload = await findUpload(supabase, uploadId, user.id)
+      if (!upload) {
+        return createNotFoundResponse('Upload')
+      }
+
+      const { data: duplicates } = await supabase
+        .from('content_duplicate_flags')
+        .select('id, matched_content_id, match_type, action, review_status')
+        .eq('upload_id', upload.id)
+
+      return createSuccessResponse({
+        id: upload.id,
+        status: isExpired(upload) ? 'failed' : upload.upload_status,
+        offset: upload.upload_offset,
+        length: upload.file_size,
+        mime_type: upload.mime_type,
+        bucket: upload.bucket_name,
+        file_path: upload.file_path,
+        content_item_id: upload.content_item_id,
+        error_message: isExpired(upload) ? 'Upload expired' : upload.error_message,
+        duplicates: duplicates ?? [],
+        expires_at: upload.expires_at,
+        created_at: upload.created_at,
+        updated_at: upload.updated_at
+      })
+
+    } catch (error) {
+      return createErrorResponse(error.message, 400)
+    }
+  },
+
+  // DELETE /uploads/:id
+  async terminateUpload(req: Request, uploadId: string): Promise<Response> {
+    try {
+      const unsupported = checkTusVersion(req)
+      if (unsupported) return unsupported
+
+      const { supabase, user } = await getAuth(req)
+      const upload = await findUpload(supabase, uploadId, user.id)
+      if (!upload) {
+        return tusResponse(createNotFoundResponse('Upload'))
+      }
+      // A finished upload is a content item now; delete that instead
+      if (upload.upload_status === 'processing' || upload.upload_status === 'completed') {
+        return tusResponse(createErrorResponse(`Upload is ${upload.upload_status}`, 409))
+      }
+
+      if (upload.upload_status === 'pending') {
+        await failUpload(supabase, upload, 'Terminated by client')
+      }
+      await removeParts(supabase, upload)
+
+      return new Response(null, { status: 204, headers: tusHeaders() })
+
+    } catch (error) {
+      return tusResponse(createErrorResponse(error.message, 400))
+    }
+  },
+
+  // POST /content/:id/inspect
+  async inspectContent(req: Request, contentId: string): Promise<Response> {
+    try {
+      const { supabase, user } = await getAuth(req)
+      const artistId = await getArtistId(supabase, user.id)
+
+      const { data: content } = await supabase
+        .from('content_items')
+        .select('id, content_type, file_path, metadata')
+        .eq('id', contentId)
+        .eq('artist_id', artistId)
+        .maybeSingle()
+
+      if (!content) {
+        return createNotFoundResponse('Content')
+      }
+      if (content.content_type !== 'audio') {
+        return createValidationErrorResponse([{ field: 'content_type', message: 'Only audio content can be inspected' }])
+      }
+
+      const { data: blob, error: downloadError } = await supabase.storage
+        .from(UPLOAD_TARGETS.audio.bucket)
+        .download(content.file_path)
+
+      if (downloadError || !blob) {
+        return createNotFoundResponse('Content file')
+      }
+
+      const file = new Uint8Array(await blob.arrayBuffer())
+      const inspection = await inspectAudio(file)
+      const suggestions = await tagSuggestions(supabase, user.id, file, inspection)
+
+      const { data, error } = await supabase
+        .from('content_items')
+        .update({
+          ...inspectionColumns(inspection),
+          ...waveformColumns(file, inspection),
+          metadata: { ...content.metadata, suggested_metadata: suggestions },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', contentId)
+        .select('id, file_type, audio_checksum, file_size_bytes, duration_ms, duration_seconds, sample_rate, bit_depth, channels, inspected_at')
+        .single()
+
+      if (error) throw error
+
+      return createSuccessResponse(data)
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return createValidationErrorResponse(error.errors)
+      }
+      return createErrorResponse(error.message, 400)
+    }
+  }
+}
+
+export function registerUploadRoutes(registry: RouteRegistry) {
+  registry
+    .add({
+      method: 'POST',
+      path: '/uploads',
+      summary: `Start a resumable upload (tus ${TUS_VERSION}: ${TUS_EXTENSIONS.join(', ')})`,
+      auth: ARTIST_ONLY,
+      successStatus: 201,
+      handler: (req) => uploadRoutes.createUpload(req)
+    })
+    .add({
+      method: 'HEAD',
+      path: '/uploads/:id',
+      summary: 'Current offset of a resumable upload',
+      auth: ARTIST_ONLY,
+      handler: (req, { params }) => uploadRoutes.getUploadOffset(req, params.id)
+    })
+    .add({
+      method: 'PATCH',
+      path: '/uploads/:id',
+      summary: 'Append a chunk at Upload-Offset; the last chunk creates the content item',
+      auth: ARTIST_ONLY,
+      // Upload-Offset already makes a repeated chunk a no-op (409)
+      idempotency: false,
+      successStatus: 204,
+      handler: (req, { params }) => uploadRoutes.appendChunk(req, params.id)
+    })
+    .add({
+      method: 'GET',
+      path: '/uploads/:id',
+      summary: 'Status of a resumable upload and the content item it created',
+      auth: ARTIST_ONLY,
+      handler: (req, { params }) => uploadRoutes.getUpload(req, params.id)
+    })
+    .add({
+      method: 'DELETE',
+      path: '/uploads/:id',
+      summary: 'Cancel a resumable upload and discard its received chunks',
+      auth: ARTIST_ONLY,
+      successStatus: 204,
+      handler: (req, { params }) => uploadRoutes.terminateUpload(req, params.id)
+    })
+    .add({
+      method: 'POST',
+      path: '/content/:id/inspect',
+      summary: 'Read format, duration, sample rate, bit depth, channels, checksum and tags from the stored audio file and regenerate its waveform',
+      auth: ARTIST_ONLY,
+      handler: (req, { params }) => uploadRoutes.inspectContent(req, params.id)
+    })
+}
@@ -0,0 +1,165 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createErrorResponse, createSuccessResponse } from '../utils/responses.ts'
+import { logger, serializeError } from '../utils/logger.ts'
+import type { RouteRegistry } from './route-registry.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+const REQUIRED_ENV = ['SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY', 'STRIPE_SECRET_KEY']
+
+// Files in database/migrations the API code depends on; keep in step with new migrations
+const REQUIRED_MIGRATIONS = [
+  '001_initial_schema.sql',
+  '002_rls_policies.sql',
+  '003_advanced_metadata_system.sql',
+  '004_storage_buckets.sql',
+  '005_rate_limits.sql',
+  '006_idempotency_keys.sql',
+  '007_list_pagination.sql',
+  '008_content_metadata_revisions.sql',
+  '009_album_track_ordering.sql',
+  '010_album_release_workflow.sql',
+  '011_content_lyrics_versions.sql',
+  '012_resumable_uploads.sql',
+  '013_audio_inspection.sql',
+  '014_waveform_peaks.sql',
+  '015_content_duplicates.sql',
+  '016_cover_art.sql',
+  '017_catalog_imports.sql'
+]
+
+// Created in the Supabase dashboard, see 004_storage_buckets.sql and 016_cover_art.sql
+const REQUIRED_BUCKETS = ['artist-content', 'visual-clips', 'lyrics-documents', 'cover-art']
+
+// A hung dependency should fail the probe, not hang it
+const CHECK_TIMEOUT_MS = 3000
+
+const startedAt = Date.now()
+
+type CheckStatus = 'pass' | 'fail'
+
+interface CheckResult {
+  status: CheckStatus
+  duration_ms: number
+  error?: string
+  details?: Record<string, unknown>
+}
+
+// A failed check that carries a breakdown (e.g. which buckets are missing)
+class CheckFailure extends Error {
+  constructor(message: string, public details: Record<string, unknown>) {
+    super(message)
+    this.name = 'CheckFailure'
+  }
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+async function checkDatabase(): Promise<Record<string, unknown> | void> {
+  const { error } = await supabase.from('profiles').select('id', { head: true }).limit(1)
+  if (error) throw new Error(error.message)
+}
+
+async function checkMigrations(): Promise<Record<string, unknown> | void> {
+  // Written by lib/migrations.ts
+  const { data, error } = await supabase.from('schema_migrations').select('filename')
+  if (error) throw new Error(error.message)
+
+  const applied = new Set((data ?? []).map((row: { filename: string }) => row.filename))
+  const missing = REQUIRED_MIGRATIONS.filter(filename => !applied.has(filename))
+  if (missing.length > 0) {
+    throw new CheckFailure('Required migrations are not applied', { missing })
+  }
+  return { applied: REQUIRED_MIGRATIONS.length }
+}
+
+async function checkEnvironment(): Promise<Record<string, unknown> | void> {
+  const missing = REQUIRED_ENV.filter(name => !Deno.env.get(name))
+  if (missing.length > 0) {
+    throw new CheckFailure('Required environment variables are missing', { missing })
+  }
+}
+
+async function checkStorage(): Promise<Record<string, unknown> | void> {
+  const { data, error } = await supabase.storage.listBuckets()
+  if (error) throw new Error(error.message)
+
+  const existing = new Set((data ?? []).map(bucket => bucket.id))
+  const missing = REQUIRED_BUCKETS.filter(bucket => !existing.has(bucket))
+  if (missing.length > 0) {
+    throw new CheckFailure('Required storage buckets are missing', { missing })
+  }
+}
+
+const READINESS_CHECKS: Record<string, () => Promise<Record<string, unknown> | void>> = {
+  environment: checkEnvironment,
+  database: checkDatabase,
+  migrations: checkMigrations,
+  storage: checkStorage
+}
+
+async function runCheck(name: string, check: () => Promise<Record<string, unknown> | void>): Promise<CheckResult> {
+  const started = performance.now()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  try {
+    const details = await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS)
+      })
+    ])
+    return {
+      status: 'pass',
+      duration_ms: Math.round(performance.now() - started),
+      ...(details && { details })
+    }
+  } catch (error) {
+    logger.warn('health.check_failed', { check: name, error: serializeError(error) })
+    return {
+      status: 'fail',
+      duration_ms: Math.round(performance.now() - started),
+      error: error instanceof Error ? error.message : String(error),
+      ...(error instanceof CheckFailure && { details: error.details })
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export function registerHealthRoutes(registry: RouteRegistry) {
+  registry
+    .add({
+      method: 'GET',
+      path: '/health/live',
+      summary: 'Liveness probe: the process is up and serving requests',
+      rateLimit: false,
+      handler: async () => createSuccessResponse({
+        status: 'alive',
+        uptime_seconds: Math.floor((Date.now() - startedAt) / 1000)
+      })
+    })
+    .add({
+      method: 'GET',
+      path: '/health/ready',
+      summary: 'Readiness probe: database, migrations, configuration and storage (503 when not ready)',
+      rateLimit: false,
+      handler: async () => {
+        const entries = await Promise.all(
+          Object.entries(READINESS_CHECKS).map(async ([name, check]) => [name, await runCheck(name, check)] as const)
+        )
+        const checks = Object.fromEntries(entries)
+        const ready = entries.every(([, result]) => result.status === 'pass')
+
+        return ready
+          ? createSuccessResponse({ status: 'ready', checks })
+          : createErrorResponse('Service not ready', 503, { status: 'not_ready', checks })
+      }
+    })
+}
@@ -0,0 +1,72 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { logger, serializeError } from '../utils/logger.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+// How often queued catalog imports are picked up; 0 disables the worker on
+// this instance. Running it on several instances is safe.
+const intervalMs = Number(Deno.env.get('IMPORT_WORKER_INTERVAL_MS') ?? 5_000)
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+let running = false
+
+// Claims and applies queued imports until none are left, see
+// claim_catalog_import() and run_catalog_import() in 017_catalog_imports.sql
+export async function runQueuedImports(): Promise<number> {
+  let processed = 0
+
+  while (true) {
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_catalog_import')
+    if (claimError) throw new Error(claimError.message)
+
+    const job = (claimed ?? [])[0]
+    if (!job) return processed
+
+    const { data, error } = await supabase.rpc('run_catalog_import', { job_id_param: job.id })
+    processed++
+
+    if (error) {
+      // The run rolled back entirely; fail the job rather than retry it forever
+      logger.error('import.failed', { job_id: job.id, error: error.message })
+      await supabase
+        .from('catalog_import_jobs')
+        .update({ status: 'failed', error: error.message, finished_at: new Date().toISOString() })
+        .eq('id', job.id)
+      continue
+    }
+
+    logger.info('import.finished', {
+      job_id: job.id,
+      status: data.status,
+      succeeded_rows: data.succeeded_rows,
+      failed_rows: data.failed_rows
+    })
+  }
+}
+
+export function startImportWorker() {
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    logger.info('import.worker_disabled')
+    return
+  }
+
+  setInterval(async () => {
+    // A long import must not overlap the next tick
+    if (running) return
+    running = true
+    try {
+      await runQueuedImports()
+    } catch (error) {
+      logger.error('import.worker_failed', { error: serializeError(error) })
+    } finally {
+      running = false
+    }
+  }, intervalMs)
+}
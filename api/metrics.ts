@@ -0,0 +1,94 @@
+import { corsHeaders } from '../middleware/cors.ts'
+import { AuthenticationError } from '../middleware/error-handling.ts'
+import type { RouteRegistry } from './route-registry.ts'
+
+const metricsToken = Deno.env.get('METRICS_TOKEN') ?? ''
+
+// Upper bounds in seconds, Prometheus client defaults
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+interface Histogram {
+  buckets: number[] // cumulative counts per LATENCY_BUCKETS entry
+  sum: number
+  count: number
+}
+
+const requestCounts = new Map<string, number>()
+const latencies = new Map<string, Histogram>()
+
+export function recordRequest(method: string, route: string, status: number, durationMs: number) {
+  const counterKey = labels({ method, route, status: String(status) })
+  requestCounts.set(counterKey, (requestCounts.get(counterKey) ?? 0) + 1)
+
+  const histogramKey = labels({ method, route })
+  const histogram = latencies.get(histogramKey) ?? {
+    buckets: LATENCY_BUCKETS.map(() => 0),
+    sum: 0,
+    count: 0
+  }
+
+  const seconds = durationMs / 1000
+  LATENCY_BUCKETS.forEach((bound, index) => {
+    if (seconds <= bound) histogram.buckets[index]++
+  })
+  histogram.sum += seconds
+  histogram.count++
+  latencies.set(histogramKey, histogram)
+}
+
+// Prometheus text exposition format 0.0.4
+export function renderMetrics(): string {
+  const lines: string[] = [
+    '# HELP http_requests_total Total HTTP requests by method, route and status.',
+    '# TYPE http_requests_total counter'
+  ]
+
+  for (const [key, count] of requestCounts) {
+    lines.push(`http_requests_total{${key}} ${count}`)
+  }
+
+  lines.push(
+    '# HELP http_request_duration_seconds HTTP request latency by method and route.',
+    '# TYPE http_request_duration_seconds histogram'
+  )
+
+  for (const [key, histogram] of latencies) {
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      lines.push(`http_request_duration_seconds_bucket{${key},le="${bound}"} ${histogram.buckets[index]}`)
+    })
+    lines.push(`http_request_duration_seconds_bucket{${key},le="+Inf"} ${histogram.count}`)
+    lines.push(`http_request_duration_seconds_sum{${key}} ${histogram.sum}`)
+    lines.push(`http_request_duration_seconds_count{${key}} ${histogram.count}`)
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+export function registerMetricsRoute(registry: RouteRegistry) {
+  registry.add({
+    method: 'GET',
+    path: '/metrics',
+    summary: 'Request counters and latency histograms in Prometheus text format',
+    rateLimit: false,
+    handler: async (req) => {
+      // Optional shared secret for scrapers when METRICS_TOKEN is set
+      if (metricsToken && req.headers.get('Authorization') !== `Bearer ${metricsToken}`) {
+        throw new AuthenticationError('Invalid metrics token')
+      }
+
+      return new Response(renderMetrics(), {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/plain; version=0.0.4'
+        }
+      })
+    }
+  })
+}
+
+function labels(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`)
+    .join(',')
+}
@@ -0,0 +1,380 @@
+import { corsHeaders } from '../middleware/cors.ts'
+import { ERROR_STATUS } from '../middleware/error-handling.ts'
+import { FORMAT_PATTERNS, isStrictSchema, toFieldSchema } from '../middleware/validation.ts'
+import type { FieldSchema, ValidationSchema } from '../middleware/validation.ts'
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '../utils/pagination.ts'
+import type { ListOptions } from '../utils/pagination.ts'
+import { supportsIdempotency } from './route-registry.ts'
+import type { RouteDefinition, RouteRegistry } from './route-registry.ts'
+
+// The parts of JSON Schema 2020-12 and OpenAPI 3.1 this generator emits
+interface JsonSchema {
+  $ref?: string
+  type?: string | string[]
+  const?: unknown
+  enum?: unknown[]
+  format?: string
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  default?: unknown
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean
+}
+
+interface Reference {
+  $ref: string
+}
+
+type MediaTypes = Record<string, { schema: JsonSchema }>
+
+interface ResponseObject {
+  description: string
+  content?: MediaTypes
+}
+
+interface ParameterObject {
+  name: string
+  in: 'path' | 'query' | 'header'
+  required?: boolean
+  description?: string
+  schema: JsonSchema
+}
+
+interface OperationObject {
+  operationId: string
+  tags: string[]
+  summary?: string
+  security?: Record<string, string[]>[]
+  parameters?: ParameterObject[]
+  requestBody?: { required: boolean; content: MediaTypes }
+  responses: Record<string, ResponseObject | Reference>
+  'x-required-roles'?: string[]
+}
+
+const API_INFO = {
+  title: 'Bucket & MediaID API',
+  version: '1.0.0'
+}
+
+// Builds an OpenAPI 3.1 document from the registered routes so the spec
+// cannot drift from what the router actually serves
+export function generateOpenApiDocument(routes: RouteDefinition[]) {
+  const paths: Record<string, Record<string, OperationObject>> = {}
+
+  for (const route of routes) {
+    const path = toOpenApiPath(route.path)
+    paths[path] = paths[path] || {}
+    paths[path][route.method.toLowerCase()] = buildOperation(route)
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: API_INFO,
+    paths,
+    components: {
+      schemas: {
+        ApiResponse: apiResponseSchema(),
+        PaginatedResponse: paginatedResponseSchema(),
+        ErrorResponse: errorResponseSchema()
+      },
+      responses: errorResponses(),
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+      }
+    }
+  }
+}
+
+export function registerOpenApiRoute(registry: RouteRegistry) {
+  registry.add({
+    method: 'GET',
+    path: '/openapi.json',
+    summary: 'OpenAPI 3.1 description of this API',
+    handler: async () => new Response(JSON.stringify(generateOpenApiDocument(registry.routes())), {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json'
+      }
+    })
+  })
+}
+
+function buildOperation(route: RouteDefinition): OperationObject {
+  const pathParams = route.path
+    .split('/')
+    .filter(segment => segment.startsWith(':'))
+    .map(segment => segment.slice(1))
+
+  const operation: OperationObject = {
+    operationId: operationId(route),
+    tags: [route.path.split('/').filter(Boolean)[0] || 'meta'],
+    responses: {
+      [String(route.successStatus ?? 200)]: {
+        description: 'Successful response',
+        content: {
+          'application/json': {
+            schema: { $ref: route.list ? '#/components/schemas/PaginatedResponse' : '#/components/schemas/ApiResponse' }
+          }
+        }
+      },
+      '400': { $ref: '#/components/responses/BadRequest' }
+    }
+  }
+
+  if (route.summary) operation.summary = route.summary
+
+  if (route.auth) {
+    operation.security = [{ bearerAuth: [] }]
+    operation.responses['401'] = { $ref: '#/components/responses/AUTHENTICATION_ERROR' }
+    if (route.auth.roles || route.auth.owner) {
+      operation.responses['403'] = { $ref: '#/components/responses/AUTHORIZATION_ERROR' }
+    }
+    if (route.auth.roles) {
+      operation['x-required-roles'] = route.auth.roles
+    }
+  }
+
+  if (route.rateLimit !== false) {
+    operation.responses['429'] = { $ref: '#/components/responses/RATE_LIMIT_ERROR' }
+  }
+
+  const parameters: ParameterObject[] = pathParams.map(name => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' }
+  }))
+
+  if (pathParams.length > 0) {
+    operation.responses['404'] = { $ref: '#/components/responses/NOT_FOUND' }
+  }
+
+  if (supportsIdempotency(route)) {
+    parameters.push({
+      name: 'Idempotency-Key',
+      in: 'header',
+      required: false,
+      description: 'Replays the first response for 24h when an authenticated request is retried with the same key',
+      schema: { type: 'string', maxLength: 255 }
+    })
+    operation.responses['409'] = { $ref: '#/components/responses/IDEMPOTENCY_KEY_IN_PROGRESS' }
+  }
+
+  if (route.list) {
+    parameters.push(...listParameters(route.list))
+    operation.responses['422'] = { $ref: '#/components/responses/VALIDATION_ERROR' }
+  }
+
+  if (parameters.length > 0) operation.parameters = parameters
+
+  if (route.body) {
+    operation.requestBody = {
+      required: true,
+      content: {
+        'application/json': { schema: validationSchemaToJsonSchema(route.body) }
+      }
+    }
+    operation.responses['422'] = { $ref: '#/components/responses/VALIDATION_ERROR' }
+  }
+
+  return operation
+}
+
+function listParameters(options: ListOptions): ParameterObject[] {
+  const sortValues = options.sortFields.flatMap(field => [field, `-${field}`])
+  const timeColumn = options.timeColumn ?? 'created_at'
+
+  const parameters: ParameterObject[] = [
+    {
+      name: 'limit',
+      in: 'query',
+      schema: { type: 'integer', minimum: 1, maximum: options.maxLimit ?? MAX_PAGE_LIMIT, default: DEFAULT_PAGE_LIMIT }
+    },
+    {
+      name: 'cursor',
+      in: 'query',
+      description: 'Opaque next_cursor from the previous page',
+      schema: { type: 'string' }
+    },
+    {
+      name: 'sort',
+      in: 'query',
+      description: 'Sort field, prefixed with - for descending',
+      schema: { type: 'string', enum: sortValues }
+    },
+    {
+      name: 'created_after',
+      in: 'query',
+      description: `Lower bound on ${timeColumn}`,
+      schema: { type: 'string', format: 'date-time' }
+    },
+    {
+      name: 'created_before',
+      in: 'query',
+      description: `Upper bound on ${timeColumn}`,
+      schema: { type: 'string', format: 'date-time' }
+    }
+  ]
+
+  for (const [name, filter] of Object.entries(options.filters ?? {})) {
+    const schema: JsonSchema = filter.type === 'uuid'
+      ? { type: 'string', format: 'uuid' }
+      : { type: filter.type }
+    if (filter.enum) schema.enum = [...filter.enum]
+    parameters.push({ name, in: 'query', schema })
+  }
+
+  return parameters
+}
+
+export function validationSchemaToJsonSchema(schema: ValidationSchema): JsonSchema {
+  return fieldToJsonSchema({ type: 'object', properties: schema, additionalProperties: !isStrictSchema(schema) })
+}
+
+function fieldToJsonSchema(rule: FieldSchema): JsonSchema {
+  const json: JsonSchema = { type: rule.nullable ? [rule.type, 'null'] : rule.type }
+
+  if (rule.enum) json.enum = rule.nullable ? [...rule.enum, null] : [...rule.enum]
+
+  switch (rule.type) {
+    case 'string':
+      json.minLength = rule.minLength ?? 1
+      if (rule.maxLength !== undefined) json.maxLength = rule.maxLength
+      if (rule.format === 'isrc') {
+        json.pattern = FORMAT_PATTERNS.isrc.source
+      } else if (rule.format === 'url') {
+        json.format = 'uri'
+      } else if (rule.format) {
+        json.format = rule.format
+      }
+      break
+    case 'number':
+    case 'integer':
+      if (rule.min !== undefined) json.minimum = rule.min
+      if (rule.max !== undefined) json.maximum = rule.max
+      break
+    case 'array':
+      json.items = rule.items ? fieldToJsonSchema(toFieldSchema(rule.items)) : {}
+      if (rule.minItems !== undefined) json.minItems = rule.minItems
+      if (rule.maxItems !== undefined) json.maxItems = rule.maxItems
+      break
+    case 'object':
+      if (rule.properties) {
+        const entries = Object.entries(rule.properties).map(([key, value]) => [key, toFieldSchema(value)] as const)
+        json.properties = Object.fromEntries(entries.map(([key, value]) => [key, fieldToJsonSchema(value)]))
+        json.required = entries.filter(([, value]) => !value.optional).map(([key]) => key)
+      }
+      if (rule.additionalProperties === false) json.additionalProperties = false
+      break
+  }
+
+  return json
+}
+
+function apiResponseSchema(): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      data: {},
+      error: { type: 'string' },
+      message: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' },
+      requestId: { type: 'string' }
+    },
+    required: ['success', 'timestamp']
+  }
+}
+
+function paginatedResponseSchema(): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      data: { type: 'array', items: {} },
+      pagination: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer' },
+          next_cursor: { type: ['string', 'null'] },
+          has_more: { type: 'boolean' }
+        },
+        required: ['limit', 'next_cursor', 'has_more']
+      },
+      meta: { type: 'object' },
+      timestamp: { type: 'string', format: 'date-time' },
+      requestId: { type: 'string' }
+    },
+    required: ['success', 'data', 'pagination', 'timestamp']
+  }
+}
+
+function errorResponseSchema(): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      success: { const: false },
+      error: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' },
+      requestId: { type: 'string' },
+      details: {
+        type: 'object',
+        properties: {
+          code: { type: 'string', enum: Object.keys(ERROR_STATUS) },
+          details: {},
+          validationErrors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { field: { type: 'string' }, message: { type: 'string' } },
+              required: ['field', 'message']
+            }
+          }
+        }
+      }
+    },
+    required: ['success', 'error', 'timestamp']
+  }
+}
+
+function errorResponses(): Record<string, ResponseObject> {
+  const jsonError = {
+    'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } }
+  }
+
+  const responses: Record<string, ResponseObject> = {
+    BadRequest: { description: 'Bad request', content: jsonError }
+  }
+
+  for (const [code, status] of Object.entries(ERROR_STATUS)) {
+    responses[code] = { description: `${status} ${code}`, content: jsonError }
+  }
+
+  return responses
+}
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, '{$1}')
+}
+
+function operationId(route: RouteDefinition): string {
+  const words = route.path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => segment.startsWith(':') ? `by-${segment.slice(1)}` : segment)
+    .join('-')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+
+  return [route.method.toLowerCase(), ...words]
+    .map((word, index) => index === 0 ? word : word[0].toUpperCase() + word.slice(1))
+    .join('')
+}
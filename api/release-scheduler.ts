@@ -0,0 +1,50 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { logger, serializeError } from '../utils/logger.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+// How often scheduled album releases are checked; 0 disables the scheduler
+// on this instance. Running it on several instances is safe.
+const intervalMs = Number(Deno.env.get('RELEASE_SCHEDULER_INTERVAL_MS') ?? 60_000)
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+let running = false
+
+// Releases every scheduled album whose release time has passed,
+// see publish_due_album_releases() in 010_album_release_workflow.sql
+export async function publishDueReleases(): Promise<number> {
+  const { data, error } = await supabase.rpc('publish_due_album_releases')
+  if (error) throw new Error(error.message)
+
+  for (const album of data ?? []) {
+    logger.info('release.published', { album_id: album.album_id, release_at: album.release_at })
+  }
+  return (data ?? []).length
+}
+
+export function startReleaseScheduler() {
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    logger.info('release.scheduler_disabled')
+    return
+  }
+
+  setInterval(async () => {
+    // A slow run must not overlap the next tick
+    if (running) return
+    running = true
+    try {
+      await publishDueReleases()
+    } catch (error) {
+      logger.error('release.scheduler_failed', { error: serializeError(error) })
+    } finally {
+      running = false
+    }
+  }, intervalMs)
+}
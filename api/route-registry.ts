@@ -0,0 +1,287 @@
+import { corsHeaders } from '../middleware/cors.ts'
+import {
+  createErrorResponse,
+  createMethodNotAllowedResponse,
+  createNotFoundResponse,
+  createValidationErrorResponse
+} from '../utils/responses.ts'
+import { validateRequest, ValidationError, ValidationSchema } from '../middleware/validation.ts'
+import { requireAuth, AuthRequirement } from '../middleware/auth.ts'
+import { rateLimit, RateLimitPolicy, RATE_LIMITS } from '../middleware/rate-limit.ts'
+import { idempotency } from '../middleware/idempotency.ts'
+import { getRequestContext } from '../utils/request-context.ts'
+import { parseListQuery, ListOptions } from '../utils/pagination.ts'
+
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+// Extracts the `:param` names of a route pattern into a typed params object,
+// e.g. '/content/:id/lyrics' -> { id: string }
+export type RouteParams<Path extends string> =
+  string extends Path
+    ? Record<string, string>
+    : Path extends `${string}:${infer Param}/${infer Rest}`
+      ? { [K in Param | keyof RouteParams<`/${Rest}`>]: string }
+      : Path extends `${string}:${infer Param}`
+        ? { [K in Param]: string }
+        : Record<string, never>
+
+export interface RouteContext<Params = Record<string, string>> {
+  params: Params
+  url: URL
+  route: { method: HttpMethod; path: string }
+}
+
+export type RouteHandler<Params = Record<string, string>> = (
+  req: Request,
+  ctx: RouteContext<Params>
+) => Promise<Response>
+
+export type Middleware = (
+  req: Request,
+  ctx: RouteContext,
+  next: () => Promise<Response>
+) => Promise<Response>
+
+export interface RouteDefinition<Path extends string = string> {
+  method: HttpMethod
+  path: Path
+  handler: RouteHandler<RouteParams<Path>>
+  // Authenticated callers only, optionally restricted by role or ownership
+  auth?: AuthRequirement
+  // Defaults to RATE_LIMITS.default; false disables limiting (e.g. webhooks)
+  rateLimit?: RateLimitPolicy | false
+  // POST/PATCH routes honour Idempotency-Key unless set to false
+  idempotency?: false
+  middleware?: Middleware[]
+  // JSON body rules, enforced before the handler runs (422 with per-field errors)
+  body?: ValidationSchema
+  // Cursor pagination, sort and filter query parameters (422 when invalid)
+  list?: ListOptions
+  // Documentation only: consumed by the OpenAPI generator
+  summary?: string
+  successStatus?: number
+}
+
+interface CompiledRoute {
+  definition: RouteDefinition
+  segments: string[]
+}
+
+export class RouteRegistry {
+  private compiled: CompiledRoute[] = []
+
+  add<Path extends string>(definition: RouteDefinition<Path>): this {
+    const duplicate = this.compiled.find(route =>
+      route.definition.method === definition.method &&
+      route.definition.path === definition.path
+    )
+    if (duplicate) {
+      throw new Error(`Route already registered: ${definition.method} ${definition.path}`)
+    }
+
+    this.compiled.push({
+      definition: definition as unknown as RouteDefinition,
+      segments: splitPath(definition.path)
+    })
+    return this
+  }
+
+  routes(): RouteDefinition[] {
+    return this.compiled.map(route => route.definition)
+  }
+
+  // Methods registered for every pattern matching the path, used for 405 and OPTIONS
+  allowedMethods(pathname: string): HttpMethod[] {
+    const pathSegments = splitPath(pathname)
+    const methods = new Set<HttpMethod>()
+    for (const route of this.compiled) {
+      if (matchSegments(route.segments, pathSegments)) {
+        methods.add(route.definition.method)
+      }
+    }
+    // GET routes answer HEAD as well (see handle)
+    if (methods.has('GET')) methods.add('HEAD')
+    return [...methods]
+  }
+
+  async handle(req: Request): Promise<Response> {
+    const url = new URL(req.url)
+    const pathSegments = splitPath(url.pathname)
+
+    // Params are percent-decoded when matched; a malformed escape is the caller's error
+    if (!pathSegments.every(isDecodable)) {
+      return createErrorResponse('Malformed percent-encoding in path', 400)
+    }
+
+    if (req.method === 'OPTIONS') {
+      return this.handleOptions(url.pathname)
+    }
+
+    // HEAD runs the GET route unless the path registers its own (e.g. tus uploads)
+    const best = this.match(req.method, pathSegments) ??
+      (req.method === 'HEAD' ? this.match('GET', pathSegments) : null)
+
+    if (!best) {
+      const allowed = this.allowedMethods(url.pathname)
+      return allowed.length > 0
+        ? createMethodNotAllowedResponse(withOptions(allowed))
+        : createNotFoundResponse('API endpoint')
+    }
+
+    const { definition } = best.route
+    const requestContext = getRequestContext()
+    if (requestContext) requestContext.route = definition.path
+
+    const ctx: RouteContext = {
+      params: best.params,
+      url,
+      route: { method: definition.method, path: definition.path }
+    }
+
+    const middleware: Middleware[] = []
+    if (definition.rateLimit !== false) {
+      middleware.push(rateLimit(definition.rateLimit ?? RATE_LIMITS.default))
+    }
+    if (definition.auth) {
+      middleware.push(requireAuth(definition.auth))
+    }
+    if (supportsIdempotency(definition)) {
+      middleware.push(idempotency())
+    }
+    middleware.push(...(definition.middleware ?? []))
+
+    const response = await runMiddleware(middleware, req, ctx, async () => {
+      if (definition.list) {
+        const invalid = checkListQuery(url, definition.list)
+        if (invalid) return invalid
+      }
+      if (definition.body) {
+        const invalid = await checkBody(req, definition.body)
+        if (invalid) return invalid
+      }
+      return definition.handler(req, ctx)
+    })
+
+    if (req.method === 'HEAD' && definition.method === 'GET') {
+      return new Response(null, { status: response.status, statusText: response.statusText, headers: response.headers })
+    }
+    return response
+  }
+
+  // Most specific route registered for the method, or null when none matches
+  private match(method: string, pathSegments: string[]): { route: CompiledRoute; params: Record<string, string> } | null {
+    let best: { route: CompiledRoute; params: Record<string, string>; score: number } | null = null
+
+    for (const route of this.compiled) {
+      if (route.definition.method !== method) continue
+      const params = matchSegments(route.segments, pathSegments)
+      if (!params) continue
+
+      const score = specificity(route.segments)
+      if (!best || score > best.score) {
+        best = { route, params, score }
+      }
+    }
+    return best
+  }
+
+  private handleOptions(pathname: string): Response {
+    const methods = this.allowedMethods(pathname)
+    if (methods.length === 0) {
+      return createNotFoundResponse('API endpoint')
+    }
+
+    const allow = withOptions(methods).join(', ')
+    return new Response(null, {
+      status: 204,
+      headers: {
+        ...corsHeaders,
+        'Access-Control-Allow-Methods': allow,
+        'Allow': allow
+      }
+    })
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean)
+}
+
+function isDecodable(segment: string): boolean {
+  try {
+    decodeURIComponent(segment)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function matchSegments(pattern: string[], path: string[]): Record<string, string> | null {
+  if (pattern.length !== path.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(':')) {
+      params[pattern[i].slice(1)] = decodeURIComponent(path[i])
+    } else if (pattern[i] !== path[i]) {
+      return null
+    }
+  }
+  return params
+}
+
+// Static segments win over params, earlier segments weigh more:
+// '/content/albums/:id' beats '/content/:id/metadata' for '/content/albums/metadata'
+function specificity(segments: string[]): number {
+  return segments.reduce(
+    (score, segment, index) => segment.startsWith(':') ? score : score + 2 ** (segments.length - index),
+    0
+  )
+}
+
+export function supportsIdempotency(definition: RouteDefinition): boolean {
+  return (definition.method === 'POST' || definition.method === 'PATCH') && definition.idempotency !== false
+}
+
+// Validates a clone so the handler can still read the body itself
+async function checkBody(req: Request, schema: ValidationSchema): Promise<Response | null> {
+  try {
+    await validateRequest(req.clone(), schema)
+    return null
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return createValidationErrorResponse(error.errors)
+    }
+    throw error
+  }
+}
+
+// Handlers parse the query again; this only rejects bad input up front
+function checkListQuery(url: URL, options: ListOptions): Response | null {
+  try {
+    parseListQuery(url, options)
+    return null
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return createValidationErrorResponse(error.errors)
+    }
+    throw error
+  }
+}
+
+function withOptions(methods: HttpMethod[]): string[] {
+  return [...methods, 'OPTIONS']
+}
+
+function runMiddleware(
+  middleware: Middleware[],
+  req: Request,
+  ctx: RouteContext,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const dispatch = (index: number): Promise<Response> => {
+    if (index === middleware.length) return handler()
+    return middleware[index](req, ctx, () => dispatch(index + 1))
+  }
+  return dispatch(0)
+}
@@ -1,194 +1,100 @@
-import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { serve, type ConnInfo } from "https://deno.land/std@0.177.0/http/server.ts"
 import { handleCors, addCorsHeaders } from '../middleware/cors.ts'
-import { createErrorResponse, createNotFoundResponse, createSuccessResponse } from '../utils/responses.ts'
-import { authRoutes } from '../Routes/auth.ts'
-import { subscriptionRoutes } from '../Routes/subscriptions.ts'
-import { mediaIdRoutes } from '../Routes/mediaid.ts'
-import { contentRoutes } from '../Routes/content.ts'
+import { handleError } from '../middleware/error-handling.ts'
+import { createSuccessResponse, withHeaders } from '../utils/responses.ts'
+import { logger } from '../utils/logger.ts'
+import { RequestContext, resolveClientIp, resolveRequestId, runWithRequestContext } from '../utils/request-context.ts'
+import { RouteRegistry } from './route-registry.ts'
+import { registerOpenApiRoute } from './openapi.ts'
+import { recordRequest, registerMetricsRoute } from './metrics.ts'
+import { registerHealthRoutes } from './health.ts'
+import { startReleaseScheduler } from './release-scheduler.ts'
+import { startImportWorker } from './import-worker.ts'
+import { registerAuthRoutes } from '../Routes/auth.ts'
+import { registerSubscriptionRoutes } from '../Routes/subscriptions.ts'
+import { registerMediaIdRoutes } from '../Routes/mediaid.ts'
+import { registerContentRoutes } from '../Routes/content.ts'
+import { registerPlaybackRoutes } from '../Routes/playback.ts'
+import { registerUploadRoutes } from '../Routes/uploads.ts'
+import { registerDuplicateRoutes } from '../Routes/duplicates.ts'
+import { registerImportRoutes } from '../Routes/imports.ts'
 
-interface RouteHandler {
-  [key: string]: (req: Request, ...params: string[]) => Promise<Response>
-}
+export const registry = new RouteRegistry()
 
-const routes: { [key: string]: RouteHandler } = {
-  '/auth': authRoutes,
-  '/subscriptions': subscriptionRoutes,
-  '/mediaid': mediaIdRoutes,
-  '/content': contentRoutes
-}
+registry.add({
+  method: 'GET',
+  path: '/',
+  summary: 'API status',
+  handler: async () => createSuccessResponse({
+    message: 'Bucket & MediaID API',
+    version: '1.0.0',
+    health: { live: '/health/live', ready: '/health/ready' }
+  })
+})
 
-export async function handleRequest(req: Request): Promise<Response> {
-  try {
-    // Handle CORS preflight
-    const corsResponse = handleCors(req)
-    if (corsResponse) return corsResponse
+registerAuthRoutes(registry)
+registerSubscriptionRoutes(registry)
+registerMediaIdRoutes(registry)
+registerContentRoutes(registry)
+registerPlaybackRoutes(registry)
+registerUploadRoutes(registry)
+registerDuplicateRoutes(registry)
+registerImportRoutes(registry)
+registerOpenApiRoute(registry)
+registerMetricsRoute(registry)
+registerHealthRoutes(registry)
 
-    const url = new URL(req.url)
-    const pathParts = url.pathname.split('/').filter(Boolean)
-    
-    if (pathParts.length === 0) {
-      return createSuccessResponse({
-        message: 'Bucket & MediaID API',
-        version: '1.0.0',
-        status: 'healthy'
-      })
-    }
+export function handleRequest(req: Request, connInfo?: ConnInfo): Promise<Response> {
+  const remoteAddr = connInfo?.remoteAddr
+  const context: RequestContext = {
+    requestId: resolveRequestId(req),
+    startedAt: performance.now(),
+    clientIp: resolveClientIp(req, remoteAddr && 'hostname' in remoteAddr ? remoteAddr.hostname : null)
+  }
 
-    const baseRoute = `/${pathParts[0]}`
-    const handler = routes[baseRoute]
-    
-    if (!handler) {
-      return createNotFoundResponse('API endpoint')
-    }
+  return runWithRequestContext(context, async () => {
+    const { pathname } = new URL(req.url)
+    logger.info('request.start', { method: req.method, path: pathname })
 
-    // Extract method and subpath
-    const method = req.method.toLowerCase()
-    const subPath = pathParts.slice(1).join('/')
-    
-    // Route to appropriate handler
-    let response: Response
+    const response = await dispatch(req)
 
-    switch (baseRoute) {
-      case '/auth':
-        response = await routeAuth(req, method, subPath)
-        break
-      case '/subscriptions':
-        response = await routeSubscriptions(req, method, subPath)
-        break
-      case '/mediaid':
-        response = await routeMediaId(req, method, subPath)
-        break
-      case '/content':
-        response = await routeContent(req, method, subPath)
-        break
-      default:
-        response = createNotFoundResponse('API endpoint')
-    }
+    const durationMs = performance.now() - context.startedAt
+    const route = context.route ?? 'unmatched'
+    recordRequest(req.method, route, response.status, durationMs)
 
-    return addCorsHeaders(response)
+    logger.info('request.finish', {
+      method: req.method,
+      path: pathname,
+      route,
+      user_id: context.userId ?? null,
+      status: response.status,
+      duration_ms: Math.round(durationMs * 100) / 100
+    })
 
-  } catch (error) {
-    console.error('API Error:', error)
-    const errorResponse = createErrorResponse(
-      'Internal server error',
-      500,
-      { message: error.message }
-    )
-    return addCorsHeaders(errorResponse)
-  }
+    return withHeaders(response, { 'X-Request-Id': context.requestId })
+  })
 }
 
-async function routeAuth(req: Request, method: string, subPath: string): Promise<Response> {
-  switch (`${method}:${subPath}`) {
-    case 'post:signup':
-      return authRoutes.signup(req)
-    case 'post:login':
-      return authRoutes.login(req)
-    case 'post:refresh':
-      return authRoutes.refresh(req)
-    case 'post:logout':
-      return authRoutes.logout(req)
-    default:
-      return createNotFoundResponse('Auth endpoint')
-  }
-}
+async function dispatch(req: Request): Promise<Response> {
+  try {
+    // Preflight is answered per path so Allow lists the methods actually registered
+    if (req.method === 'OPTIONS') {
+      return await registry.handle(req)
+    }
 
-async function routeSubscriptions(req: Request, method: string, subPath: string): Promise<Response> {
-  const parts = subPath.split('/')
-  
-  switch (method) {
-    case 'post':
-      if (subPath === 'create-checkout') {
-        return subscriptionRoutes.createCheckout(req)
-      }
-      if (subPath === 'webhooks/stripe') {
-        return subscriptionRoutes.handleStripeWebhook(req)
-      }
-      break
-    case 'get':
-      if (parts.length === 1) {
-        return subscriptionRoutes.getUserSubscriptions(req, parts[0])
-      }
-      break
-    case 'patch':
-      if (parts.length === 2 && parts[1] === 'cancel') {
-        return subscriptionRoutes.cancelSubscription(req, parts[0])
-      }
-      break
-  }
-  
-  return createNotFoundResponse('Subscription endpoint')
-}
+    const corsResponse = handleCors(req)
+    if (corsResponse) return corsResponse
 
-async function routeMediaId(req: Request, method: string, subPath: string): Promise<Response> {
-  switch (`${method}:${subPath}`) {
-    case 'get:preferences':
-      return mediaIdRoutes.getPreferences(req)
-    case 'put:preferences':
-      return mediaIdRoutes.updatePreferences(req)
-    case 'get:analytics':
-      return mediaIdRoutes.getAnalytics(req)
-    case 'post:events':
-      return mediaIdRoutes.logEvent(req)
-    case 'delete:data':
-      return mediaIdRoutes.deleteUserData(req)
-    default:
-      return createNotFoundResponse('MediaID endpoint')
-  }
-}
+    const response = await registry.handle(req)
+    return addCorsHeaders(response)
 
-async function routeContent(req: Request, method: string, subPath: string): Promise<Response> {
-  const parts = subPath.split('/');
-  
-  switch (method) {
-    case 'put':
-      if (parts.length === 2 && parts[1] === 'metadata') {
-        return contentRoutes.updateMetadata(req, parts[0]);
-      }
-      if (parts.length === 2) {
-        return contentRoutes.updateAlbum(req, parts[0]);
-      }
-      break;
-    case 'get':
-      if (parts.length === 2 && parts[1] === 'metadata') {
-        return contentRoutes.getMetadata(req, parts[0]);
-      }
-      if (subPath === 'albums') {
-        return contentRoutes.getAlbums(req);
-      }
-      if (parts.length === 2 && parts[1] === 'tracks') {
-        return contentRoutes.getAlbumTracks(req, parts[0]);
-      }
-      if (subPath === 'bsl/eligible') {
-        return contentRoutes.checkBSLEligibility(req);
-      }
-      if (subPath === 'bsl/tracks') {
-        return contentRoutes.getBSLTracks(req);
-      }
-      break;
-    case 'post':
-      if (subPath === 'albums') {
-        return contentRoutes.createAlbum(req);
-      }
-      if (parts.length === 2 && parts[1] === 'lyrics') {
-        return contentRoutes.addLyrics(req, parts[0]);
-      }
-      if (parts.length === 2 && parts[1] === 'visual-clip') {
-        return contentRoutes.addVisualClip(req, parts[0]);
-      }
-      if (subPath === 'bsl/enable') {
-        return contentRoutes.enableBSL(req);
-      }
-      break;
-    case 'delete':
-      if (parts.length === 1) {
-        return contentRoutes.deleteAlbum(req, parts[0]);
-      }
-      break;
+  } catch (error) {
+    // Middleware signals failures by throwing ApiError subclasses
+    return addCorsHeaders(handleError(error))
   }
-  
-  return createNotFoundResponse('Content endpoint');
 }
 
-// Start the server
-serve(handleRequest, { port: 8000 }) 
\ No newline at end of file
+// Start the server and background jobs
+startReleaseScheduler()
+startImportWorker()
+serve(handleRequest, { port: 8000 })
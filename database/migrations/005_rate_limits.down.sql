@@ -0,0 +1,3 @@
+-- Reverts 005_rate_limits.sql (set RATE_LIMIT_STORE=memory first)
+DROP FUNCTION IF EXISTS rate_limit_hit(TEXT, TIMESTAMPTZ, INTEGER);
+DROP TABLE IF EXISTS rate_limit_counters;
@@ -0,0 +1,51 @@
+-- ===============================================
+-- RATE LIMIT COUNTERS
+-- ===============================================
+-- Backing store for the API's sliding-window rate limiter when
+-- RATE_LIMIT_STORE=postgres, so limits hold across API instances
+
+-- 1. Counter per key and fixed window (UNLOGGED: losing counters on crash is acceptable)
+CREATE UNLOGGED TABLE IF NOT EXISTS rate_limit_counters (
+  key TEXT NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_window ON rate_limit_counters(window_start);
+
+-- Only the service role touches counters
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+-- 2. Record a hit and return the current and previous window counts
+CREATE OR REPLACE FUNCTION rate_limit_hit(
+  key_param TEXT,
+  window_start_param TIMESTAMPTZ,
+  window_seconds INTEGER
+)
+RETURNS TABLE(current_count INTEGER, previous_count INTEGER) AS $$
+BEGIN
+  INSERT INTO rate_limit_counters (key, window_start, count)
+  VALUES (key_param, window_start_param, 1)
+  ON CONFLICT (key, window_start)
+  DO UPDATE SET count = rate_limit_counters.count + 1
+  RETURNING rate_limit_counters.count INTO current_count;
+
+  SELECT c.count INTO previous_count
+  FROM rate_limit_counters c
+  WHERE c.key = key_param
+    AND c.window_start = window_start_param - make_interval(secs => window_seconds);
+
+  previous_count := COALESCE(previous_count, 0);
+
+  -- Windows older than the previous one no longer affect the estimate
+  DELETE FROM rate_limit_counters
+  WHERE key = key_param
+    AND window_start < window_start_param - make_interval(secs => window_seconds);
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION rate_limit_hit(TEXT, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rate_limit_hit(TEXT, TIMESTAMPTZ, INTEGER) TO service_role;
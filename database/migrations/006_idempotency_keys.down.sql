@@ -0,0 +1,3 @@
+-- Reverts 006_idempotency_keys.sql
+DROP FUNCTION IF EXISTS purge_expired_idempotency_keys();
+DROP TABLE IF EXISTS idempotency_keys;
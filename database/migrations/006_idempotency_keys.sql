@@ -0,0 +1,38 @@
+-- ===============================================
+-- IDEMPOTENCY KEYS
+-- ===============================================
+-- Stores the first response to a POST/PATCH sent with an Idempotency-Key
+-- header so client retries are replayed instead of executed twice
+
+-- 1. One row per user and key; response_* stay NULL while the request is in flight
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  request_method TEXT NOT NULL,
+  request_path TEXT NOT NULL,
+  request_fingerprint TEXT NOT NULL, -- SHA-256 of method, path and body
+  response_status INTEGER,
+  response_body TEXT,
+  response_headers JSONB, -- replayed with the body, e.g. Content-Type and Location
+  created_at TIMESTAMP DEFAULT now(),
+  expires_at TIMESTAMP NOT NULL DEFAULT (now() + INTERVAL '24 hours'),
+  UNIQUE(user_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+
+-- Managed by the API with the service role only
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- 2. Housekeeping: remove keys past their 24h retention
+CREATE OR REPLACE FUNCTION purge_expired_idempotency_keys()
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM idempotency_keys WHERE expires_at < now();
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,7 @@
+-- Reverts 007_list_pagination.sql
+DROP FUNCTION IF EXISTS mediaid_engagement_summary(TIMESTAMP);
+DROP INDEX IF EXISTS idx_engagement_log_user_timestamp;
+DROP INDEX IF EXISTS idx_content_items_artist_license_created;
+DROP INDEX IF EXISTS idx_content_items_album_track;
+DROP INDEX IF EXISTS idx_albums_artist_created;
+DROP INDEX IF EXISTS idx_subscriptions_fan_created;
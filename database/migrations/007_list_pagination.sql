@@ -0,0 +1,28 @@
+-- ===============================================
+-- LIST PAGINATION SUPPORT
+-- ===============================================
+-- Indexes backing the API's keyset (cursor) pagination, plus an engagement
+-- summary so /mediaid/analytics no longer aggregates a truncated page
+
+-- 1. Keyset indexes: owner column, default sort column, id tie-breaker
+CREATE INDEX IF NOT EXISTS idx_subscriptions_fan_created ON subscriptions(fan_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_albums_artist_created ON albums(artist_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_content_items_album_track ON content_items(album_id, track_number, id);
+CREATE INDEX IF NOT EXISTS idx_content_items_artist_license_created ON content_items(artist_id, license_type, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_engagement_log_user_timestamp ON media_engagement_log(user_id, timestamp DESC, id DESC);
+
+-- 2. Per-event-type totals for the calling user (runs with the caller's RLS)
+CREATE OR REPLACE FUNCTION mediaid_engagement_summary(recent_since TIMESTAMP DEFAULT now() - INTERVAL '30 days')
+RETURNS TABLE(event_type TEXT, total_count BIGINT, recent_count BIGINT, last_activity TIMESTAMP) AS $$
+  SELECT
+    log.event_type,
+    count(*),
+    count(*) FILTER (WHERE log.timestamp > recent_since),
+    max(log.timestamp)
+  FROM media_engagement_log log
+  WHERE log.user_id = auth.uid()
+    AND log.is_anonymous = false
+  GROUP BY log.event_type;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION mediaid_engagement_summary(TIMESTAMP) TO authenticated;
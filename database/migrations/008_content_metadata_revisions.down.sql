@@ -0,0 +1,6 @@
+-- Reverts 008_content_metadata_revisions.sql (revision history is lost)
+DROP FUNCTION IF EXISTS restore_content_metadata_revision(UUID, INTEGER);
+DROP TRIGGER IF EXISTS trigger_record_content_metadata_revision ON content_items;
+DROP FUNCTION IF EXISTS record_content_metadata_revision();
+DROP FUNCTION IF EXISTS content_metadata_tracked_fields();
+DROP TABLE IF EXISTS content_metadata_revisions;
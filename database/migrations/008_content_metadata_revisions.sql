@@ -0,0 +1,187 @@
+-- ===============================================
+-- CONTENT METADATA REVISIONS
+-- ===============================================
+-- Every change to a content item's metadata is recorded as a numbered
+-- revision (who, when, which fields, before/after) so artists can review
+-- history, diff revisions and roll back
+
+-- 1. One row per metadata change; revision numbers are sequential per item
+CREATE TABLE IF NOT EXISTS content_metadata_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id UUID NOT NULL REFERENCES content_items(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP NOT NULL DEFAULT now(),
+  changed_fields TEXT[] NOT NULL,
+  before JSONB NOT NULL, -- previous values of changed_fields only
+  after JSONB NOT NULL,  -- new values of changed_fields only
+  restored_from INTEGER, -- set when the change was a restore of that revision
+  UNIQUE(content_id, revision)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_metadata_revisions_content
+  ON content_metadata_revisions(content_id, revision DESC);
+
+ALTER TABLE content_metadata_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below; artists read the history of their own content
+CREATE POLICY "Artists can view their content revisions" ON content_metadata_revisions
+  FOR SELECT USING (
+    EXISTS(
+      SELECT 1 FROM content_items ci
+      JOIN artist_profiles ap ON ap.id = ci.artist_id
+      WHERE ci.id = content_id AND ap.user_id = auth.uid()
+    )
+  );
+
+-- 2. Columns whose changes are versioned
+CREATE OR REPLACE FUNCTION content_metadata_tracked_fields()
+RETURNS TEXT[] AS $$
+  SELECT ARRAY[
+    'title', 'description', 'buy_link_url', 'buy_link_title',
+    'record_label', 'publisher', 'p_line', 'isrc', 'release_date',
+    'explicit', 'is_premium', 'unlock_date', 'license_type',
+    'enable_direct_downloads', 'offline_listening', 'include_in_rss',
+    'display_embed_code', 'enable_app_playback', 'allow_comments',
+    'show_comments_public', 'show_insights_public',
+    'availability_scope', 'availability_regions', 'preview_clip', 'metadata'
+  ]
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 3. Record a revision whenever a tracked column changes
+CREATE OR REPLACE FUNCTION record_content_metadata_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  field TEXT;
+  changed TEXT[] := '{}';
+  before_values JSONB := '{}';
+  after_values JSONB := '{}';
+  next_revision INTEGER;
+BEGIN
+  FOREACH field IN ARRAY content_metadata_tracked_fields() LOOP
+    IF old_row -> field IS DISTINCT FROM new_row -> field THEN
+      changed := array_append(changed, field);
+      before_values := before_values || jsonb_build_object(field, old_row -> field);
+      after_values := after_values || jsonb_build_object(field, new_row -> field);
+    END IF;
+  END LOOP;
+
+  IF array_length(changed, 1) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- The UPDATE holds the content row lock, so numbering cannot race
+  SELECT COALESCE(MAX(revision), 0) + 1 INTO next_revision
+  FROM content_metadata_revisions
+  WHERE content_id = NEW.id;
+
+  INSERT INTO content_metadata_revisions (
+    content_id, revision, changed_by, changed_fields, before, after, restored_from
+  ) VALUES (
+    NEW.id,
+    next_revision,
+    auth.uid(),
+    changed,
+    before_values,
+    after_values,
+    NULLIF(current_setting('app.restored_from_revision', true), '')::INTEGER
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_content_metadata_revision ON content_items;
+CREATE TRIGGER trigger_record_content_metadata_revision
+  AFTER UPDATE ON content_items
+  FOR EACH ROW
+  EXECUTE FUNCTION record_content_metadata_revision();
+
+-- 4. Roll a content item back to its state right after revision_param
+-- (0 = before the first recorded change). license_type is left alone so
+-- BSL licensing keeps going through its eligibility check, and an album
+-- track's unlock_date so it keeps following the album release. Runs with the
+-- caller's RLS, so only the owning artist can restore.
+CREATE OR REPLACE FUNCTION restore_content_metadata_revision(
+  content_id_param UUID,
+  revision_param INTEGER
+)
+RETURNS SETOF content_metadata_revisions AS $$
+DECLARE
+  target JSONB := '{}';
+  past RECORD;
+  latest INTEGER;
+BEGIN
+  SELECT MAX(revision) INTO latest
+  FROM content_metadata_revisions
+  WHERE content_id = content_id_param;
+
+  IF latest IS NULL OR revision_param < 0 OR revision_param > latest THEN
+    RAISE EXCEPTION 'Revision % not found', revision_param USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Walk newer revisions from newest to oldest so the earliest "before" wins
+  FOR past IN
+    SELECT before FROM content_metadata_revisions
+    WHERE content_id = content_id_param AND revision > revision_param
+    ORDER BY revision DESC
+  LOOP
+    target := target || past.before;
+  END LOOP;
+
+  target := target - 'license_type';
+  IF EXISTS (SELECT 1 FROM content_items WHERE id = content_id_param AND album_id IS NOT NULL) THEN
+    target := target - 'unlock_date';
+  END IF;
+
+  IF target = '{}' THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.restored_from_revision', revision_param::TEXT, true);
+
+  UPDATE content_items SET
+    title = restored.title,
+    description = restored.description,
+    buy_link_url = restored.buy_link_url,
+    buy_link_title = restored.buy_link_title,
+    record_label = restored.record_label,
+    publisher = restored.publisher,
+    p_line = restored.p_line,
+    isrc = restored.isrc,
+    release_date = restored.release_date,
+    explicit = restored.explicit,
+    is_premium = restored.is_premium,
+    unlock_date = restored.unlock_date,
+    enable_direct_downloads = restored.enable_direct_downloads,
+    offline_listening = restored.offline_listening,
+    include_in_rss = restored.include_in_rss,
+    display_embed_code = restored.display_embed_code,
+    enable_app_playback = restored.enable_app_playback,
+    allow_comments = restored.allow_comments,
+    show_comments_public = restored.show_comments_public,
+    show_insights_public = restored.show_insights_public,
+    availability_scope = restored.availability_scope,
+    availability_regions = restored.availability_regions,
+    preview_clip = restored.preview_clip,
+    metadata = restored.metadata,
+    updated_at = now()
+  FROM (
+    SELECT (jsonb_populate_record(current_item, target)).*
+    FROM content_items current_item
+    WHERE current_item.id = content_id_param
+  ) restored
+  WHERE content_items.id = content_id_param;
+
+  PERFORM set_config('app.restored_from_revision', '', true);
+
+  -- Only the revision this restore wrote; none when the item already matched
+  RETURN QUERY
+    SELECT * FROM content_metadata_revisions
+    WHERE content_id = content_id_param AND revision > latest
+    ORDER BY revision DESC
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
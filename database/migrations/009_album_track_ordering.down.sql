@@ -0,0 +1,14 @@
+-- Reverts 009_album_track_ordering.sql (normalized track numbers are kept)
+DROP FUNCTION IF EXISTS reorder_album_tracks(UUID, UUID[]);
+DROP FUNCTION IF EXISTS detach_album_tracks(UUID, UUID[]);
+DROP FUNCTION IF EXISTS attach_album_tracks(UUID, UUID[], INTEGER);
+DROP TRIGGER IF EXISTS sync_album_name_to_tracks_trigger ON albums;
+DROP FUNCTION IF EXISTS sync_album_name_to_tracks();
+DROP TRIGGER IF EXISTS close_album_track_gap_trigger ON content_items;
+DROP FUNCTION IF EXISTS close_album_track_gap();
+DROP TRIGGER IF EXISTS sync_content_album_fields_trigger ON content_items;
+DROP FUNCTION IF EXISTS sync_content_album_fields();
+DROP FUNCTION IF EXISTS apply_album_track_order(UUID, UUID[]);
+DROP FUNCTION IF EXISTS renumber_album_tracks(UUID);
+ALTER TABLE content_items DROP CONSTRAINT IF EXISTS content_items_track_number_positive;
+ALTER TABLE content_items DROP CONSTRAINT IF EXISTS content_items_album_track_unique;
@@ -0,0 +1,237 @@
+-- ===============================================
+-- ALBUM TRACK ORDERING
+-- ===============================================
+-- Keeps track_number contiguous (1..n) and unique per album, keeps the
+-- denormalized album_name in sync, and provides transactional functions to
+-- attach, detach and reorder an album's tracks
+
+-- 1. Normalize existing tracklists before enforcing uniqueness
+UPDATE content_items ci
+SET track_number = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (
+    PARTITION BY album_id
+    ORDER BY track_number NULLS LAST, created_at, id
+  ) AS position
+  FROM content_items
+  WHERE album_id IS NOT NULL
+) ordered
+WHERE ci.id = ordered.id
+  AND ci.track_number IS DISTINCT FROM ordered.position;
+
+UPDATE content_items ci
+SET album_name = albums.name
+FROM albums
+WHERE ci.album_id = albums.id
+  AND ci.album_name IS DISTINCT FROM albums.name;
+
+UPDATE content_items
+SET track_number = NULL, album_name = NULL
+WHERE album_id IS NULL
+  AND (track_number IS NOT NULL OR album_name IS NOT NULL);
+
+-- Deferred so a reorder can pass through duplicate numbers mid-transaction
+ALTER TABLE content_items
+  ADD CONSTRAINT content_items_album_track_unique
+  UNIQUE (album_id, track_number) DEFERRABLE INITIALLY DEFERRED;
+
+ALTER TABLE content_items
+  ADD CONSTRAINT content_items_track_number_positive
+  CHECK (track_number IS NULL OR track_number >= 1);
+
+-- 2. Renumber an album 1..n keeping the current relative order
+CREATE OR REPLACE FUNCTION renumber_album_tracks(album_id_param UUID)
+RETURNS VOID AS $$
+  UPDATE content_items ci
+  SET track_number = ordered.position
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY track_number NULLS LAST, created_at, id) AS position
+    FROM content_items
+    WHERE album_id = album_id_param
+  ) ordered
+  WHERE ci.id = ordered.id
+    AND ci.track_number IS DISTINCT FROM ordered.position;
+$$ LANGUAGE sql;
+
+-- Number an album's tracks in exactly the given order
+CREATE OR REPLACE FUNCTION apply_album_track_order(album_id_param UUID, content_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE content_items ci
+  SET track_number = ordered.position
+  FROM unnest(content_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE ci.id = ordered.id
+    AND ci.album_id = album_id_param
+    AND ci.track_number IS DISTINCT FROM ordered.position;
+$$ LANGUAGE sql;
+
+-- 3. album_name follows album_id; leaving an album clears the track number
+CREATE OR REPLACE FUNCTION sync_content_album_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.album_id IS NULL THEN
+    NEW.album_name := NULL;
+    NEW.track_number := NULL;
+  ELSIF TG_OP = 'INSERT' OR NEW.album_id IS DISTINCT FROM OLD.album_id THEN
+    SELECT name INTO NEW.album_name FROM albums WHERE id = NEW.album_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_content_album_fields_trigger ON content_items;
+CREATE TRIGGER sync_content_album_fields_trigger
+  BEFORE INSERT OR UPDATE OF album_id ON content_items
+  FOR EACH ROW EXECUTE FUNCTION sync_content_album_fields();
+
+-- Close the gap a track leaves behind when it is deleted or moved away
+CREATE OR REPLACE FUNCTION close_album_track_gap()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.album_id IS NOT NULL AND (TG_OP = 'DELETE' OR NEW.album_id IS DISTINCT FROM OLD.album_id) THEN
+    PERFORM renumber_album_tracks(OLD.album_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS close_album_track_gap_trigger ON content_items;
+CREATE TRIGGER close_album_track_gap_trigger
+  AFTER DELETE OR UPDATE OF album_id ON content_items
+  FOR EACH ROW EXECUTE FUNCTION close_album_track_gap();
+
+-- Renaming an album renames it on its tracks
+CREATE OR REPLACE FUNCTION sync_album_name_to_tracks()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE content_items SET album_name = NEW.name WHERE album_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_album_name_to_tracks_trigger ON albums;
+CREATE TRIGGER sync_album_name_to_tracks_trigger
+  AFTER UPDATE OF name ON albums
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION sync_album_name_to_tracks();
+
+-- 4. Tracklist operations. All run with the caller's RLS and lock the album
+-- row so concurrent edits of one tracklist apply one after the other.
+-- Errors: P0002 album not found, 22023 invalid track list.
+
+-- Attach tracks (moving them from other albums if needed) at position_param,
+-- or at the end when it is NULL. Tracks already on the album are moved.
+CREATE OR REPLACE FUNCTION attach_album_tracks(
+  album_id_param UUID,
+  content_ids UUID[],
+  position_param INTEGER DEFAULT NULL
+)
+RETURNS SETOF content_items AS $$
+DECLARE
+  target_album albums%ROWTYPE;
+  remaining UUID[];
+  insert_at INTEGER;
+BEGIN
+  SELECT * INTO target_album FROM albums WHERE id = album_id_param FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Album not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF COALESCE(cardinality(content_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'No tracks given' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(content_ids) <> (SELECT COUNT(DISTINCT id) FROM unnest(content_ids) AS id) THEN
+    RAISE EXCEPTION 'Track list contains duplicates' USING ERRCODE = '22023';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM content_items
+    WHERE id = ANY(content_ids) AND artist_id = target_album.artist_id
+  ) <> cardinality(content_ids) THEN
+    RAISE EXCEPTION 'Tracks must exist and belong to the album''s artist' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(array_agg(id ORDER BY track_number), '{}') INTO remaining
+  FROM content_items
+  WHERE album_id = album_id_param AND NOT (id = ANY(content_ids));
+
+  IF position_param IS NOT NULL AND position_param < 1 THEN
+    RAISE EXCEPTION 'Position must be at least 1' USING ERRCODE = '22023';
+  END IF;
+  insert_at := LEAST(COALESCE(position_param, cardinality(remaining) + 1), cardinality(remaining) + 1);
+
+  UPDATE content_items
+  SET album_id = album_id_param
+  WHERE id = ANY(content_ids)
+    AND album_id IS DISTINCT FROM album_id_param;
+
+  PERFORM apply_album_track_order(
+    album_id_param,
+    remaining[1:insert_at - 1] || content_ids || remaining[insert_at:]
+  );
+
+  RETURN QUERY
+    SELECT * FROM content_items WHERE album_id = album_id_param ORDER BY track_number;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Remove tracks from the album; the rest close up in their current order
+CREATE OR REPLACE FUNCTION detach_album_tracks(album_id_param UUID, content_ids UUID[])
+RETURNS SETOF content_items AS $$
+BEGIN
+  PERFORM 1 FROM albums WHERE id = album_id_param FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Album not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF COALESCE(cardinality(content_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'No tracks given' USING ERRCODE = '22023';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM content_items
+    WHERE id IN (SELECT DISTINCT unnest(content_ids)) AND album_id = album_id_param
+  ) <> (SELECT COUNT(DISTINCT id) FROM unnest(content_ids) AS id) THEN
+    RAISE EXCEPTION 'Tracks are not on this album' USING ERRCODE = '22023';
+  END IF;
+
+  -- sync_content_album_fields clears track_number and album_name,
+  -- close_album_track_gap renumbers what is left
+  UPDATE content_items SET album_id = NULL WHERE id = ANY(content_ids);
+
+  RETURN QUERY
+    SELECT * FROM content_items WHERE album_id = album_id_param ORDER BY track_number;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Replace the album's order; content_ids must list every track exactly once
+CREATE OR REPLACE FUNCTION reorder_album_tracks(album_id_param UUID, content_ids UUID[])
+RETURNS SETOF content_items AS $$
+BEGIN
+  PERFORM 1 FROM albums WHERE id = album_id_param FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Album not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF COALESCE(cardinality(content_ids), 0) <> (SELECT COUNT(DISTINCT id) FROM unnest(content_ids) AS id)
+    OR EXISTS (
+      SELECT id FROM content_items WHERE album_id = album_id_param
+      EXCEPT
+      SELECT unnest(content_ids)
+    )
+    OR EXISTS (
+      SELECT unnest(content_ids)
+      EXCEPT
+      SELECT id FROM content_items WHERE album_id = album_id_param
+    )
+  THEN
+    RAISE EXCEPTION 'Track order must list every track on the album exactly once' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM apply_album_track_order(album_id_param, content_ids);
+
+  RETURN QUERY
+    SELECT * FROM content_items WHERE album_id = album_id_param ORDER BY track_number;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,31 @@
+-- Reverts 010_album_release_workflow.sql (release state is lost; track
+-- unlock dates are left as they are)
+DROP FUNCTION IF EXISTS publish_due_album_releases();
+DROP FUNCTION IF EXISTS transition_album_release(UUID, TEXT, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS album_release_problems(UUID);
+
+-- Restore the 009 version of the trigger function
+CREATE OR REPLACE FUNCTION sync_content_album_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.album_id IS NULL THEN
+    NEW.album_name := NULL;
+    NEW.track_number := NULL;
+  ELSIF TG_OP = 'INSERT' OR NEW.album_id IS DISTINCT FROM OLD.album_id THEN
+    SELECT name INTO NEW.album_name FROM albums WHERE id = NEW.album_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP POLICY IF EXISTS "Public can view released albums" ON albums;
+CREATE POLICY "Public can view albums" ON albums
+  FOR SELECT USING (true);
+
+DROP INDEX IF EXISTS idx_albums_scheduled_release;
+ALTER TABLE albums
+  DROP COLUMN IF EXISTS status_changed_at,
+  DROP COLUMN IF EXISTS withdrawn_at,
+  DROP COLUMN IF EXISTS released_at,
+  DROP COLUMN IF EXISTS release_at,
+  DROP COLUMN IF EXISTS release_status;
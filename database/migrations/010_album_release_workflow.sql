@@ -0,0 +1,206 @@
+-- ===============================================
+-- ALBUM RELEASE WORKFLOW
+-- ===============================================
+-- Albums move through draft -> scheduled -> released -> withdrawn. Scheduling
+-- checks the album is ready (artwork, tracklist, ISRCs, licenses) and copies
+-- the release time to every track's unlock_date; publish_due_album_releases()
+-- is run by the API's release scheduler to flip scheduled albums to released.
+
+-- 1. Release state on albums
+ALTER TABLE albums
+  ADD COLUMN IF NOT EXISTS release_status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (release_status IN ('draft', 'scheduled', 'released', 'withdrawn')),
+  ADD COLUMN IF NOT EXISTS release_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS released_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS withdrawn_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- Existing albums were already public: past (or missing) release dates are
+-- released, future ones become scheduled for midnight UTC of that date
+UPDATE albums SET
+  release_status = CASE WHEN release_date > current_date THEN 'scheduled' ELSE 'released' END,
+  release_at = COALESCE(release_date::TIMESTAMP, created_at) AT TIME ZONE 'UTC',
+  released_at = CASE WHEN release_date > current_date THEN NULL
+    ELSE COALESCE(release_date::TIMESTAMP, created_at) AT TIME ZONE 'UTC' END;
+
+-- Tracks of albums scheduled above stay locked until the release, as
+-- transition_album_release() does when an album is scheduled
+UPDATE content_items ci SET unlock_date = a.release_at AT TIME ZONE 'UTC'
+FROM albums a
+WHERE ci.album_id = a.id
+  AND a.release_status = 'scheduled'
+  AND ci.unlock_date IS DISTINCT FROM a.release_at AT TIME ZONE 'UTC';
+
+CREATE INDEX IF NOT EXISTS idx_albums_scheduled_release
+  ON albums(release_at) WHERE release_status = 'scheduled';
+
+-- Only released albums are publicly discoverable; artists still see their own
+-- through "Artists can manage their albums"
+DROP POLICY IF EXISTS "Public can view albums" ON albums;
+CREATE POLICY "Public can view released albums" ON albums
+  FOR SELECT USING (release_status = 'released');
+
+-- 2. Readiness: one row per problem that blocks scheduling or releasing
+CREATE OR REPLACE FUNCTION album_release_problems(album_id_param UUID)
+RETURNS TABLE(field TEXT, message TEXT) AS $$
+  SELECT 'artwork_url', 'Album artwork is required'
+  FROM albums
+  WHERE id = album_id_param AND COALESCE(artwork_url, '') = ''
+  UNION ALL
+  SELECT 'tracks', 'Album has no tracks'
+  WHERE NOT EXISTS (SELECT 1 FROM content_items WHERE album_id = album_id_param)
+  UNION ALL
+  SELECT * FROM (
+    SELECT 'tracks[' || track_number || '].isrc', 'Track "' || title || '" has no ISRC'
+    FROM content_items
+    WHERE album_id = album_id_param AND COALESCE(isrc, '') = ''
+    ORDER BY track_number
+  ) missing_isrc
+  UNION ALL
+  SELECT * FROM (
+    SELECT 'tracks[' || track_number || '].license_type', 'Track "' || title || '" has no license'
+    FROM content_items
+    WHERE album_id = album_id_param AND license_type IS NULL
+    ORDER BY track_number
+  ) missing_license
+$$ LANGUAGE sql STABLE;
+
+-- 3. Tracks joining an unreleased album are locked until it is released;
+-- tracks cannot be added once an album is scheduled or released.
+-- Otherwise as in 009_album_track_ordering.sql.
+CREATE OR REPLACE FUNCTION sync_content_album_fields()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_status TEXT;
+BEGIN
+  IF NEW.album_id IS NULL THEN
+    NEW.album_name := NULL;
+    NEW.track_number := NULL;
+    -- A track leaving an album it was locked by becomes visible again
+    IF TG_OP = 'UPDATE' AND OLD.album_id IS NOT NULL AND NEW.unlock_date = 'infinity' THEN
+      NEW.unlock_date := NULL;
+    END IF;
+  ELSIF TG_OP = 'INSERT' OR NEW.album_id IS DISTINCT FROM OLD.album_id THEN
+    SELECT name, release_status INTO NEW.album_name, target_status
+    FROM albums WHERE id = NEW.album_id;
+
+    IF target_status IN ('scheduled', 'released') THEN
+      RAISE EXCEPTION 'Tracks cannot be added to a % album', target_status USING ERRCODE = '55000';
+    END IF;
+    NEW.unlock_date := 'infinity';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. State machine. Runs with the caller's RLS and locks the album row.
+-- Errors: P0002 album not found, 55000 transition not allowed,
+-- 22023 album not ready or invalid release time.
+--
+--   draft     -> scheduled (release_at in the future) | released (now)
+--   scheduled -> scheduled (reschedule) | draft | released (now)
+--   released  -> withdrawn
+--   withdrawn -> draft
+CREATE OR REPLACE FUNCTION transition_album_release(
+  album_id_param UUID,
+  target_status TEXT,
+  release_at_param TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS SETOF albums AS $$
+DECLARE
+  album albums%ROWTYPE;
+  problems TEXT;
+  effective_release TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO album FROM albums WHERE id = album_id_param FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Album not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF (album.release_status, target_status) NOT IN (
+    ('draft', 'scheduled'), ('draft', 'released'),
+    ('scheduled', 'scheduled'), ('scheduled', 'draft'), ('scheduled', 'released'),
+    ('released', 'withdrawn'),
+    ('withdrawn', 'draft')
+  ) THEN
+    RAISE EXCEPTION 'Cannot move a % album to %', album.release_status, target_status
+      USING ERRCODE = '55000';
+  END IF;
+
+  IF target_status IN ('scheduled', 'released') THEN
+    SELECT string_agg(message, '; ') INTO problems FROM album_release_problems(album_id_param);
+    IF problems IS NOT NULL THEN
+      RAISE EXCEPTION 'Album is not ready for release: %', problems USING ERRCODE = '22023';
+    END IF;
+
+    IF target_status = 'scheduled' THEN
+      IF release_at_param IS NULL OR release_at_param <= now() THEN
+        RAISE EXCEPTION 'release_at must be in the future' USING ERRCODE = '22023';
+      END IF;
+      effective_release := release_at_param;
+    ELSE
+      effective_release := now();
+    END IF;
+
+    UPDATE content_items SET unlock_date = effective_release AT TIME ZONE 'UTC', updated_at = now()
+    WHERE album_id = album_id_param;
+
+    UPDATE albums SET
+      release_status = target_status,
+      release_at = effective_release,
+      release_date = (effective_release AT TIME ZONE 'UTC')::DATE,
+      released_at = CASE WHEN target_status = 'released' THEN now() ELSE NULL END,
+      withdrawn_at = NULL,
+      status_changed_at = now(),
+      updated_at = now()
+    WHERE id = album_id_param;
+  ELSE
+    -- draft or withdrawn: lock the tracks again
+    UPDATE content_items SET unlock_date = 'infinity', updated_at = now()
+    WHERE album_id = album_id_param;
+
+    UPDATE albums SET
+      release_status = target_status,
+      release_at = CASE WHEN target_status = 'draft' THEN NULL ELSE release_at END,
+      released_at = CASE WHEN target_status = 'draft' THEN NULL ELSE released_at END,
+      withdrawn_at = CASE WHEN target_status = 'withdrawn' THEN now() ELSE NULL END,
+      status_changed_at = now(),
+      updated_at = now()
+    WHERE id = album_id_param;
+  END IF;
+
+  RETURN QUERY SELECT * FROM albums WHERE id = album_id_param;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- 5. Scheduler job: release every scheduled album whose time has come.
+-- SKIP LOCKED lets several API instances run it concurrently, and albums an
+-- artist is rescheduling right now are picked up on the next run.
+CREATE OR REPLACE FUNCTION publish_due_album_releases()
+RETURNS TABLE(album_id UUID, release_at TIMESTAMPTZ) AS $$
+  WITH due AS (
+    SELECT id FROM albums
+    WHERE release_status = 'scheduled' AND albums.release_at <= now()
+    ORDER BY albums.release_at
+    FOR UPDATE SKIP LOCKED
+  ), released AS (
+    UPDATE albums SET
+      release_status = 'released',
+      released_at = now(),
+      status_changed_at = now(),
+      updated_at = now()
+    FROM due
+    WHERE albums.id = due.id
+    RETURNING albums.id, albums.release_at
+  ), unlocked AS (
+    -- Re-assert the unlock time in case a track was edited after scheduling
+    UPDATE content_items ci SET unlock_date = released.release_at AT TIME ZONE 'UTC'
+    FROM released
+    WHERE ci.album_id = released.id
+      AND ci.unlock_date IS DISTINCT FROM released.release_at AT TIME ZONE 'UTC'
+  )
+  SELECT id, release_at FROM released;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION publish_due_album_releases() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION publish_due_album_releases() TO service_role;
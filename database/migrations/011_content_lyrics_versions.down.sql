@@ -0,0 +1,5 @@
+-- Reverts 011_content_lyrics_versions.sql (translations are lost; the
+-- original version stays in content_items.lyrics)
+DROP TABLE IF EXISTS content_lyrics;
+DROP FUNCTION IF EXISTS mirror_original_lyrics();
+DROP FUNCTION IF EXISTS demote_previous_original_lyrics();
@@ -0,0 +1,120 @@
+-- ===============================================
+-- LYRIC VERSIONS PER LANGUAGE
+-- ===============================================
+-- A content item can have lyrics in several languages: at most one original
+-- and any number of translations, each with its own rights clearance. The
+-- original is mirrored into content_items.lyrics for existing readers.
+
+-- 1. One row per content item and BCP 47 language tag (canonical casing,
+-- normalized by the API)
+CREATE TABLE IF NOT EXISTS content_lyrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id UUID NOT NULL REFERENCES content_items(id) ON DELETE CASCADE,
+  language TEXT NOT NULL CHECK (language ~ '^[A-Za-z]{2,8}(-[A-Za-z0-9]{1,8})*$'),
+  is_original BOOLEAN NOT NULL DEFAULT false,
+  text TEXT NOT NULL,
+  synchronized BOOLEAN NOT NULL DEFAULT false,
+  segments JSONB, -- [{tStartMs, tEndMs?, line, words?}], see utils/lyrics.ts
+  source_format TEXT CHECK (source_format IN ('lrc', 'ttml')),
+  rights_cleared BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP NOT NULL DEFAULT now(),
+  UNIQUE(content_id, language)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_lyrics_one_original
+  ON content_lyrics(content_id) WHERE is_original;
+
+-- 2. Existing lyrics become the original version
+INSERT INTO content_lyrics (
+  content_id, language, is_original, text, synchronized, segments, source_format, rights_cleared, created_at
+)
+SELECT
+  id,
+  CASE WHEN lyrics->>'language' ~ '^[A-Za-z]{2,8}(-[A-Za-z0-9]{1,8})*$'
+    THEN lyrics->>'language' ELSE 'en' END,
+  true,
+  lyrics->>'text',
+  COALESCE((lyrics->>'synchronized')::BOOLEAN, false),
+  lyrics->'segments',
+  lyrics->>'source_format',
+  COALESCE((lyrics->>'rights_cleared')::BOOLEAN, false),
+  COALESCE((lyrics->>'created_at')::TIMESTAMP, now())
+FROM content_items
+WHERE lyrics ? 'text' AND lyrics->>'text' IS NOT NULL
+ON CONFLICT (content_id, language) DO NOTHING;
+
+-- 3. Marking a version original demotes the previous original
+CREATE OR REPLACE FUNCTION demote_previous_original_lyrics()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE content_lyrics SET is_original = false, updated_at = now()
+  WHERE content_id = NEW.content_id AND is_original AND id <> NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS demote_previous_original_lyrics_trigger ON content_lyrics;
+CREATE TRIGGER demote_previous_original_lyrics_trigger
+  BEFORE INSERT OR UPDATE OF is_original ON content_lyrics
+  FOR EACH ROW
+  WHEN (NEW.is_original)
+  EXECUTE FUNCTION demote_previous_original_lyrics();
+
+-- 4. Keep content_items.lyrics equal to the original version. Keys other
+-- than the mirrored ones (e.g. process-lyrics extraction results) are kept.
+CREATE OR REPLACE FUNCTION mirror_original_lyrics()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_content UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.content_id ELSE NEW.content_id END;
+  original content_lyrics%ROWTYPE;
+BEGIN
+  SELECT * INTO original FROM content_lyrics WHERE content_id = target_content AND is_original;
+
+  IF NOT FOUND THEN
+    UPDATE content_items SET lyrics = NULL WHERE id = target_content AND lyrics IS NOT NULL;
+    RETURN NULL;
+  END IF;
+
+  UPDATE content_items SET lyrics =
+    (COALESCE(lyrics, '{}') - 'segments' - 'source_format')
+    || jsonb_build_object(
+      'text', original.text,
+      'language', original.language,
+      'synchronized', original.synchronized,
+      'rights_cleared', original.rights_cleared,
+      'created_at', original.created_at
+    )
+    || CASE WHEN original.segments IS NULL THEN '{}'
+      ELSE jsonb_build_object('segments', original.segments) END
+    || CASE WHEN original.source_format IS NULL THEN '{}'
+      ELSE jsonb_build_object('source_format', original.source_format) END
+  WHERE id = target_content;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS mirror_original_lyrics_trigger ON content_lyrics;
+CREATE TRIGGER mirror_original_lyrics_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON content_lyrics
+  FOR EACH ROW
+  WHEN (pg_trigger_depth() < 1)
+  EXECUTE FUNCTION mirror_original_lyrics();
+
+-- 5. Artists manage the versions of their content; fans see rights-cleared
+-- versions of content they can see
+ALTER TABLE content_lyrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Artists can manage their lyrics" ON content_lyrics
+  FOR ALL USING (
+    EXISTS(
+      SELECT 1 FROM content_items ci
+      JOIN artist_profiles ap ON ap.id = ci.artist_id
+      WHERE ci.id = content_id AND ap.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Viewers can see cleared lyrics" ON content_lyrics
+  FOR SELECT USING (
+    rights_cleared AND EXISTS(SELECT 1 FROM content_items ci WHERE ci.id = content_id)
+  );
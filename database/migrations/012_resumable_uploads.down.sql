@@ -0,0 +1,10 @@
+-- Reverts 012_resumable_uploads.sql (part objects of unfinished uploads stay
+-- in storage)
+DROP FUNCTION IF EXISTS reclaim_stalled_upload(UUID);
+DROP FUNCTION IF EXISTS append_upload_part(UUID, BIGINT, BIGINT, TEXT);
+DROP TABLE IF EXISTS content_upload_parts;
+DROP INDEX IF EXISTS idx_content_upload_log_pending_expiry;
+ALTER TABLE content_upload_log
+  DROP CONSTRAINT IF EXISTS content_upload_log_offset_check,
+  DROP COLUMN IF EXISTS expires_at,
+  DROP COLUMN IF EXISTS upload_offset;
@@ -0,0 +1,96 @@
+-- ===============================================
+-- RESUMABLE UPLOADS
+-- ===============================================
+-- The API's tus endpoints (/uploads) track each upload in content_upload_log.
+-- Every PATCH is stored as a part object next to the final file and recorded
+-- here; once the last byte arrives the parts are assembled into file_path.
+
+-- 1. Progress and expiry of an upload
+ALTER TABLE content_upload_log
+  ADD COLUMN IF NOT EXISTS upload_offset BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+ALTER TABLE content_upload_log
+  DROP CONSTRAINT IF EXISTS content_upload_log_offset_check,
+  ADD CONSTRAINT content_upload_log_offset_check
+    CHECK (upload_offset >= 0 AND upload_offset <= file_size);
+
+CREATE INDEX IF NOT EXISTS idx_content_upload_log_pending_expiry
+  ON content_upload_log(expires_at) WHERE upload_status = 'pending';
+
+-- 2. Received parts, in upload order by offset
+CREATE TABLE IF NOT EXISTS content_upload_parts (
+  upload_id UUID NOT NULL REFERENCES content_upload_log(id) ON DELETE CASCADE,
+  part_offset BIGINT NOT NULL CHECK (part_offset >= 0),
+  byte_length BIGINT NOT NULL CHECK (byte_length > 0),
+  storage_path TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (upload_id, part_offset)
+);
+
+ALTER TABLE content_upload_parts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their upload parts" ON content_upload_parts
+  FOR ALL USING (
+    EXISTS(SELECT 1 FROM content_upload_log log WHERE log.id = upload_id AND log.user_id = auth.uid())
+  );
+
+-- 3. Record a received part and advance the offset. Locks the upload so
+-- concurrent PATCHes for the same offset cannot both succeed; the upload
+-- moves to 'processing' when the last byte arrives.
+-- Errors: P0002 upload not found, 55000 not pending or offset mismatch,
+-- 22023 part runs past the declared length.
+CREATE OR REPLACE FUNCTION append_upload_part(
+  upload_id_param UUID,
+  expected_offset BIGINT,
+  part_length BIGINT,
+  part_path TEXT
+)
+RETURNS content_upload_log AS $$
+DECLARE
+  upload content_upload_log%ROWTYPE;
+BEGIN
+  SELECT * INTO upload FROM content_upload_log WHERE id = upload_id_param FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF upload.upload_status <> 'pending' THEN
+    RAISE EXCEPTION 'Upload is %', upload.upload_status USING ERRCODE = '55000';
+  END IF;
+
+  IF upload.upload_offset <> expected_offset THEN
+    RAISE EXCEPTION 'Upload-Offset % does not match the current offset %', expected_offset, upload.upload_offset
+      USING ERRCODE = '55000';
+  END IF;
+
+  IF expected_offset + part_length > upload.file_size THEN
+    RAISE EXCEPTION 'Part ends past the upload length %', upload.file_size USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO content_upload_parts (upload_id, part_offset, byte_length, storage_path)
+  VALUES (upload_id_param, expected_offset, part_length, part_path);
+
+  UPDATE content_upload_log SET
+    upload_offset = expected_offset + part_length,
+    upload_status = CASE WHEN expected_offset + part_length = file_size THEN 'processing' ELSE 'pending' END,
+    updated_at = now()
+  WHERE id = upload_id_param
+  RETURNING * INTO upload;
+
+  RETURN upload;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- 4. Assembly runs in the request that sent the last byte. If that request
+-- died, the upload stays 'processing' with no progress; after 15 minutes a
+-- retried PATCH or HEAD reclaims it here and assembles it again. The UPDATE
+-- re-checks the row under lock, so only one of several retries gets it.
+CREATE OR REPLACE FUNCTION reclaim_stalled_upload(upload_id_param UUID)
+RETURNS SETOF content_upload_log AS $$
+  UPDATE content_upload_log SET updated_at = now()
+  WHERE id = upload_id_param
+    AND upload_status = 'processing'
+    AND updated_at < now() - INTERVAL '15 minutes'
+  RETURNING *;
+$$ LANGUAGE sql SECURITY INVOKER;
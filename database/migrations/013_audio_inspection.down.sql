@@ -0,0 +1,10 @@
+-- Reverts 013_audio_inspection.sql
+DROP INDEX IF EXISTS idx_content_items_audio_checksum;
+ALTER TABLE content_items
+  DROP COLUMN IF EXISTS inspected_at,
+  DROP COLUMN IF EXISTS channels,
+  DROP COLUMN IF EXISTS bit_depth,
+  DROP COLUMN IF EXISTS sample_rate,
+  DROP COLUMN IF EXISTS duration_ms,
+  DROP COLUMN IF EXISTS audio_checksum,
+  DROP COLUMN IF EXISTS file_type;
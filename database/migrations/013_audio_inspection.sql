@@ -0,0 +1,35 @@
+-- ===============================================
+-- AUDIO FILE INSPECTION
+-- ===============================================
+-- Properties read from the uploaded file itself by utils/audio-inspector.ts,
+-- written when a resumable upload completes or on POST /content/:id/inspect.
+-- duration_seconds (001) is kept in step, rounded up.
+
+ALTER TABLE content_items
+  ADD COLUMN IF NOT EXISTS file_type TEXT,
+  ADD COLUMN IF NOT EXISTS audio_checksum TEXT, -- SHA-256 of the file
+  ADD COLUMN IF NOT EXISTS duration_ms INTEGER,
+  ADD COLUMN IF NOT EXISTS sample_rate INTEGER,
+  ADD COLUMN IF NOT EXISTS bit_depth SMALLINT, -- NULL for lossy formats
+  ADD COLUMN IF NOT EXISTS channels SMALLINT,
+  ADD COLUMN IF NOT EXISTS inspected_at TIMESTAMPTZ;
+
+-- Added separately so they also apply where the columns already existed
+ALTER TABLE content_items
+  DROP CONSTRAINT IF EXISTS content_items_file_type_check,
+  ADD CONSTRAINT content_items_file_type_check
+    CHECK (file_type IN ('mp3', 'wav', 'flac', 'aac', 'm4a')),
+  DROP CONSTRAINT IF EXISTS content_items_audio_checksum_check,
+  ADD CONSTRAINT content_items_audio_checksum_check
+    CHECK (audio_checksum ~ '^[0-9a-f]{64}$'),
+  DROP CONSTRAINT IF EXISTS content_items_duration_ms_check,
+  ADD CONSTRAINT content_items_duration_ms_check CHECK (duration_ms >= 0),
+  DROP CONSTRAINT IF EXISTS content_items_sample_rate_check,
+  ADD CONSTRAINT content_items_sample_rate_check CHECK (sample_rate > 0),
+  DROP CONSTRAINT IF EXISTS content_items_bit_depth_check,
+  ADD CONSTRAINT content_items_bit_depth_check CHECK (bit_depth > 0),
+  DROP CONSTRAINT IF EXISTS content_items_channels_check,
+  ADD CONSTRAINT content_items_channels_check CHECK (channels > 0);
+
+CREATE INDEX IF NOT EXISTS idx_content_items_audio_checksum
+  ON content_items(audio_checksum) WHERE audio_checksum IS NOT NULL;
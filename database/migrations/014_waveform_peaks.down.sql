@@ -0,0 +1,3 @@
+-- Reverts 014_waveform_peaks.sql
+ALTER TABLE content_items
+  DROP COLUMN IF EXISTS waveform_peaks;
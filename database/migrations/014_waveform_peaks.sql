@@ -0,0 +1,13 @@
+-- ===============================================
+-- WAVEFORM PEAKS
+-- ===============================================
+-- Min/max peaks per bucket at each configured resolution, produced by
+-- utils/waveform.ts from WAV and FLAC files when an upload completes or on
+-- POST /content/:id/inspect. Shape:
+--   { "version": 1, "bits": 8, "sample_rate": 44100, "channels": 2,
+--     "duration_ms": 180000, "resolutions": { "200": [min0, max0, ...] } }
+-- NULL when the format is not decoded (see Final_Consolidated_Schema.sql).
+
+ALTER TABLE content_items
+  ADD COLUMN IF NOT EXISTS waveform_peaks JSONB
+    CHECK (waveform_peaks IS NULL OR jsonb_typeof(waveform_peaks -> 'resolutions') = 'object');
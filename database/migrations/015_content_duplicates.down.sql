@@ -0,0 +1,4 @@
+-- Reverts 015_content_duplicates.sql
+DROP FUNCTION IF EXISTS find_content_duplicates(TEXT, TEXT, TEXT, INTEGER, UUID);
+DROP INDEX IF EXISTS idx_content_items_audio_title;
+DROP TABLE IF EXISTS content_duplicate_flags;
@@ -0,0 +1,94 @@
+-- ===============================================
+-- DUPLICATE AND RE-UPLOAD DETECTION
+-- ===============================================
+-- When an audio upload completes, the API looks for the same recording
+-- across the platform and records what it found and did here:
+--   blocked  the same file (checksum) belongs to another item; no item is created
+--   linked   the artist uploaded the same file again; the existing item is used
+--   flagged  same ISRC, or same title and duration, as another artist's item
+--   warned   same ISRC, or same title and duration, as one of the artist's own
+-- Blocked and flagged rows wait for admin review.
+
+-- 1. Detected duplicates
+CREATE TABLE IF NOT EXISTS content_duplicate_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  upload_id UUID REFERENCES content_upload_log(id) ON DELETE SET NULL,
+  uploader_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content_item_id UUID REFERENCES content_items(id) ON DELETE CASCADE, -- NULL when blocked
+  matched_content_id UUID NOT NULL REFERENCES content_items(id) ON DELETE CASCADE,
+  match_type TEXT NOT NULL CHECK (match_type IN ('checksum', 'isrc', 'title_duration')),
+  action TEXT NOT NULL CHECK (action IN ('blocked', 'linked', 'flagged', 'warned')),
+  review_status TEXT CHECK (review_status IN ('pending', 'dismissed', 'confirmed')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT content_duplicate_flags_review_check
+    CHECK ((action IN ('blocked', 'flagged')) = (review_status IS NOT NULL))
+);
+
+ALTER TABLE content_duplicate_flags ENABLE ROW LEVEL SECURITY;
+
+-- Artists see and record detections for their own uploads; reviews go
+-- through the service role
+CREATE POLICY "Users can view their duplicate flags" ON content_duplicate_flags
+  FOR SELECT USING (auth.uid() = uploader_id);
+
+CREATE POLICY "Users can record their duplicate flags" ON content_duplicate_flags
+  FOR INSERT WITH CHECK (
+    auth.uid() = uploader_id AND COALESCE(review_status, 'pending') = 'pending' AND reviewed_by IS NULL
+  );
+
+CREATE INDEX IF NOT EXISTS idx_content_duplicate_flags_pending
+  ON content_duplicate_flags(created_at) WHERE review_status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_content_duplicate_flags_uploader
+  ON content_duplicate_flags(uploader_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_duplicate_flags_upload
+  ON content_duplicate_flags(upload_id) WHERE upload_id IS NOT NULL;
+
+-- 2. Title lookups for the title + duration heuristic
+CREATE INDEX IF NOT EXISTS idx_content_items_audio_title
+  ON content_items(lower(btrim(title))) WHERE content_type = 'audio';
+
+-- 3. Items that look like the same recording, strongest match per item first.
+-- Runs as definer because artists cannot read each other's unpublished
+-- items; only the service role may call it, so it cannot be used to probe
+-- other catalogs by checksum or ISRC. Durations match within 2 seconds
+-- (encoder padding differs between copies of one master), falling back to
+-- duration_seconds for items not inspected yet.
+CREATE OR REPLACE FUNCTION find_content_duplicates(
+  checksum_param TEXT,
+  isrc_param TEXT,
+  title_param TEXT,
+  duration_ms_param INTEGER,
+  exclude_content_id UUID
+)
+RETURNS TABLE(content_id UUID, artist_id UUID, match_type TEXT) AS $$
+  SELECT DISTINCT ON (matches.id) matches.id, matches.artist_id, matches.match_type
+  FROM (
+    SELECT ci.id, ci.artist_id, 'checksum' AS match_type, 1 AS strength
+    FROM content_items ci
+    WHERE checksum_param IS NOT NULL AND ci.audio_checksum = checksum_param
+
+    UNION ALL
+
+    SELECT ci.id, ci.artist_id, 'isrc', 2
+    FROM content_items ci
+    WHERE isrc_param IS NOT NULL AND ci.isrc = isrc_param
+
+    UNION ALL
+
+    SELECT ci.id, ci.artist_id, 'title_duration', 3
+    FROM content_items ci
+    WHERE duration_ms_param IS NOT NULL
+      AND ci.content_type = 'audio'
+      AND lower(btrim(ci.title)) = lower(btrim(title_param))
+      AND abs(COALESCE(ci.duration_ms, ci.duration_seconds * 1000) - duration_ms_param) <= 2000
+  ) matches
+  WHERE matches.id IS DISTINCT FROM exclude_content_id
+  ORDER BY matches.id, matches.strength
+  LIMIT 50;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION find_content_duplicates(TEXT, TEXT, TEXT, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_content_duplicates(TEXT, TEXT, TEXT, INTEGER, UUID) TO service_role;
@@ -0,0 +1,10 @@
+-- Reverts 016_cover_art.sql (the cover-art bucket itself is removed in the
+-- Supabase dashboard)
+DELETE FROM storage.policies
+WHERE bucket_id = 'cover-art'
+  AND name IN (
+    'Artists can upload cover art',
+    'Artists can update their cover art',
+    'Artists can delete their cover art',
+    'Public can view cover art'
+  );
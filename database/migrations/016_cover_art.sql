@@ -0,0 +1,53 @@
+-- ===============================================
+-- COVER ART FROM EMBEDDED TAGS
+-- ===============================================
+-- Pictures embedded in uploaded audio (ID3 APIC, FLAC PICTURE, MP4 covr) are
+-- stored in their own bucket, once per image, under the uploader's folder.
+-- The tag values themselves are suggestions kept in
+-- content_items.metadata.suggested_metadata, so no columns are added.
+
+/*
+BUCKET CONFIGURATION TO CREATE IN SUPABASE DASHBOARD:
+
+4. COVER-ART BUCKET
+   - ID: cover-art
+   - Public: true
+   - File size limit: 5MB (5242880 bytes)
+   - Allowed MIME types: image/jpeg, image/png
+*/
+
+-- Policy: Artists can upload cover art
+INSERT INTO storage.policies (name, bucket_id, command, definition)
+VALUES (
+  'Artists can upload cover art',
+  'cover-art',
+  'INSERT',
+  '((bucket_id = ''cover-art''::text) AND ((storage.foldername(name))[1] = (auth.uid())::text))'
+) ON CONFLICT DO NOTHING;
+
+-- Policy: Artists can update their cover art (the same image stored again)
+INSERT INTO storage.policies (name, bucket_id, command, definition)
+VALUES (
+  'Artists can update their cover art',
+  'cover-art',
+  'UPDATE',
+  '((bucket_id = ''cover-art''::text) AND ((storage.foldername(name))[1] = (auth.uid())::text))'
+) ON CONFLICT DO NOTHING;
+
+-- Policy: Artists can delete their cover art
+INSERT INTO storage.policies (name, bucket_id, command, definition)
+VALUES (
+  'Artists can delete their cover art',
+  'cover-art',
+  'DELETE',
+  '((bucket_id = ''cover-art''::text) AND ((storage.foldername(name))[1] = (auth.uid())::text))'
+) ON CONFLICT DO NOTHING;
+
+-- Policy: Public can view cover art
+INSERT INTO storage.policies (name, bucket_id, command, definition)
+VALUES (
+  'Public can view cover art',
+  'cover-art',
+  'SELECT',
+  '(bucket_id = ''cover-art''::text)'
+) ON CONFLICT DO NOTHING;
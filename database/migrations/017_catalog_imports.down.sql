@@ -0,0 +1,31 @@
+-- Reverts 017_catalog_imports.sql. Tracks imported without audio must be
+-- given a file or deleted first, or restoring NOT NULL fails.
+CREATE OR REPLACE FUNCTION album_release_problems(album_id_param UUID)
+RETURNS TABLE(field TEXT, message TEXT) AS $$
+  SELECT 'artwork_url', 'Album artwork is required'
+  FROM albums
+  WHERE id = album_id_param AND COALESCE(artwork_url, '') = ''
+  UNION ALL
+  SELECT 'tracks', 'Album has no tracks'
+  WHERE NOT EXISTS (SELECT 1 FROM content_items WHERE album_id = album_id_param)
+  UNION ALL
+  SELECT * FROM (
+    SELECT 'tracks[' || track_number || '].isrc', 'Track "' || title || '" has no ISRC'
+    FROM content_items
+    WHERE album_id = album_id_param AND COALESCE(isrc, '') = ''
+    ORDER BY track_number
+  ) missing_isrc
+  UNION ALL
+  SELECT * FROM (
+    SELECT 'tracks[' || track_number || '].license_type', 'Track "' || title || '" has no license'
+    FROM content_items
+    WHERE album_id = album_id_param AND license_type IS NULL
+    ORDER BY track_number
+  ) missing_license
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS run_catalog_import(UUID);
+DROP FUNCTION IF EXISTS claim_catalog_import();
+DROP TABLE IF EXISTS catalog_import_jobs;
+
+ALTER TABLE content_items ALTER COLUMN file_path SET NOT NULL;
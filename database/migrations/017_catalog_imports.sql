@@ -0,0 +1,275 @@
+-- ===============================================
+-- BULK CATALOG IMPORT
+-- ===============================================
+-- POST /content/imports parses a CSV or DDEX ERN document into rows,
+-- validates them and queues a job here. The API's import worker claims
+-- queued jobs and applies them with run_catalog_import(), which creates or
+-- updates one track per row (matched on the artist's ISRC) and creates the
+-- albums they name. Imported tracks have no audio until it is uploaded with
+-- the track's content_id.
+
+-- 1. Tracks can exist before their audio file
+ALTER TABLE content_items ALTER COLUMN file_path DROP NOT NULL;
+
+-- 2. Import jobs. rows holds the parsed rows:
+--   { row, album: { name, release_date } | null, track_number, fields, errors }
+-- results holds one entry per row:
+--   { row, status: created | updated | failed | rolled_back, content_id, album_id, errors }
+CREATE TABLE IF NOT EXISTS catalog_import_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  artist_id UUID NOT NULL REFERENCES artist_profiles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'ddex')),
+  all_or_nothing BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  rows JSONB NOT NULL,
+  total_rows INTEGER NOT NULL CHECK (total_rows > 0),
+  succeeded_rows INTEGER NOT NULL DEFAULT 0,
+  failed_rows INTEGER NOT NULL DEFAULT 0,
+  results JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ
+);
+
+ALTER TABLE catalog_import_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Artists follow their own imports. Jobs are queued by the API after it has
+-- validated the rows and applied by the worker, both with the service role.
+CREATE POLICY "Artists can view their catalog imports" ON catalog_import_jobs
+  FOR SELECT USING (
+    EXISTS(SELECT 1 FROM artist_profiles WHERE user_id = auth.uid() AND id = artist_id)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_catalog_import_jobs_queued
+  ON catalog_import_jobs(created_at) WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_catalog_import_jobs_artist
+  ON catalog_import_jobs(artist_id, created_at DESC);
+
+-- 3. Claim the oldest queued job, or one whose worker died mid-run (a run is
+-- a single transaction, so anything still running after 15 minutes is
+-- gone). Safe to call from several instances.
+CREATE OR REPLACE FUNCTION claim_catalog_import()
+RETURNS SETOF catalog_import_jobs AS $$
+  UPDATE catalog_import_jobs SET status = 'running', started_at = now()
+  WHERE id = (
+    SELECT id FROM catalog_import_jobs
+    WHERE status = 'queued'
+      OR (status = 'running' AND started_at < now() - INTERVAL '15 minutes')
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql;
+
+-- 4. Apply a claimed job. Only the whitelisted columns of a row's fields are
+-- written; album_id and track_number come from the row's album alone, and
+-- BSL licensing stays with the BSL endpoints. Each row runs in its own
+-- subtransaction, so a row rejected by a constraint or trigger (ISRC format,
+-- ISRC taken, album already released) fails alone. With all_or_nothing, any failed row rolls
+-- back every other row too and the job fails. Albums the rows touched are
+-- renumbered in track_number order at the end.
+CREATE OR REPLACE FUNCTION run_catalog_import(job_id_param UUID)
+RETURNS catalog_import_jobs AS $$
+DECLARE
+  editable_columns CONSTANT TEXT[] := ARRAY[
+    'title', 'description', 'isrc', 'record_label', 'publisher', 'p_line', 'release_date', 'explicit',
+    'license_type', 'availability_scope', 'availability_regions', 'buy_link_url', 'buy_link_title'
+  ];
+  job catalog_import_jobs%ROWTYPE;
+  item JSONB;
+  row_fields JSONB;
+  row_metadata JSONB;
+  target_album_id UUID;
+  target_content_id UUID;
+  row_status TEXT;
+  results JSONB := '[]'::JSONB;
+  touched_albums UUID[] := '{}';
+  failures INTEGER := 0;
+  abandoned BOOLEAN := false;
+  rolled_back BOOLEAN := false;
+  job_error TEXT;
+BEGIN
+  SELECT * INTO job FROM catalog_import_jobs WHERE id = job_id_param FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF job.status <> 'running' THEN
+    RAISE EXCEPTION 'Import job is %', job.status USING ERRCODE = '55000';
+  END IF;
+
+  BEGIN
+    FOR item IN SELECT value FROM jsonb_array_elements(job.rows) LOOP
+      IF jsonb_array_length(COALESCE(item->'errors', '[]')) > 0 THEN
+        failures := failures + 1;
+        results := results || jsonb_build_object(
+          'row', item->'row', 'status', 'failed', 'content_id', NULL, 'album_id', NULL, 'errors', item->'errors'
+        );
+        CONTINUE;
+      END IF;
+
+      BEGIN
+        SELECT COALESCE(jsonb_object_agg(key, value), '{}') INTO row_fields
+        FROM jsonb_each(COALESCE(item->'fields', '{}'))
+        WHERE key = ANY(editable_columns);
+
+        row_metadata := CASE WHEN jsonb_typeof(item->'fields'->'metadata') = 'object'
+          THEN item->'fields'->'metadata' ELSE '{}' END;
+
+        IF row_fields->>'license_type' = 'bsl' THEN
+          RAISE EXCEPTION 'license_type bsl is enabled per track through the BSL endpoints'
+            USING ERRCODE = '22023';
+        END IF;
+
+        target_album_id := NULL;
+
+        IF item->'album' IS NOT NULL AND jsonb_typeof(item->'album') = 'object' THEN
+          SELECT id INTO target_album_id FROM albums
+          WHERE artist_id = job.artist_id AND name = item->'album'->>'name'
+          ORDER BY created_at
+          LIMIT 1
+          FOR UPDATE;
+
+          IF target_album_id IS NULL THEN
+            INSERT INTO albums (name, artist_id, release_date)
+            VALUES (item->'album'->>'name', job.artist_id, (item->'album'->>'release_date')::DATE)
+            RETURNING id INTO target_album_id;
+          END IF;
+
+          -- Numbered in row order after the album's existing tracks unless
+          -- the row gives a position
+          row_fields := row_fields || jsonb_build_object(
+            'album_id', target_album_id,
+            'track_number', COALESCE(
+              (item->>'track_number')::INTEGER,
+              (SELECT COALESCE(MAX(track_number), 0) + 1 FROM content_items WHERE album_id = target_album_id)
+            )
+          );
+          touched_albums := array_append(touched_albums, target_album_id);
+        END IF;
+
+        target_content_id := NULL;
+        IF row_fields->>'isrc' IS NOT NULL THEN
+          SELECT id INTO target_content_id FROM content_items
+          WHERE artist_id = job.artist_id AND isrc = row_fields->>'isrc';
+        END IF;
+
+        IF target_content_id IS NOT NULL THEN
+          -- Only the columns the row gives change
+          UPDATE content_items ci SET
+            (title, description, isrc, record_label, publisher, p_line, release_date, explicit,
+             license_type, availability_scope, availability_regions, buy_link_url, buy_link_title,
+             album_id, track_number) =
+            (SELECT r.title, r.description, r.isrc, r.record_label, r.publisher, r.p_line, r.release_date, r.explicit,
+                    r.license_type, r.availability_scope, r.availability_regions, r.buy_link_url, r.buy_link_title,
+                    r.album_id, r.track_number
+             FROM jsonb_populate_record(ci, row_fields) r),
+            metadata = COALESCE(ci.metadata, '{}') || row_metadata,
+            updated_at = now()
+          WHERE ci.id = target_content_id;
+          row_status := 'updated';
+        ELSE
+          INSERT INTO content_items (
+            artist_id, content_type, title, description, isrc, record_label, publisher, p_line,
+            release_date, explicit, license_type, availability_scope, availability_regions,
+            buy_link_url, buy_link_title, album_id, track_number, metadata
+          )
+          SELECT job.artist_id, 'audio', r.title, r.description, r.isrc, r.record_label, r.publisher, r.p_line,
+                 r.release_date, COALESCE(r.explicit, false), COALESCE(r.license_type, 'all_rights_reserved'),
+                 COALESCE(r.availability_scope, 'worldwide'), r.availability_regions,
+                 r.buy_link_url, r.buy_link_title, r.album_id, r.track_number,
+                 row_metadata || jsonb_build_object('import_job_id', job.id)
+          FROM jsonb_populate_record(NULL::content_items, row_fields) r
+          RETURNING id INTO target_content_id;
+          row_status := 'created';
+        END IF;
+
+        results := results || jsonb_build_object(
+          'row', item->'row', 'status', row_status, 'content_id', target_content_id,
+          'album_id', target_album_id, 'errors', '[]'::JSONB
+        );
+      EXCEPTION WHEN OTHERS THEN
+        failures := failures + 1;
+        results := results || jsonb_build_object(
+          'row', item->'row', 'status', 'failed', 'content_id', NULL, 'album_id', NULL,
+          'errors', jsonb_build_array(jsonb_build_object('field', 'row', 'message', SQLERRM))
+        );
+      END;
+    END LOOP;
+
+    PERFORM renumber_album_tracks(album_id) FROM (SELECT DISTINCT unnest(touched_albums) AS album_id) touched;
+
+    IF job.all_or_nothing AND failures > 0 THEN
+      abandoned := true;
+      RAISE EXCEPTION 'Catalog import abandoned';
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    -- Undoes every row of this block; results is a variable and survives
+    rolled_back := true;
+    job_error := CASE WHEN abandoned
+      THEN format('%s of %s rows failed; nothing was imported', failures, job.total_rows)
+      ELSE SQLERRM END;
+  END;
+
+  IF rolled_back THEN
+    SELECT COALESCE(jsonb_agg(
+      CASE WHEN entry->>'status' IN ('created', 'updated')
+        THEN entry || jsonb_build_object('status', 'rolled_back', 'content_id', NULL, 'album_id', NULL)
+        ELSE entry END
+    ), '[]') INTO results
+    FROM jsonb_array_elements(results) entry;
+  END IF;
+
+  UPDATE catalog_import_jobs SET
+    status = CASE WHEN rolled_back THEN 'failed' ELSE 'completed' END,
+    results = run_catalog_import.results,
+    succeeded_rows = CASE WHEN rolled_back THEN 0 ELSE job.total_rows - failures END,
+    failed_rows = failures,
+    error = job_error,
+    finished_at = now()
+  WHERE id = job_id_param
+  RETURNING * INTO job;
+
+  RETURN job;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION claim_catalog_import() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION run_catalog_import(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_catalog_import() TO service_role;
+GRANT EXECUTE ON FUNCTION run_catalog_import(UUID) TO service_role;
+
+-- 5. A track needs its audio before its album can be released.
+-- Otherwise as in 010_album_release_workflow.sql.
+CREATE OR REPLACE FUNCTION album_release_problems(album_id_param UUID)
+RETURNS TABLE(field TEXT, message TEXT) AS $$
+  SELECT 'artwork_url', 'Album artwork is required'
+  FROM albums
+  WHERE id = album_id_param AND COALESCE(artwork_url, '') = ''
+  UNION ALL
+  SELECT 'tracks', 'Album has no tracks'
+  WHERE NOT EXISTS (SELECT 1 FROM content_items WHERE album_id = album_id_param)
+  UNION ALL
+  SELECT * FROM (
+    SELECT 'tracks[' || track_number || '].isrc', 'Track "' || title || '" has no ISRC'
+    FROM content_items
+    WHERE album_id = album_id_param AND COALESCE(isrc, '') = ''
+    ORDER BY track_number
+  ) missing_isrc
+  UNION ALL
+  SELECT * FROM (
+    SELECT 'tracks[' || track_number || '].license_type', 'Track "' || title || '" has no license'
+    FROM content_items
+    WHERE album_id = album_id_param AND license_type IS NULL
+    ORDER BY track_number
+  ) missing_license
+  UNION ALL
+  SELECT * FROM (
+    SELECT 'tracks[' || track_number || '].file_path', 'Track "' || title || '" has no audio file'
+    FROM content_items
+    WHERE album_id = album_id_param AND file_path IS NULL
+    ORDER BY track_number
+  ) missing_audio
+$$ LANGUAGE sql STABLE;
@@ -1,5 +1,6 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
 import postgres from 'postgres'
+import { migrateUp } from './migrations'
 
 // Environment variables
 const DATABASE_URL = process.env.DATABASE_URL || ''
@@ -50,23 +51,13 @@ export const checkDatabaseConnection = async (): Promise<boolean> => {
 export const runMigrations = async (): Promise<void> => {
   try {
     console.log('🔄 Running database migrations...')
-    
-    // Check if tables exist, if not run initial schema
-    const tablesExist = await sql`
-      SELECT EXISTS (
-        SELECT FROM information_schema.tables 
-        WHERE table_schema = 'public' 
-        AND table_name = 'profiles'
-      );
-    `
-    
-    if (!tablesExist[0].exists) {
-      console.log('📋 Creating initial schema...')
-      // Here you would run your migration files
-      // For now, we'll just log that migrations need to be run manually
-      console.log('⚠️  Please run: npm run db:migrate to apply schema')
+
+    const applied = await migrateUp(sql)
+
+    if (applied.length > 0) {
+      console.log(`✅ Applied ${applied.length} migration(s)`)
     } else {
-      console.log('✅ Database schema already exists')
+      console.log('✅ Database schema is up to date')
     }
   } catch (error) {
     console.error('❌ Migration error:', error)
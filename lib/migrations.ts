@@ -0,0 +1,323 @@
+import { createHash } from 'crypto'
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import path from 'path'
+import type { Sql } from 'postgres'
+
+// Schema changes live only in database/migrations. The SQL files under
+// Documents/ are design notes and are never applied by the runner.
+export const MIGRATIONS_DIR = path.join(__dirname, '..', 'database', 'migrations')
+
+// Arbitrary constant shared by every runner so only one migrates at a time
+const MIGRATION_LOCK_ID = 727_001
+
+// Put this on its own line in a migration that cannot run inside a
+// transaction (e.g. CREATE INDEX CONCURRENTLY)
+const NO_TRANSACTION_DIRECTIVE = /^--\s*migrate:no-transaction\s*$/m
+
+const UP_FILE = /^(\d+)_([\w-]+)\.sql$/
+const DOWN_FILE = /^(\d+)_([\w-]+)\.down\.sql$/
+
+export interface Migration {
+  version: string
+  name: string
+  filename: string
+  checksum: string
+  sql: string
+  transactional: boolean
+  // Optional NNN_name.down.sql next to the up file
+  down?: { filename: string; sql: string; transactional: boolean }
+}
+
+export interface AppliedMigration {
+  version: string
+  name: string
+  filename: string
+  checksum: string
+  applied_at: Date
+  execution_ms: number
+}
+
+export type MigrationState = 'applied' | 'pending' | 'drifted' | 'missing'
+
+export interface MigrationStatus {
+  version: string
+  name: string
+  filename: string
+  state: MigrationState
+  applied_at: Date | null
+  reversible: boolean
+}
+
+export interface MigrateOptions {
+  dir?: string
+  dryRun?: boolean
+  // Stop after this version (inclusive)
+  to?: string
+  log?: (message: string) => void
+}
+
+export interface RollbackOptions {
+  dir?: string
+  dryRun?: boolean
+  steps?: number
+  log?: (message: string) => void
+}
+
+export class MigrationError extends Error {
+  constructor(message: string, public migrations: string[] = []) {
+    super(migrations.length > 0 ? `${message}: ${migrations.join(', ')}` : message)
+    this.name = 'MigrationError'
+  }
+}
+
+export function checksum(contents: string): string {
+  return createHash('sha256').update(contents).digest('hex')
+}
+
+// Reads NNN_name.sql files in version order, pairing each with its down file
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  if (!existsSync(dir)) {
+    throw new MigrationError(`Migrations directory not found: ${dir}`)
+  }
+
+  const files = readdirSync(dir).filter(file => file.endsWith('.sql')).sort()
+  const migrations = new Map<string, Migration>()
+
+  for (const filename of files) {
+    const match = filename.match(UP_FILE)
+    if (!match || DOWN_FILE.test(filename)) continue
+
+    const [, version, name] = match
+    if (migrations.has(version)) {
+      throw new MigrationError(`Duplicate migration version ${version}`, [migrations.get(version)!.filename, filename])
+    }
+
+    const contents = readFileSync(path.join(dir, filename), 'utf8')
+    migrations.set(version, {
+      version,
+      name,
+      filename,
+      checksum: checksum(contents),
+      sql: contents,
+      transactional: !NO_TRANSACTION_DIRECTIVE.test(contents)
+    })
+  }
+
+  for (const filename of files) {
+    const match = filename.match(DOWN_FILE)
+    if (!match) continue
+
+    const migration = migrations.get(match[1])
+    if (!migration) {
+      throw new MigrationError('Down migration has no matching up migration', [filename])
+    }
+
+    const contents = readFileSync(path.join(dir, filename), 'utf8')
+    migration.down = { filename, sql: contents, transactional: !NO_TRANSACTION_DIRECTIVE.test(contents) }
+  }
+
+  return [...migrations.values()].sort((a, b) => Number(a.version) - Number(b.version))
+}
+
+export async function ensureMigrationsTable(sql: Sql, migrations: Migration[] = []): Promise<void> {
+  const [{ exists }] = await sql`
+    SELECT EXISTS (
+      SELECT FROM information_schema.tables
+      WHERE table_schema = 'public'
+      AND table_name = 'schema_migrations'
+    )
+  `
+  if (exists) return
+
+  await sql.begin(async tx => {
+    await tx`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        execution_ms INTEGER NOT NULL DEFAULT 0
+      )
+    `
+    await tx`ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY`
+
+    // Adopt files recorded by the old scripts/migrate.js runner so they are not re-run
+    const [{ legacy }] = await tx`SELECT to_regclass('public.migrations') IS NOT NULL AS legacy`
+    if (!legacy) return
+
+    const recorded = await tx`SELECT filename, applied_at FROM migrations`
+    for (const row of recorded) {
+      const migration = migrations.find(m => m.filename === row.filename)
+      if (!migration) continue
+
+      await tx`
+        INSERT INTO schema_migrations (version, name, filename, checksum, applied_at)
+        VALUES (${migration.version}, ${migration.name}, ${migration.filename}, ${migration.checksum}, ${row.applied_at})
+        ON CONFLICT (version) DO NOTHING
+      `
+    }
+  })
+}
+
+export async function getAppliedMigrations(sql: Sql): Promise<AppliedMigration[]> {
+  return await sql<AppliedMigration[]>`
+    SELECT version, name, filename, checksum, applied_at, execution_ms
+    FROM schema_migrations
+    ORDER BY version::int
+  `
+}
+
+export async function getMigrationStatus(sql: Sql, dir: string = MIGRATIONS_DIR): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations(dir)
+  await ensureMigrationsTable(sql, migrations)
+  const applied = await getAppliedMigrations(sql)
+  return describe(migrations, applied)
+}
+
+// Applies pending migrations in version order, each in its own transaction.
+// Refuses to run while an applied migration was edited or deleted.
+export async function migrateUp(sql: Sql, options: MigrateOptions = {}): Promise<Migration[]> {
+  const log = options.log ?? console.log
+  const migrations = loadMigrations(options.dir)
+  await ensureMigrationsTable(sql, migrations)
+
+  return withLock(sql, async () => {
+    const applied = await getAppliedMigrations(sql)
+    assertNoDrift(describe(migrations, applied))
+
+    const appliedVersions = new Set(applied.map(m => m.version))
+    const pending = migrations.filter(m =>
+      !appliedVersions.has(m.version) &&
+      (options.to === undefined || Number(m.version) <= Number(options.to))
+    )
+
+    for (const migration of pending) {
+      if (options.dryRun) {
+        log(`[dry-run] would apply ${migration.filename}${migration.transactional ? '' : ' (no transaction)'}`)
+        continue
+      }
+
+      const started = Date.now()
+      await execute(sql, migration.sql, migration.transactional, async tx => {
+        await tx`
+          INSERT INTO schema_migrations (version, name, filename, checksum, execution_ms)
+          VALUES (${migration.version}, ${migration.name}, ${migration.filename}, ${migration.checksum}, ${Date.now() - started})
+        `
+      })
+      log(`Applied ${migration.filename} in ${Date.now() - started}ms`)
+    }
+
+    return pending
+  })
+}
+
+// Reverts the most recently applied migrations using their down files
+export async function migrateDown(sql: Sql, options: RollbackOptions = {}): Promise<Migration[]> {
+  const log = options.log ?? console.log
+  const steps = options.steps ?? 1
+  const migrations = loadMigrations(options.dir)
+  await ensureMigrationsTable(sql, migrations)
+
+  return withLock(sql, async () => {
+    const applied = await getAppliedMigrations(sql)
+    const targets = applied.slice(-steps).reverse().map(row => {
+      const migration = migrations.find(m => m.version === row.version)
+      if (!migration) throw new MigrationError('Applied migration file is missing', [row.filename])
+      if (migration.checksum !== row.checksum) throw new MigrationError('Applied migration was modified', [row.filename])
+      if (!migration.down) throw new MigrationError('Migration has no down file', [migration.filename])
+      return migration
+    })
+
+    for (const migration of targets) {
+      const down = migration.down!
+      if (options.dryRun) {
+        log(`[dry-run] would revert ${migration.filename} using ${down.filename}`)
+        continue
+      }
+
+      await execute(sql, down.sql, down.transactional, async tx => {
+        await tx`DELETE FROM schema_migrations WHERE version = ${migration.version}`
+      })
+      log(`Reverted ${migration.filename}`)
+    }
+
+    return targets
+  })
+}
+
+function describe(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] {
+  const byVersion = new Map(applied.map(row => [row.version, row]))
+
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const row = byVersion.get(migration.version)
+    return {
+      version: migration.version,
+      name: migration.name,
+      filename: migration.filename,
+      state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'drifted',
+      applied_at: row?.applied_at ?? null,
+      reversible: Boolean(migration.down)
+    }
+  })
+
+  // Recorded in the database but no longer on disk
+  for (const row of applied) {
+    if (!migrations.some(m => m.version === row.version)) {
+      statuses.push({
+        version: row.version,
+        name: row.name,
+        filename: row.filename,
+        state: 'missing',
+        applied_at: row.applied_at,
+        reversible: false
+      })
+    }
+  }
+
+  return statuses.sort((a, b) => Number(a.version) - Number(b.version))
+}
+
+function assertNoDrift(statuses: MigrationStatus[]) {
+  const drifted = statuses.filter(s => s.state === 'drifted').map(s => s.filename)
+  if (drifted.length > 0) {
+    throw new MigrationError('Applied migrations were modified after they ran; add a new migration instead', drifted)
+  }
+
+  const missing = statuses.filter(s => s.state === 'missing').map(s => s.filename)
+  if (missing.length > 0) {
+    throw new MigrationError('Applied migrations are missing from disk', missing)
+  }
+}
+
+// Runs the migration SQL and its bookkeeping atomically when possible
+async function execute(
+  sql: Sql,
+  body: string,
+  transactional: boolean,
+  record: (tx: Sql) => Promise<void>
+): Promise<void> {
+  if (transactional) {
+    await sql.begin(async tx => {
+      await tx.unsafe(body)
+      await record(tx as unknown as Sql)
+    })
+    return
+  }
+
+  await sql.unsafe(body)
+  await record(sql)
+}
+
+// Session-level advisory lock on a dedicated connection, so concurrent
+// deploys queue up instead of applying the same migration twice
+async function withLock<T>(sql: Sql, fn: () => Promise<T>): Promise<T> {
+  const connection = await sql.reserve()
+  try {
+    await connection`SELECT pg_advisory_lock(${MIGRATION_LOCK_ID})`
+    return await fn()
+  } finally {
+    await connection`SELECT pg_advisory_unlock(${MIGRATION_LOCK_ID})`
+    connection.release()
+  }
+}
@@ -0,0 +1,113 @@
+import { createClient, SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AuthenticationError, AuthorizationError } from './error-handling.ts'
+import { getRequestContext } from '../utils/request-context.ts'
+import type { Middleware, RouteContext } from '../api/route-registry.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+// Mirrors the user_role enum in 001_initial_schema.sql
+export type UserRole = 'fan' | 'artist' | 'brand' | 'developer' | 'admin'
+
+export interface AuthContext {
+  user: User
+  role: UserRole
+  // Client scoped to the caller's JWT so RLS policies apply
+  supabase: SupabaseClient
+}
+
+export interface AuthRequirement {
+  roles?: UserRole[]
+  // Ownership check against route params; admins bypass it like they bypass roles
+  owner?: (auth: AuthContext, ctx: RouteContext) => boolean | Promise<boolean>
+}
+
+const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+// Resolved once per request, shared by the middleware and the handler
+const authCache = new WeakMap<Request, Promise<AuthContext>>()
+
+export function getAuth(req: Request): Promise<AuthContext> {
+  let pending = authCache.get(req)
+  if (!pending) {
+    pending = resolveAuth(req)
+    authCache.set(req, pending)
+  }
+  return pending
+}
+
+// For endpoints that also accept anonymous callers
+export async function getOptionalAuth(req: Request): Promise<AuthContext | null> {
+  if (!req.headers.get('Authorization')) return null
+  return getAuth(req)
+}
+
+export function requireAuth(requirement: AuthRequirement = {}): Middleware {
+  return async (req, ctx, next) => {
+    const auth = await getAuth(req)
+
+    if (auth.role !== 'admin') {
+      if (requirement.roles && !requirement.roles.includes(auth.role)) {
+        throw new AuthorizationError(`This endpoint requires one of the roles: ${requirement.roles.join(', ')}`)
+      }
+
+      if (requirement.owner && !(await requirement.owner(auth, ctx))) {
+        throw new AuthorizationError('You do not have access to this resource')
+      }
+    }
+
+    return next()
+  }
+}
+
+// Managing content requires an artist account; handlers check ownership per item
+export const ARTIST_ONLY: AuthRequirement = { roles: ['artist'] }
+
+// Artist profile ID of an authenticated user
+export async function getArtistId(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('artist_profiles')
+    .select('id')
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !data) throw new Error('Artist profile not found')
+  return data.id
+}
+
+async function resolveAuth(req: Request): Promise<AuthContext> {
+  const authHeader = req.headers.get('Authorization')
+  const token = authHeader?.match(/^Bearer\s+(.+)$/i)?.[1]
+  if (!authHeader || !token) {
+    throw new AuthenticationError('No authorization header')
+  }
+
+  const { data: { user }, error: userError } = await adminClient.auth.getUser(token)
+  if (userError || !user) {
+    throw new AuthenticationError('Invalid user session')
+  }
+
+  const { data: profile, error: profileError } = await adminClient
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile) {
+    throw new AuthenticationError('User profile not found')
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    global: { headers: { Authorization: authHeader } }
+  })
+
+  const requestContext = getRequestContext()
+  if (requestContext) requestContext.userId = user.id
+
+  return { user, role: profile.role, supabase }
+}
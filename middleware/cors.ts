@@ -2,9 +2,10 @@ const allowedOrigins = (Deno.env.get('CORS_ORIGINS') || 'http://localhost:3000,h
 
 export const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key, x-request-id, tus-resumable, upload-length, upload-offset, upload-metadata',
+  'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, PATCH, DELETE, OPTIONS',
   'Access-Control-Max-Age': '86400', // 24 hours
+  'Access-Control-Expose-Headers': 'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After, Idempotent-Replayed, X-Request-Id, Location, Tus-Resumable, Tus-Version, Tus-Max-Size, Upload-Offset, Upload-Length, Upload-Expires',
 }
 
 export function handleCors(req: Request): Response | null {
@@ -1,11 +1,27 @@
 import { createErrorResponse } from '../utils/responses.ts'
+import { logger, serializeError } from '../utils/logger.ts'
+
+// HTTP status for each error code carried in ApiResponse.details.code
+export const ERROR_STATUS = {
+  VALIDATION_ERROR: 422,
+  AUTHENTICATION_ERROR: 401,
+  AUTHORIZATION_ERROR: 403,
+  NOT_FOUND: 404,
+  IDEMPOTENCY_KEY_IN_PROGRESS: 409,
+  IDEMPOTENCY_KEY_REUSED: 422,
+  DUPLICATE_CONTENT: 409,
+  RATE_LIMIT_ERROR: 429,
+  GEO_BLOCKED: 451
+} as const
+
+export type ErrorCode = keyof typeof ERROR_STATUS
 
 export class ApiError extends Error {
   public status: number
-  public code?: string
+  public code?: ErrorCode
   public details?: any
 
-  constructor(message: string, status: number = 500, code?: string, details?: any) {
+  constructor(message: string, status: number = 500, code?: ErrorCode, details?: any) {
     super(message)
     this.name = 'ApiError'
     this.status = status
@@ -16,42 +32,41 @@ export class ApiError extends Error {
 
 export class ValidationError extends ApiError {
   constructor(message: string, details?: any) {
-    super(message, 422, 'VALIDATION_ERROR', details)
+    super(message, ERROR_STATUS.VALIDATION_ERROR, 'VALIDATION_ERROR', details)
   }
 }
 
 export class AuthenticationError extends ApiError {
   constructor(message: string = 'Authentication required') {
-    super(message, 401, 'AUTHENTICATION_ERROR')
+    super(message, ERROR_STATUS.AUTHENTICATION_ERROR, 'AUTHENTICATION_ERROR')
   }
 }
 
 export class AuthorizationError extends ApiError {
   constructor(message: string = 'Insufficient permissions') {
-    super(message, 403, 'AUTHORIZATION_ERROR')
+    super(message, ERROR_STATUS.AUTHORIZATION_ERROR, 'AUTHORIZATION_ERROR')
   }
 }
 
 export class NotFoundError extends ApiError {
   constructor(resource: string) {
-    super(`${resource} not found`, 404, 'NOT_FOUND')
+    super(`${resource} not found`, ERROR_STATUS.NOT_FOUND, 'NOT_FOUND')
   }
 }
 
 export class RateLimitError extends ApiError {
   constructor(message: string = 'Rate limit exceeded') {
-    super(message, 429, 'RATE_LIMIT_ERROR')
+    super(message, ERROR_STATUS.RATE_LIMIT_ERROR, 'RATE_LIMIT_ERROR')
   }
 }
 
 export function handleError(error: Error): Response {
-  // Log error for debugging
-  console.error('API Error:', {
-    name: error.name,
-    message: error.message,
-    stack: error.stack,
-    timestamp: new Date().toISOString()
-  })
+  // Expected client errors are logged at warn, everything else at error
+  if (error instanceof ApiError && error.status < 500) {
+    logger.warn('request.error', { code: error.code, status: error.status, message: error.message })
+  } else {
+    logger.error('request.error', { error: serializeError(error) })
+  }
 
   if (error instanceof ApiError) {
     return createErrorResponse(
@@ -103,50 +118,3 @@ export function withErrorHandling(
     }
   }
 }
-
-// Rate limiting utility
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>()
-
-export function rateLimit(
-  maxRequests: number = 100,
-  windowMs: number = 15 * 60 * 1000 // 15 minutes
-) {
-  return (req: Request): Response | null => {
-    const forwardedFor = req.headers.get('X-Forwarded-For')
-    const realIp = req.headers.get('X-Real-IP')
-    const clientIp = forwardedFor?.split(',')[0] || realIp || 'unknown'
-    
-    const now = Date.now()
-    const key = `rate_limit:${clientIp}`
-    
-    const current = rateLimitStore.get(key)
-    
-    if (!current || now > current.resetTime) {
-      rateLimitStore.set(key, {
-        count: 1,
-        resetTime: now + windowMs
-      })
-      return null
-    }
-    
-    if (current.count >= maxRequests) {
-      return createErrorResponse(
-        `Rate limit exceeded. Try again in ${Math.ceil((current.resetTime - now) / 1000)} seconds.`,
-        429
-      )
-    }
-    
-    current.count++
-    return null
-  }
-}
-
-// Cleanup old rate limit entries periodically
-setInterval(() => {
-  const now = Date.now()
-  for (const [key, data] of rateLimitStore.entries()) {
-    if (now > data.resetTime) {
-      rateLimitStore.delete(key)
-    }
-  }
-}, 60 * 1000) // Clean up every minute 
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { createErrorResponse } from '../utils/responses.ts'
+import { lookupCountry } from '../utils/geoip.ts'
+import { logger } from '../utils/logger.ts'
+import { getRequestContext } from '../utils/request-context.ts'
+import { ERROR_STATUS } from './error-handling.ts'
+import { getClientIp } from './rate-limit.ts'
+
+export type AvailabilityScope = 'worldwide' | 'exclusive_regions' | 'blocked_regions'
+
+// The content_items columns the check reads
+export interface RegionRestricted {
+  availability_scope?: AvailabilityScope | null
+  availability_regions?: string[] | null
+}
+
+// Exclusive content is withheld from callers whose country cannot be resolved
+// (private address, not in the database, no database) unless this is 'allow'
+const allowUnknownCountry = Deno.env.get('GEOBLOCK_UNKNOWN_COUNTRY') === 'allow'
+
+// Caller's country from the local IP database, looked up once per request
+export async function resolveCountry(): Promise<string | null> {
+  const context = getRequestContext()
+  if (context && context.country !== undefined) return context.country
+
+  const country = await lookupCountry(getClientIp())
+  if (context) context.country = country
+  return country
+}
+
+export function isAvailableIn(content: RegionRestricted, country: string | null): boolean {
+  const regions = content.availability_regions ?? []
+
+  switch (content.availability_scope ?? 'worldwide') {
+    case 'exclusive_regions':
+      return country === null ? allowUnknownCountry : regions.includes(country)
+    case 'blocked_regions':
+      return country === null || !regions.includes(country)
+    default:
+      return true
+  }
+}
+
+// PostgREST or-filter for the rows isAvailableIn() accepts, so listings can
+// leave unavailable content out in the query and keep their pages full
+export function availabilityFilter(country: string | null): string {
+  const allowed = ['availability_scope.is.null', 'availability_scope.eq.worldwide']
+
+  if (country === null) {
+    allowed.push('availability_scope.eq.blocked_regions')
+    if (allowUnknownCountry) allowed.push('availability_scope.eq.exclusive_regions')
+  } else {
+    allowed.push(
+      `and(availability_scope.eq.exclusive_regions,availability_regions.cs.{${country}})`,
+      `and(availability_scope.eq.blocked_regions,or(availability_regions.is.null,availability_regions.not.cs.{${country}}))`
+    )
+  }
+
+  return allowed.join(',')
+}
+
+// 451 Unavailable For Legal Reasons when the caller's country may not access
+// the content, otherwise null
+export async function checkRegionAvailability(content: RegionRestricted): Promise<Response | null> {
+  if ((content.availability_scope ?? 'worldwide') === 'worldwide') return null
+
+  const country = await resolveCountry()
+  if (isAvailableIn(content, country)) return null
+
+  logger.info('geoblock.denied', { country, scope: content.availability_scope })
+  return createErrorResponse(
+    'This content is not available in your region',
+    ERROR_STATUS.GEO_BLOCKED,
+    { code: 'GEO_BLOCKED', country }
+  )
+}
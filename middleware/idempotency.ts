@@ -0,0 +1,150 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getOptionalAuth } from './auth.ts'
+import { ApiError, ERROR_STATUS, ValidationError } from './error-handling.ts'
+import { withHeaders } from '../utils/responses.ts'
+import { sha256Hex } from '../utils/crypto.ts'
+import type { Middleware } from '../api/route-registry.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+const MAX_KEY_LENGTH = 255
+
+// Handlers report most failures, transient ones included, as 400, so only
+// successes and client errors that repeat on retry are stored for replay
+const REPLAYABLE_ERROR_STATUSES = new Set([404, 409, 422])
+
+// A row of idempotency_keys (006_idempotency_keys.sql) as read for a replay
+interface IdempotencyKeyRecord {
+  id: string
+  request_fingerprint: string
+  response_status: number | null
+  response_body: string | null
+  response_headers: Record<string, string> | null
+  expires_at: string
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+// Replays the stored response for a repeated Idempotency-Key (per user, 24h).
+// Keys are scoped to the caller, so anonymous requests are never replayed.
+export function idempotency(): Middleware {
+  return async (req, ctx, next) => {
+    const key = req.headers.get('Idempotency-Key')
+    if (!key) return next()
+
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new ValidationError(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`)
+    }
+
+    const auth = await getOptionalAuth(req).catch(() => null)
+    if (!auth) return next()
+
+    const fingerprint = await sha256Hex(`${req.method} ${ctx.url.pathname}\n${await req.clone().text()}`)
+
+    const existing = await findKey(auth.user.id, key)
+    if (existing) {
+      return replay(existing, fingerprint)
+    }
+
+    const { data: record, error: insertError } = await supabase
+      .from('idempotency_keys')
+      .insert({
+        user_id: auth.user.id,
+        idempotency_key: key,
+        request_method: req.method,
+        request_path: ctx.url.pathname,
+        request_fingerprint: fingerprint
+      })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      // Lost the race against a concurrent retry with the same key
+      const concurrent = await findKey(auth.user.id, key)
+      if (concurrent) return replay(concurrent, fingerprint)
+      throw insertError
+    }
+
+    let response: Response
+    try {
+      response = await next()
+    } catch (error) {
+      await supabase.from('idempotency_keys').delete().eq('id', record.id)
+      throw error
+    }
+
+    // Anything else is released so the client can retry it with the same key
+    if (!isReplayable(response.status)) {
+      await supabase.from('idempotency_keys').delete().eq('id', record.id)
+      return response
+    }
+
+    await supabase
+      .from('idempotency_keys')
+      .update({
+        response_status: response.status,
+        response_body: await response.clone().text(),
+        response_headers: Object.fromEntries(response.headers)
+      })
+      .eq('id', record.id)
+
+    return response
+  }
+}
+
+function isReplayable(status: number): boolean {
+  return (status >= 200 && status < 300) || REPLAYABLE_ERROR_STATUSES.has(status)
+}
+
+async function findKey(userId: string, key: string): Promise<IdempotencyKeyRecord | null> {
+  const { data, error } = await supabase
+    .from('idempotency_keys')
+    .select('id, request_fingerprint, response_status, response_body, response_headers, expires_at')
+    .eq('user_id', userId)
+    .eq('idempotency_key', key)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  // Expired keys are free to reuse
+  if (new Date(data.expires_at).getTime() < Date.now()) {
+    await supabase.from('idempotency_keys').delete().eq('id', data.id)
+    return null
+  }
+
+  return data
+}
+
+function replay(record: IdempotencyKeyRecord, fingerprint: string): Response {
+  if (record.request_fingerprint !== fingerprint) {
+    throw new ApiError(
+      'Idempotency-Key was already used with a different request',
+      ERROR_STATUS.IDEMPOTENCY_KEY_REUSED,
+      'IDEMPOTENCY_KEY_REUSED'
+    )
+  }
+
+  if (record.response_status === null) {
+    throw new ApiError(
+      'A request with this Idempotency-Key is still being processed',
+      ERROR_STATUS.IDEMPOTENCY_KEY_IN_PROGRESS,
+      'IDEMPOTENCY_KEY_IN_PROGRESS'
+    )
+  }
+
+  // Headers such as Location and Tus-Resumable are part of the response
+  return withHeaders(
+    new Response(record.response_body, { status: record.response_status }),
+    {
+      ...record.response_headers,
+      'Idempotent-Replayed': 'true'
+    }
+  )
+}
@@ -0,0 +1,151 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getOptionalAuth } from './auth.ts'
+import { createRateLimitResponse, withHeaders } from '../utils/responses.ts'
+import { sha256Hex } from '../utils/crypto.ts'
+import { getRequestContext } from '../utils/request-context.ts'
+import type { Middleware } from '../api/route-registry.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+// What identifies a caller; 'user' and 'api_key' fall back to the IP when absent
+export type RateLimitKey = 'ip' | 'user' | 'api_key'
+
+export interface RateLimitPolicy {
+  name: string
+  limit: number
+  windowMs: number
+  keyBy: RateLimitKey
+}
+
+export interface WindowCounts {
+  current: number
+  previous: number
+}
+
+// Counts hits per key in fixed windows; the limiter derives a sliding window
+// from the current and previous window
+export interface RateLimitStore {
+  hit(key: string, windowStart: number, windowMs: number): Promise<WindowCounts>
+}
+
+export const RATE_LIMITS = {
+  default: { name: 'default', limit: 100, windowMs: 60 * 1000, keyBy: 'user' },
+  auth: { name: 'auth', limit: 5, windowMs: 60 * 1000, keyBy: 'ip' },
+  events: { name: 'events', limit: 60, windowMs: 60 * 1000, keyBy: 'user' }
+} satisfies Record<string, RateLimitPolicy>
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { windowMs: number; windows: Map<number, number> }>()
+  private lastSweep = Date.now()
+
+  async hit(key: string, windowStart: number, windowMs: number): Promise<WindowCounts> {
+    this.sweep()
+
+    const entry = this.counters.get(key) ?? { windowMs, windows: new Map<number, number>() }
+    const current = (entry.windows.get(windowStart) ?? 0) + 1
+    entry.windows.set(windowStart, current)
+
+    // Only the current and previous windows matter for the estimate
+    for (const start of entry.windows.keys()) {
+      if (start < windowStart - windowMs) entry.windows.delete(start)
+    }
+    this.counters.set(key, entry)
+
+    return { current, previous: entry.windows.get(windowStart - windowMs) ?? 0 }
+  }
+
+  // Drop keys whose callers went quiet, at most once a minute
+  private sweep() {
+    const now = Date.now()
+    if (now - this.lastSweep < 60 * 1000) return
+    this.lastSweep = now
+
+    for (const [key, entry] of this.counters.entries()) {
+      const latest = Math.max(...entry.windows.keys())
+      if (latest + 2 * entry.windowMs < now) this.counters.delete(key)
+    }
+  }
+}
+
+// Shared across API instances via the rate_limit_hit() function (005_rate_limits.sql)
+export class PostgresRateLimitStore implements RateLimitStore {
+  private supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+
+  async hit(key: string, windowStart: number, windowMs: number): Promise<WindowCounts> {
+    const { data, error } = await this.supabase.rpc('rate_limit_hit', {
+      key_param: key,
+      window_start_param: new Date(windowStart).toISOString(),
+      window_seconds: Math.ceil(windowMs / 1000)
+    })
+
+    if (error) throw error
+
+    const row = Array.isArray(data) ? data[0] : data
+    return { current: row?.current_count ?? 0, previous: row?.previous_count ?? 0 }
+  }
+}
+
+let store: RateLimitStore = Deno.env.get('RATE_LIMIT_STORE') === 'postgres'
+  ? new PostgresRateLimitStore()
+  : new MemoryRateLimitStore()
+
+export function setRateLimitStore(newStore: RateLimitStore) {
+  store = newStore
+}
+
+export function rateLimit(policy: RateLimitPolicy): Middleware {
+  return async (req, ctx, next) => {
+    const now = Date.now()
+    const windowStart = Math.floor(now / policy.windowMs) * policy.windowMs
+    const key = `${policy.name}:${await resolveKey(req, policy.keyBy)}`
+
+    const counts = await store.hit(key, windowStart, policy.windowMs)
+
+    // Sliding window estimate: the previous window counts in proportion to its overlap
+    const elapsed = (now - windowStart) / policy.windowMs
+    const estimated = counts.previous * (1 - elapsed) + counts.current
+    const resetSeconds = Math.ceil((windowStart + policy.windowMs - now) / 1000)
+
+    const headers: Record<string, string> = {
+      'RateLimit-Limit': String(policy.limit),
+      'RateLimit-Remaining': String(Math.max(0, Math.floor(policy.limit - estimated))),
+      'RateLimit-Reset': String(resetSeconds),
+      'RateLimit-Policy': `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`
+    }
+
+    if (estimated > policy.limit) {
+      return withHeaders(createRateLimitResponse(resetSeconds), {
+        ...headers,
+        'Retry-After': String(resetSeconds)
+      })
+    }
+
+    return withHeaders(await next(), headers)
+  }
+}
+
+// Resolved once per request by handleRequest, see resolveClientIp()
+export function getClientIp(): string {
+  return getRequestContext()?.clientIp ?? 'unknown'
+}
+
+async function resolveKey(req: Request, keyBy: RateLimitKey): Promise<string> {
+  if (keyBy === 'user') {
+    const auth = await getOptionalAuth(req).catch(() => null)
+    if (auth) return `user:${auth.user.id}`
+  }
+
+  if (keyBy === 'api_key') {
+    const apiKey = req.headers.get('X-API-Key') || req.headers.get('apikey')
+    // Hashed so raw keys never sit in the counter store
+    if (apiKey) return `api_key:${await sha256Hex(apiKey)}`
+  }
+
+  return `ip:${getClientIp()}`
+}
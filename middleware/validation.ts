@@ -1,51 +1,231 @@
-interface ValidationSchema {
-  [key: string]: 'string' | 'number' | 'boolean' | 'object' | 'array'
+import { isCountryCode } from '../utils/countries.ts'
+
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'
+
+export type StringFormat = 'email' | 'password' | 'uuid' | 'url' | 'date' | 'date-time' | 'isrc' | 'language-tag' | 'country-code'
+
+// Full form of a field rule. The bare type string ('string', 'array', ...)
+// is shorthand for a required field of that type.
+export interface FieldSchema {
+  type: FieldType
+  optional?: boolean
+  nullable?: boolean
+  enum?: readonly (string | number)[]
+  format?: StringFormat
+  minLength?: number // strings; defaults to 1 so empty strings are rejected
+  maxLength?: number
+  min?: number // numbers
+  max?: number
+  minItems?: number // arrays
+  maxItems?: number
+  items?: FieldType | FieldSchema
+  properties?: ValidationSchema // nested objects
+  additionalProperties?: boolean // false rejects keys not listed in properties
+}
+
+export interface ValidationSchema {
+  [key: string]: FieldType | FieldSchema
+}
+
+// Top-level schemas that reject any field they do not list
+const strictSchemas = new WeakSet<ValidationSchema>()
+
+// Marks a schema as a whitelist, e.g. the editable fields of an update endpoint
+export function strictSchema<T extends ValidationSchema>(schema: T): T {
+  strictSchemas.add(schema)
+  return schema
+}
+
+export function isStrictSchema(schema: ValidationSchema): boolean {
+  return strictSchemas.has(schema)
+}
+
+export interface ValidationIssue {
+  field: string
+  message: string
 }
 
 export class ValidationError extends Error {
-  constructor(message: string) {
+  public errors: ValidationIssue[]
+
+  constructor(message: string, errors: ValidationIssue[] = []) {
     super(message)
     this.name = 'ValidationError'
+    this.errors = errors
   }
 }
 
+export const FORMAT_PATTERNS: Record<Exclude<StringFormat, 'email' | 'password' | 'url' | 'language-tag' | 'country-code'>, RegExp> = {
+  'uuid': /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  'date': /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/,
+  // Same rule as the validate_isrc_format() trigger: CC XXX YY NNNNN, no dashes
+  'isrc': /^[A-Z]{2}[A-Z0-9]{3}[0-9]{7}$/
+}
+
+// Date.parse rolls impossible days over (2024-02-31 becomes March 2), so the
+// year, month and day of a date or date-time must survive Date.UTC unchanged
+export function isCalendarDate(value: string): boolean {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
 export async function validateRequest(req: Request, schema: ValidationSchema): Promise<any> {
   let body: any
 
   try {
     body = await req.json()
   } catch {
-    throw new ValidationError('Invalid JSON in request body')
+    throw new ValidationError('Invalid JSON in request body', [
+      { field: 'body', message: 'Invalid JSON in request body' }
+    ])
   }
 
-  const errors: string[] = []
+  const errors = validateData(body, schema)
 
-  for (const [field, type] of Object.entries(schema)) {
-    const value = body[field]
+  if (errors.length > 0) {
+    throw new ValidationError(
+      `Validation failed: ${errors.map(error => `${error.field}: ${error.message}`).join(', ')}`,
+      errors
+    )
+  }
 
-    if (value === undefined || value === null) {
-      errors.push(`Missing required field: ${field}`)
-      continue
-    }
+  return body
+}
 
-    if (!validateType(value, type)) {
-      errors.push(`Invalid type for field ${field}: expected ${type}, got ${typeof value}`)
-    }
+// The checks validateRequest applies to a body, for data that arrives
+// some other way (e.g. rows of an imported file)
+export function validateData(data: unknown, schema: ValidationSchema): ValidationIssue[] {
+  return validateValue(data, {
+    type: 'object',
+    properties: schema,
+    additionalProperties: !isStrictSchema(schema)
+  }, '')
+}
+
+export function toFieldSchema(rule: FieldType | FieldSchema): FieldSchema {
+  return typeof rule === 'string' ? { type: rule } : rule
+}
+
+function validateValue(value: any, rule: FieldSchema, field: string): ValidationIssue[] {
+  const issue = (message: string): ValidationIssue[] => [{ field: field || 'body', message }]
+
+  if (value === undefined) {
+    return rule.optional ? [] : issue('Missing required field')
   }
 
-  if (errors.length > 0) {
-    throw new ValidationError(`Validation failed: ${errors.join(', ')}`)
+  if (value === null) {
+    return rule.nullable ? [] : issue(rule.optional ? 'Must not be null' : 'Missing required field')
   }
 
-  return body
+  if (!validateType(value, rule.type)) {
+    return issue(`Invalid type: expected ${rule.type}, got ${Array.isArray(value) ? 'array' : typeof value}`)
+  }
+
+  if (rule.enum && !rule.enum.includes(value)) {
+    return issue(`Must be one of: ${rule.enum.join(', ')}`)
+  }
+
+  switch (rule.type) {
+    case 'string':
+      return validateString(value, rule, field, issue)
+    case 'number':
+    case 'integer':
+      if (rule.min !== undefined && value < rule.min) return issue(`Must be at least ${rule.min}`)
+      if (rule.max !== undefined && value > rule.max) return issue(`Must be at most ${rule.max}`)
+      return []
+    case 'array':
+      return validateArray(value, rule, field, issue)
+    case 'object':
+      return validateObject(value, rule, field)
+    default:
+      return []
+  }
+}
+
+function validateString(
+  value: string,
+  rule: FieldSchema,
+  field: string,
+  issue: (message: string) => ValidationIssue[]
+): ValidationIssue[] {
+  const minLength = rule.minLength ?? 1
+  if (value.length < minLength) {
+    return issue(minLength === 1 ? 'Must not be empty' : `Must be at least ${minLength} characters`)
+  }
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    return issue(`Must be at most ${rule.maxLength} characters`)
+  }
+
+  switch (rule.format) {
+    case undefined:
+      return []
+    case 'email':
+      return validateEmail(value) ? [] : issue('Must be a valid email address')
+    case 'password':
+      return validatePassword(value).errors.map(message => ({ field, message }))
+    case 'url':
+      return isHttpUrl(value) ? [] : issue('Must be a valid http(s) URL')
+    case 'language-tag':
+      return isLanguageTag(value) ? [] : issue('Must be a BCP 47 language tag, e.g. en or pt-BR')
+    case 'country-code':
+      return isCountryCode(value) ? [] : issue('Must be an ISO 3166-1 alpha-2 country code, e.g. US or DE')
+    case 'date':
+    case 'date-time':
+      return FORMAT_PATTERNS[rule.format].test(value) && isCalendarDate(value) && !isNaN(Date.parse(value))
+        ? []
+        : issue(`Must be an ISO 8601 ${rule.format === 'date' ? 'date (YYYY-MM-DD)' : 'date-time'}`)
+    default:
+      return FORMAT_PATTERNS[rule.format].test(value) ? [] : issue(`Must be a valid ${rule.format.toUpperCase()}`)
+  }
+}
+
+function validateArray(
+  value: any[],
+  rule: FieldSchema,
+  field: string,
+  issue: (message: string) => ValidationIssue[]
+): ValidationIssue[] {
+  if (rule.minItems !== undefined && value.length < rule.minItems) {
+    return issue(`Must contain at least ${rule.minItems} items`)
+  }
+  if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+    return issue(`Must contain at most ${rule.maxItems} items`)
+  }
+  if (!rule.items) return []
+
+  const itemRule = toFieldSchema(rule.items)
+  return value.flatMap((item, index) => validateValue(item, itemRule, `${field}[${index}]`))
 }
 
-function validateType(value: any, expectedType: string): boolean {
+function validateObject(value: Record<string, any>, rule: FieldSchema, field: string): ValidationIssue[] {
+  if (!rule.properties) return []
+
+  const prefix = field ? `${field}.` : ''
+  const errors = Object.entries(rule.properties).flatMap(([key, propertyRule]) =>
+    validateValue(value[key], toFieldSchema(propertyRule), `${prefix}${key}`)
+  )
+
+  if (rule.additionalProperties === false) {
+    for (const key of Object.keys(value)) {
+      if (!(key in rule.properties)) {
+        errors.push({ field: `${prefix}${key}`, message: 'Unknown field' })
+      }
+    }
+  }
+
+  return errors
+}
+
+function validateType(value: any, expectedType: FieldType): boolean {
   switch (expectedType) {
     case 'string':
-      return typeof value === 'string' && value.length > 0
+      return typeof value === 'string'
     case 'number':
       return typeof value === 'number' && !isNaN(value)
+    case 'integer':
+      return Number.isInteger(value)
     case 'boolean':
       return typeof value === 'boolean'
     case 'object':
@@ -57,6 +237,24 @@ function validateType(value: any, expectedType: string): boolean {
   }
 }
 
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// BCP 47, as accepted by Intl (handlers store the canonical form, see utils/language.ts)
+function isLanguageTag(value: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(value).length === 1
+  } catch {
+    return false
+  }
+}
+
 export function validateEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
   return emailRegex.test(email)
@@ -0,0 +1,25 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { isCalendarDate, validateData } from './validation.ts'
+import type { ValidationSchema } from './validation.ts'
+
+const schema: ValidationSchema = {
+  release_date: { type: 'string', format: 'date', optional: true },
+  unlock_date: { type: 'string', format: 'date-time', optional: true }
+}
+
+Deno.test('isCalendarDate rejects days a month does not have', () => {
+  assertEquals(isCalendarDate('2024-02-29'), true)
+  assertEquals(isCalendarDate('2024-12-31T23:59:59Z'), true)
+  assertEquals(isCalendarDate('2023-02-29'), false)
+  assertEquals(isCalendarDate('2024-02-31'), false)
+  assertEquals(isCalendarDate('2024-13-01'), false)
+  assertEquals(isCalendarDate('2024-04-31T00:00:00Z'), false)
+})
+
+Deno.test('validateData reports impossible dates as field errors', () => {
+  assertEquals(validateData({ release_date: '2024-02-29', unlock_date: '2024-03-01T12:00:00+02:00' }, schema), [])
+  assertEquals(validateData({ release_date: '2024-02-31', unlock_date: '2024-06-31T00:00:00Z' }, schema), [
+    { field: 'release_date', message: 'Must be an ISO 8601 date (YYYY-MM-DD)' },
+    { field: 'unlock_date', message: 'Must be an ISO 8601 date-time' }
+  ])
+})
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+// Usage:
+//   migrate up [--dry-run] [--to <version>]
+//   migrate down [--steps <n>] [--dry-run]
+//   migrate status
+
+import postgres from 'postgres'
+import 'dotenv/config'
+import { getMigrationStatus, migrateDown, migrateUp, MigrationError } from '../lib/migrations'
+
+const DATABASE_URL = process.env.DATABASE_URL
+
+if (!DATABASE_URL) {
+  console.error('❌ DATABASE_URL not found in environment variables')
+  process.exit(1)
+}
+
+const STATE_ICONS = {
+  applied: '✅',
+  pending: '⏳',
+  drifted: '⚠️ ',
+  missing: '❓'
+}
+
+const [command = 'up', ...args] = process.argv.slice(2)
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`)
+  return index === -1 ? undefined : args[index + 1]
+}
+
+const dryRun = args.includes('--dry-run')
+
+const sql = postgres(DATABASE_URL, {
+  ssl: { rejectUnauthorized: false },
+  // Keep output readable: migrations routinely emit NOTICEs for IF NOT EXISTS
+  onnotice: () => {}
+})
+
+async function main() {
+  switch (command) {
+    case 'up': {
+      console.log(`🔄 Applying migrations${dryRun ? ' (dry run)' : ''}...\n`)
+      const applied = await migrateUp(sql, { dryRun, to: option('to') })
+      console.log(applied.length === 0
+        ? '\n✅ Database is up to date'
+        : `\n🎉 ${dryRun ? 'Would apply' : 'Applied'} ${applied.length} migration(s)`)
+      break
+    }
+
+    case 'down': {
+      const steps = Number(option('steps') ?? 1)
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new MigrationError('--steps must be a positive integer')
+      }
+
+      console.log(`🔄 Reverting ${steps} migration(s)${dryRun ? ' (dry run)' : ''}...\n`)
+      const reverted = await migrateDown(sql, { dryRun, steps })
+      console.log(`\n✅ ${dryRun ? 'Would revert' : 'Reverted'} ${reverted.length} migration(s)`)
+      break
+    }
+
+    case 'status': {
+      const statuses = await getMigrationStatus(sql)
+      for (const status of statuses) {
+        const appliedAt = status.applied_at ? ` (applied ${status.applied_at.toISOString()})` : ''
+        const reversible = status.reversible ? '' : ' [no down]'
+        console.log(`${STATE_ICONS[status.state]} ${status.filename} ${status.state}${appliedAt}${reversible}`)
+      }
+
+      const pending = statuses.filter(s => s.state === 'pending').length
+      const problems = statuses.filter(s => s.state === 'drifted' || s.state === 'missing').length
+      console.log(`\n📋 ${statuses.length} migrations, ${pending} pending, ${problems} drifted or missing`)
+      if (problems > 0) process.exitCode = 1
+      break
+    }
+
+    default:
+      throw new MigrationError(`Unknown command "${command}" (expected up, down or status)`)
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(`❌ ${error instanceof MigrationError ? error.message : error}`)
+    process.exitCode = 1
+  })
+  .finally(() => sql.end())
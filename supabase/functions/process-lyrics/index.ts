@@ -272,7 +272,7 @@ serve(async (req) => {
   }
 
   try {
-    const { file_path, content_item_id, raw_text } = await req.json()
+    const { file_path, content_item_id, raw_text, language = 'en' } = await req.json()
     
     if (!content_item_id || !raw_text) {
       return new Response(
@@ -284,6 +284,20 @@ serve(async (req) => {
       )
     }
 
+    // Lyric versions are keyed by canonical BCP 47 tag (see content_lyrics)
+    let languageTag: string
+    try {
+      languageTag = Intl.getCanonicalLocales(language)[0]
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'language must be a BCP 47 language tag' }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
     // Process text with OCR/NER extraction
     console.log('Processing lyrics text for content:', content_item_id)
     const extractionResult = MetadataExtractor.extractFromText(raw_text)
@@ -298,7 +312,7 @@ serve(async (req) => {
     const lyricsData = {
       text: raw_text,
       synchronized: false,
-      language: 'en',
+      language: languageTag,
       rights_cleared: false,
       extracted_metadata: extractionResult.metadata,
       confidence_scores: extractionResult.confidence,
@@ -337,6 +351,32 @@ serve(async (req) => {
       )
     }
 
+    // Store the text as the original lyrics version; the content_lyrics
+    // trigger mirrors it back into content_items.lyrics
+    const { error: versionError } = await supabase
+      .from('content_lyrics')
+      .upsert({
+        content_id: content_item_id,
+        language: languageTag,
+        is_original: true,
+        text: raw_text,
+        synchronized: false,
+        segments: null,
+        rights_cleared: false,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'content_id,language' })
+
+    if (versionError) {
+      console.error('Database error:', versionError)
+      return new Response(
+        JSON.stringify({ error: versionError.message }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
     console.log('Successfully processed lyrics for content:', content_item_id)
 
     return new Response(
@@ -0,0 +1,425 @@
+import { ValidationError } from '../middleware/validation.ts'
+import { sha256Hex } from './crypto.ts'
+
+export const AUDIO_FORMATS = ['mp3', 'wav', 'flac', 'aac', 'm4a'] as const
+export type AudioFormat = typeof AUDIO_FORMATS[number]
+
+// Canonical MIME type first, then the aliases clients commonly declare.
+// AAC in an MP4 container is often labelled audio/aac.
+const FORMAT_MIME_TYPES: Record<AudioFormat, string[]> = {
+  mp3: ['audio/mpeg', 'audio/mp3', 'audio/mpeg3'],
+  wav: ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'],
+  flac: ['audio/flac', 'audio/x-flac'],
+  aac: ['audio/aac', 'audio/aacp', 'audio/x-aac'],
+  m4a: ['audio/mp4', 'audio/x-m4a', 'audio/m4a', 'audio/aac']
+}
+
+// What the bytes say, as written onto content_items
+export interface AudioInspection {
+  format: AudioFormat
+  mimeType: string
+  // null when the container does not declare its length (e.g. streamed FLAC)
+  durationMs: number | null
+  sampleRate: number
+  // Lossy formats have no fixed bit depth
+  bitDepth: number | null
+  channels: number
+  byteLength: number
+  checksum: string // SHA-256, hex
+}
+
+type StreamInfo = Pick<AudioInspection, 'durationMs' | 'sampleRate' | 'bitDepth' | 'channels'>
+
+function unsupported(message: string): ValidationError {
+  return new ValidationError('Unsupported audio file', [{ field: 'file', message }])
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length))
+}
+
+function viewOf(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+function toMs(samples: number, sampleRate: number): number {
+  return Math.round(samples / sampleRate * 1000)
+}
+
+// Size of the ID3v2 tags in front of the audio (MP3, sometimes AAC or FLAC)
+function id3v2Length(bytes: Uint8Array): number {
+  let offset = 0
+  while (offset + 10 <= bytes.length && ascii(bytes, offset, 3) === 'ID3') {
+    const size = (bytes[offset + 6] & 0x7f) << 21 | (bytes[offset + 7] & 0x7f) << 14 |
+      (bytes[offset + 8] & 0x7f) << 7 | (bytes[offset + 9] & 0x7f)
+    const footer = bytes[offset + 5] & 0x10 ? 10 : 0
+    offset += 10 + size + footer
+  }
+  return Math.min(offset, bytes.length)
+}
+
+function isAdtsSync(bytes: Uint8Array, offset: number): boolean {
+  // 12-bit sync, layer 00
+  return bytes[offset] === 0xff && (bytes[offset + 1] & 0xf6) === 0xf0
+}
+
+function isMpegLayer3Sync(bytes: Uint8Array, offset: number): boolean {
+  // 11-bit sync, layer 01 (III)
+  return bytes[offset] === 0xff && (bytes[offset + 1] & 0xe0) === 0xe0 && (bytes[offset + 1] & 0x06) === 0x02
+}
+
+// Identifies the container from its magic bytes; null when unrecognised
+export function sniffAudioFormat(bytes: Uint8Array): AudioFormat | null {
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') return 'wav'
+  if (bytes.length >= 12 && ascii(bytes, 4, 4) === 'ftyp') return 'm4a'
+
+  const tagged = id3v2Length(bytes)
+  if (bytes.length >= tagged + 4 && ascii(bytes, tagged, 4) === 'fLaC') return 'flac'
+  if (isAdtsSync(bytes, tagged)) return 'aac'
+  if (isMpegLayer3Sync(bytes, tagged)) return 'mp3'
+  // ID3 is an MP3 convention; padding may sit between the tag and the first frame
+  return tagged > 0 ? 'mp3' : null
+}
+
+export function isDeclaredTypeCompatible(format: AudioFormat, mimeType: string): boolean {
+  return FORMAT_MIME_TYPES[format].includes(mimeType.toLowerCase().split(';')[0].trim())
+}
+
+// ==========================================
+// WAV
+// ==========================================
+
+function inspectWav(bytes: Uint8Array): StreamInfo {
+  const view = viewOf(bytes)
+  let format: { channels: number; sampleRate: number; byteRate: number; bitDepth: number } | null = null
+
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4)
+    const size = view.getUint32(offset + 4, true)
+    const body = offset + 8
+
+    if (id === 'fmt ' && size >= 16 && body + 16 <= bytes.length) {
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        byteRate: view.getUint32(body + 8, true),
+        bitDepth: view.getUint16(body + 14, true)
+      }
+    } else if (id === 'data') {
+      if (!format) throw unsupported('WAV data chunk comes before its fmt chunk')
+      if (format.byteRate === 0 || format.sampleRate === 0 || format.channels === 0) {
+        throw unsupported('WAV fmt chunk declares no audio')
+      }
+      // Streamed writers leave the size at 0 or 0xFFFFFFFF; the rest of the file is the data
+      const dataSize = size === 0 || body + size > bytes.length ? bytes.length - body : size
+      return {
+        durationMs: Math.round(dataSize / format.byteRate * 1000),
+        sampleRate: format.sampleRate,
+        bitDepth: format.bitDepth || null,
+        channels: format.channels
+      }
+    }
+
+    // Chunks are padded to an even size
+    offset = body + size + (size & 1)
+  }
+  throw unsupported('WAV file has no data chunk')
+}
+
+// ==========================================
+// FLAC
+// ==========================================
+
+function inspectFlac(bytes: Uint8Array): StreamInfo {
+  const start = id3v2Length(bytes) + 4
+  const view = viewOf(bytes)
+
+  // STREAMINFO is always the first metadata block
+  if (start + 4 + 18 > bytes.length || (bytes[start] & 0x7f) !== 0) {
+    throw unsupported('FLAC file has no STREAMINFO block')
+  }
+
+  const info = start + 4
+  const sampleRate = bytes[info + 10] << 12 | bytes[info + 11] << 4 | bytes[info + 12] >> 4
+  const channels = ((bytes[info + 12] >> 1) & 0x07) + 1
+  const bitDepth = (((bytes[info + 12] & 0x01) << 4) | bytes[info + 13] >> 4) + 1
+  const totalSamples = (bytes[info + 13] & 0x0f) * 2 ** 32 + view.getUint32(info + 14)
+
+  if (sampleRate === 0) throw unsupported('FLAC STREAMINFO declares a sample rate of 0')
+
+  return {
+    durationMs: totalSamples > 0 ? toMs(totalSamples, sampleRate) : null,
+    sampleRate,
+    bitDepth,
+    channels
+  }
+}
+
+// ==========================================
+// MP3 (MPEG-1/2/2.5 LAYER III)
+// ==========================================
+
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+// By the 2-bit version field: 0 = MPEG 2.5, 2 = MPEG 2, 3 = MPEG 1
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000]
+}
+
+interface MpegFrame {
+  length: number
+  samples: number
+  sampleRate: number
+  channels: number
+  mpeg1: boolean
+}
+
+function parseMpegFrame(bytes: Uint8Array, offset: number): MpegFrame | null {
+  if (offset + 4 > bytes.length || !isMpegLayer3Sync(bytes, offset)) return null
+
+  const version = (bytes[offset + 1] >> 3) & 0x03
+  const bitrateIndex = bytes[offset + 2] >> 4
+  const rateIndex = (bytes[offset + 2] >> 2) & 0x03
+  // Reserved version, free-format or invalid bitrate, reserved sample rate
+  if (version === 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null
+
+  const mpeg1 = version === 3
+  const bitrate = (mpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000
+  const sampleRate = MPEG_SAMPLE_RATES[version][rateIndex]
+  const samples = mpeg1 ? 1152 : 576
+  const padding = (bytes[offset + 2] >> 1) & 0x01
+
+  return {
+    length: Math.floor(samples / 8 * bitrate / sampleRate) + padding,
+    samples,
+    sampleRate,
+    channels: bytes[offset + 3] >> 6 === 3 ? 1 : 2,
+    mpeg1
+  }
+}
+
+// Frame count from a Xing/Info or VBRI header in the first frame, which is
+// itself silent and not counted
+function vbrFrameCount(bytes: Uint8Array, offset: number, frame: MpegFrame): number | null {
+  const view = viewOf(bytes)
+  const sideInfo = frame.mpeg1 ? (frame.channels === 1 ? 17 : 32) : (frame.channels === 1 ? 9 : 17)
+  const xing = offset + 4 + sideInfo
+
+  if (xing + 12 <= bytes.length && ['Xing', 'Info'].includes(ascii(bytes, xing, 4))) {
+    return view.getUint32(xing + 4) & 0x01 ? view.getUint32(xing + 8) : null
+  }
+
+  const vbri = offset + 36
+  if (vbri + 18 <= bytes.length && ascii(bytes, vbri, 4) === 'VBRI') {
+    return view.getUint32(vbri + 14)
+  }
+  return null
+}
+
+// First frame whose successor also parses, so stray 0xFF bytes in padding
+// are not mistaken for audio
+function findFirstMpegFrame(bytes: Uint8Array, from: number): number {
+  const limit = Math.min(bytes.length, from + 64 * 1024)
+  for (let offset = from; offset < limit; offset++) {
+    const frame = parseMpegFrame(bytes, offset)
+    if (!frame) continue
+    const next = offset + frame.length
+    if (next >= bytes.length || parseMpegFrame(bytes, next)) return offset
+  }
+  return -1
+}
+
+function inspectMp3(bytes: Uint8Array): StreamInfo {
+  const start = findFirstMpegFrame(bytes, id3v2Length(bytes))
+  if (start === -1) throw unsupported('No MPEG Layer III frames found')
+
+  const first = parseMpegFrame(bytes, start)!
+  const declaredFrames = vbrFrameCount(bytes, start, first)
+
+  let totalSamples: number
+  if (declaredFrames !== null) {
+    totalSamples = declaredFrames * first.samples
+  } else {
+    // Walk every frame; stops at trailing ID3v1/APE tags or garbage
+    totalSamples = 0
+    let offset = start
+    let frame: MpegFrame | null = first
+    while (frame) {
+      totalSamples += frame.samples
+      offset += frame.length
+      frame = parseMpegFrame(bytes, offset)
+    }
+  }
+
+  return {
+    durationMs: toMs(totalSamples, first.sampleRate),
+    sampleRate: first.sampleRate,
+    bitDepth: null,
+    channels: first.channels
+  }
+}
+
+// ==========================================
+// AAC (ADTS)
+// ==========================================
+
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350]
+
+function inspectAdts(bytes: Uint8Array): StreamInfo {
+  let offset = id3v2Length(bytes)
+  let sampleRate = 0
+  let channels = 0
+  let totalSamples = 0
+
+  while (offset + 7 <= bytes.length && isAdtsSync(bytes, offset)) {
+    const rateIndex = (bytes[offset + 2] >> 2) & 0x0f
+    const channelConfig = ((bytes[offset + 2] & 0x01) << 2) | bytes[offset + 3] >> 6
+    const frameLength = ((bytes[offset + 3] & 0x03) << 11) | bytes[offset + 4] << 3 | bytes[offset + 5] >> 5
+    const blocks = (bytes[offset + 6] & 0x03) + 1
+
+    if (rateIndex >= ADTS_SAMPLE_RATES.length || frameLength < 7) break
+    if (totalSamples === 0) {
+      if (channelConfig === 0) throw unsupported('AAC channel layout in a program config element is not supported')
+      sampleRate = ADTS_SAMPLE_RATES[rateIndex]
+      channels = channelConfig === 7 ? 8 : channelConfig
+    }
+
+    totalSamples += blocks * 1024
+    offset += frameLength
+  }
+
+  if (totalSamples === 0) throw unsupported('No ADTS frames found')
+  return { durationMs: toMs(totalSamples, sampleRate), sampleRate, bitDepth: null, channels }
+}
+
+// ==========================================
+// M4A (MP4 CONTAINER)
+// ==========================================
+
+export interface Box {
+  type: string
+  start: number // first byte after the box header
+  end: number
+}
+
+export function childBoxes(bytes: Uint8Array, start: number, end: number): Box[] {
+  const view = viewOf(bytes)
+  const boxes: Box[] = []
+  let offset = start
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset)
+    let header = 8
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(view.getBigUint64(offset + 8))
+      header = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    // Truncated or corrupt: keep what was read so far
+    if (size < header || offset + size > end) break
+
+    boxes.push({ type: ascii(bytes, offset + 4, 4), start: offset + header, end: offset + size })
+    offset += size
+  }
+  return boxes
+}
+
+export function findBox(bytes: Uint8Array, parent: Box | null, path: string[]): Box | null {
+  let current = parent
+  for (const type of path) {
+    const children = childBoxes(bytes, current?.start ?? 0, current?.end ?? bytes.length)
+    current = children.find(box => box.type === type) ?? null
+    if (!current) return null
+  }
+  return current
+}
+
+function inspectM4a(bytes: Uint8Array): StreamInfo {
+  const view = viewOf(bytes)
+  const moov = findBox(bytes, null, ['moov'])
+  if (!moov) throw unsupported('MP4 file has no moov box (is it fully uploaded?)')
+
+  const sound = childBoxes(bytes, moov.start, moov.end)
+    .filter(box => box.type === 'trak')
+    .find(trak => {
+      const hdlr = findBox(bytes, trak, ['mdia', 'hdlr'])
+      return hdlr !== null && ascii(bytes, hdlr.start + 8, 4) === 'soun'
+    })
+  if (!sound) throw unsupported('MP4 file has no audio track')
+
+  const mdhd = findBox(bytes, sound, ['mdia', 'mdhd'])
+  const stsd = findBox(bytes, sound, ['mdia', 'minf', 'stbl', 'stsd'])
+  if (!mdhd || !stsd) throw unsupported('MP4 audio track is missing its mdhd or stsd box')
+
+  // mdhd version 1 uses 64-bit times
+  const v1 = bytes[mdhd.start] === 1
+  const timescale = view.getUint32(mdhd.start + (v1 ? 20 : 12))
+  const duration = v1 ? Number(view.getBigUint64(mdhd.start + 24)) : view.getUint32(mdhd.start + 16)
+
+  // stsd: version/flags, entry count, then the first AudioSampleEntry
+  const [entry] = childBoxes(bytes, stsd.start + 8, stsd.end)
+  if (!entry || !['mp4a', 'alac'].includes(entry.type)) {
+    throw unsupported(`MP4 audio codec ${entry?.type ?? 'unknown'} is not supported (expected AAC or ALAC)`)
+  }
+
+  const channels = view.getUint16(entry.start + 16)
+  const sampleSize = view.getUint16(entry.start + 18)
+  // 16.16 fixed point; 0 when the rate does not fit, then the media timescale is the rate
+  const sampleRate = (view.getUint32(entry.start + 24) >>> 16) || timescale
+
+  if (timescale === 0 || sampleRate === 0) throw unsupported('MP4 audio track declares no sample rate')
+
+  return {
+    durationMs: duration > 0 ? toMs(duration, timescale) : null,
+    sampleRate,
+    // AAC is lossy; ALAC keeps the source bit depth
+    bitDepth: entry.type === 'alac' ? sampleSize : null,
+    channels
+  }
+}
+
+// ==========================================
+// INSPECTION
+// ==========================================
+
+const INSPECTORS: Record<AudioFormat, (bytes: Uint8Array) => StreamInfo> = {
+  mp3: inspectMp3,
+  wav: inspectWav,
+  flac: inspectFlac,
+  aac: inspectAdts,
+  m4a: inspectM4a
+}
+
+// Identifies the file from its bytes, reads the stream properties from its
+// headers and checksums it. With declaredMimeType, a file whose bytes are a
+// different format is rejected. Throws ValidationError on field `file`.
+export async function inspectAudio(bytes: Uint8Array, declaredMimeType?: string): Promise<AudioInspection> {
+  const format = sniffAudioFormat(bytes)
+  if (!format) {
+    throw unsupported('Not an MP3, WAV, FLAC, AAC or M4A file')
+  }
+  if (declaredMimeType && !isDeclaredTypeCompatible(format, declaredMimeType)) {
+    throw unsupported(`Declared as ${declaredMimeType} but the file is ${format.toUpperCase()} (${FORMAT_MIME_TYPES[format][0]})`)
+  }
+
+  let info: StreamInfo
+  try {
+    info = INSPECTORS[format](bytes)
+  } catch (error) {
+    if (error instanceof ValidationError) throw error
+    // DataView reads past a truncated header
+    throw unsupported(`${format.toUpperCase()} headers are truncated or corrupt`)
+  }
+
+  return {
+    format,
+    mimeType: FORMAT_MIME_TYPES[format][0],
+    ...info,
+    byteLength: bytes.length,
+    checksum: await sha256Hex(bytes)
+  }
+}
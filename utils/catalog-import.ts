@@ -0,0 +1,163 @@
+import { ValidationError } from '../middleware/validation.ts'
+import type { ValidationIssue } from '../middleware/validation.ts'
+
+export const CATALOG_FORMATS = ['csv', 'ddex'] as const
+export type CatalogFormat = typeof CATALOG_FORMATS[number]
+
+// Columns of a catalog CSV, one track per line. Only title is required; an
+// empty cell leaves the column unchanged on a track that is updated.
+export const CATALOG_CSV_COLUMNS = [
+  'title',
+  'isrc',
+  'album',
+  'album_release_date',
+  'track_number',
+  'description',
+  'record_label',
+  'publisher',
+  'p_line',
+  'release_date',
+  'explicit',
+  'license_type',
+  'availability_scope',
+  'availability_regions',
+  'buy_link_url',
+  'buy_link_title',
+  'genre'
+] as const
+
+const BOOLEAN_CELLS: Record<string, boolean> = { true: true, yes: true, '1': true, false: false, no: false, '0': false }
+
+// One track of an import before validation: the file's values keyed by
+// CSV column, converted where the cell is recognisable and left as text
+// otherwise so validation reports it
+export interface CatalogEntry {
+  row: number
+  values: Record<string, unknown>
+  errors: ValidationIssue[]
+}
+
+// A validated entry as stored in catalog_import_jobs.rows
+// (see 017_catalog_imports.sql)
+export interface CatalogRow {
+  row: number
+  album: { name: string; release_date: string | null } | null
+  track_number: number | null
+  fields: Record<string, unknown>
+  errors: ValidationIssue[]
+}
+
+// RFC 4180: comma separated, double quotes around cells containing commas,
+// quotes or line breaks, "" for a quote inside one
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let quoted = false
+
+  const source = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      record.push(cell)
+      records.push(record)
+      record = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('Unterminated quoted cell', [{ field: 'document', message: 'A quoted cell is never closed' }])
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell)
+    records.push(record)
+  }
+
+  // Blank lines carry no track
+  return records.filter((cells) => cells.some((value) => value.trim() !== ''))
+}
+
+function convertCell(column: string, cell: string): unknown {
+  switch (column) {
+    case 'explicit':
+      return BOOLEAN_CELLS[cell.toLowerCase()] ?? cell
+    case 'track_number':
+      return /^\d+$/.test(cell) ? Number(cell) : cell
+    case 'availability_regions':
+      return cell.split(/[\s;|]+/).filter(Boolean)
+    default:
+      return cell
+  }
+}
+
+// Entries of a catalog CSV whose first line names the columns. Rows are
+// numbered from 1 in file order, not counting the header or blank lines.
+export function parseCatalogCsv(text: string): CatalogEntry[] {
+  const [header, ...records] = parseCsv(text)
+  if (!header) {
+    throw new ValidationError('Empty CSV', [{ field: 'document', message: 'The CSV has no header line' }])
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase())
+  const errors: ValidationIssue[] = []
+  columns.forEach((column, index) => {
+    if (!(CATALOG_CSV_COLUMNS as readonly string[]).includes(column)) {
+      errors.push({ field: `columns[${index}]`, message: `Unknown column "${column}"` })
+    } else if (columns.indexOf(column) !== index) {
+      errors.push({ field: `columns[${index}]`, message: `Duplicate column "${column}"` })
+    }
+  })
+  if (!columns.includes('title')) {
+    errors.push({ field: 'columns', message: 'A title column is required' })
+  }
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid CSV header', errors)
+  }
+
+  return records.map((cells, index) => {
+    const values: Record<string, unknown> = {}
+    columns.forEach((column, position) => {
+      const cell = (cells[position] ?? '').trim()
+      if (cell !== '') values[column] = convertCell(column, cell)
+    })
+    const errors = cells.length > columns.length
+      ? [{ field: 'row', message: `Has ${cells.length} cells for ${columns.length} columns` }]
+      : []
+    return { row: index + 1, values, errors }
+  })
+}
+
+// Splits a validated entry into the album, position and content_items
+// columns run_catalog_import() applies
+export function toCatalogRow(entry: CatalogEntry): CatalogRow {
+  const { album, album_release_date, track_number, genre, ...fields } = entry.values
+  if (genre !== undefined) {
+    fields.metadata = { genre }
+  }
+
+  return {
+    row: entry.row,
+    album: typeof album === 'string' ? { name: album, release_date: (album_release_date as string) ?? null } : null,
+    track_number: typeof track_number === 'number' ? track_number : null,
+    fields,
+    errors: entry.errors
+  }
+}
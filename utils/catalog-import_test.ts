@@ -0,0 +1,75 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { ValidationError } from '../middleware/validation.ts'
+import { parseCatalogCsv, parseCsv, toCatalogRow } from './catalog-import.ts'
+
+Deno.test('parseCsv reads quoted cells with commas, quotes and line breaks', () => {
+  const csv = 'title,description\n"Night, ""Drive""","first line\nsecond line"\r\nPlain,"",\n'
+
+  assertEquals(parseCsv(csv), [
+    ['title', 'description'],
+    ['Night, "Drive"', 'first line\nsecond line'],
+    ['Plain', '', '']
+  ])
+})
+
+Deno.test('parseCsv drops a byte order mark and blank lines', () => {
+  assertEquals(parseCsv('\uFEFFtitle\r\n\r\nIntro\r\n ,\r\nOutro'), [['title'], ['Intro'], ['Outro']])
+})
+
+Deno.test('parseCsv rejects an unterminated quoted cell', () => {
+  assertThrows(() => parseCsv('title\n"Intro'), ValidationError)
+})
+
+Deno.test('parseCatalogCsv converts cells and numbers rows', () => {
+  const csv = [
+    '\uFEFFTitle,ISRC,Album,Track_Number,Explicit,Availability_Regions,Genre',
+    '"Night, ""Drive""",USRC17607839,Debut,2,yes,US;CA,Pop',
+    '',
+    '"Two\nlines",,,x,maybe,,'
+  ].join('\r\n')
+
+  assertEquals(parseCatalogCsv(csv), [
+    {
+      row: 1,
+      values: {
+        title: 'Night, "Drive"',
+        isrc: 'USRC17607839',
+        album: 'Debut',
+        track_number: 2,
+        explicit: true,
+        availability_regions: ['US', 'CA'],
+        genre: 'Pop'
+      },
+      errors: []
+    },
+    {
+      row: 2,
+      // Unrecognised cells stay text so validation reports them
+      values: { title: 'Two\nlines', track_number: 'x', explicit: 'maybe' },
+      errors: []
+    }
+  ])
+})
+
+Deno.test('parseCatalogCsv reports extra cells on the row', () => {
+  const [entry] = parseCatalogCsv('title,isrc\nIntro,USRC17607839,extra')
+  assertEquals(entry.errors, [{ field: 'row', message: 'Has 3 cells for 2 columns' }])
+})
+
+Deno.test('parseCatalogCsv rejects unknown, duplicate and missing columns', () => {
+  for (const csv of ['title,mood\nIntro,calm', 'title,isrc,ISRC\nIntro,,', 'isrc\nUSRC17607839', '']) {
+    assertThrows(() => parseCatalogCsv(csv), ValidationError)
+  }
+})
+
+Deno.test('toCatalogRow splits album, position and genre from the columns', () => {
+  const [entry] = parseCatalogCsv('title,album,album_release_date,track_number,genre\nIntro,Debut,2026-11-01,1,Pop')
+
+  assertEquals(toCatalogRow(entry), {
+    row: 1,
+    album: { name: 'Debut', release_date: '2026-11-01' },
+    track_number: 1,
+    fields: { title: 'Intro', metadata: { genre: 'Pop' } },
+    errors: []
+  })
+})
@@ -0,0 +1,526 @@
+import { ValidationError } from '../middleware/validation.ts'
+import type { AvailabilityScope } from '../middleware/geoblocking.ts'
+import type { ValidationIssue } from '../middleware/validation.ts'
+import type { CatalogEntry } from './catalog-import.ts'
+
+// DDEX Electronic Release Notification 4.3 (release-notification.xsd):
+// album export, and reading ERN 4.x messages for catalog imports
+const ERN_NAMESPACE = 'http://ddex.net/xml/ern/43'
+const ERN_SCHEMA_LOCATION = `${ERN_NAMESPACE} http://ddex.net/xml/ern/43/release-notification.xsd`
+const AVS_VERSION = '4'
+
+// DDEX Party Identifiers, e.g. PADPIDA2014120301H
+export const DPID_PATTERN = /^PADPIDA[0-9A-Z]{11}$/
+
+export interface DdexParty {
+  dpid: string
+  name: string
+}
+
+// The albums and artist_profiles columns the export reads
+export interface DdexAlbum {
+  id: string
+  name: string
+  release_date: string | null
+  artwork_url: string | null
+  artist_name: string | null
+  record_label: string | null
+}
+
+// The content_items columns the export reads, in track_number order
+export interface DdexTrack {
+  id: string
+  title: string
+  track_number: number | null
+  isrc: string | null
+  p_line: string | null
+  record_label: string | null
+  publisher: string | null
+  release_date: string | null
+  explicit: boolean | null
+  duration_ms: number | null
+  duration_seconds: number | null
+  availability_scope: AvailabilityScope | null
+  availability_regions: string[] | null
+  license_type: string | null
+  metadata: Record<string, unknown> | null
+}
+
+export interface DdexMessageOptions {
+  sender: DdexParty
+  recipient: DdexParty
+  messageId: string
+  createdAt: Date
+  test?: boolean
+}
+
+// Territories where a release can be offered, as DealTerms express them:
+// worldwide except the excluded codes when included is null
+export interface DdexTerritories {
+  included: string[] | null
+  excluded: string[]
+}
+
+// A release is only offered where every one of its tracks is available
+export function releaseTerritories(tracks: DdexTrack[]): DdexTerritories {
+  let included: Set<string> | null = null
+  const excluded = new Set<string>()
+
+  for (const track of tracks) {
+    const regions = track.availability_regions ?? []
+    switch (track.availability_scope ?? 'worldwide') {
+      case 'exclusive_regions':
+        included = new Set(regions.filter((code) => included === null || included.has(code)))
+        break
+      case 'blocked_regions':
+        regions.forEach((code) => excluded.add(code))
+        break
+    }
+  }
+
+  if (included === null) {
+    return { included: null, excluded: [...excluded].sort() }
+  }
+  return { included: [...included].filter((code) => !excluded.has(code)).sort(), excluded: [] }
+}
+
+// Commercial models and uses offered for a license_type. Creative Commons
+// recordings are free to stream and download; everything else is sold.
+function dealTermsFor(licenseType: string): Array<{ commercialModel: string; useTypes: string[] }> {
+  if (licenseType.startsWith('cc_')) {
+    return [{ commercialModel: 'FreeOfChargeModel', useTypes: ['OnDemandStream', 'PermanentDownload'] }]
+  }
+  return [
+    { commercialModel: 'SubscriptionModel', useTypes: ['OnDemandStream'] },
+    { commercialModel: 'AdvertisementSupportedModel', useTypes: ['OnDemandStream'] },
+    { commercialModel: 'PayAsYouGoModel', useTypes: ['PermanentDownload'] }
+  ]
+}
+
+function trackDurationMs(track: DdexTrack): number | null {
+  if (track.duration_ms) return track.duration_ms
+  return track.duration_seconds ? track.duration_seconds * 1000 : null
+}
+
+function releaseLabel(album: DdexAlbum, tracks: DdexTrack[]): string | null {
+  return tracks.find((track) => track.record_label)?.record_label ?? album.record_label
+}
+
+function releaseGenre(tracks: DdexTrack[]): string | null {
+  const genre = tracks.map((track) => track.metadata?.genre).find((value) => typeof value === 'string' && value.trim())
+  return typeof genre === 'string' ? genre.trim() : null
+}
+
+function trackField(track: DdexTrack, index: number, field: string): string {
+  return `tracks[${track.track_number ?? index + 1}].${field}`
+}
+
+// Everything ERN 4.3 requires that the album does not have yet, in the
+// { field, message } shape of album_release_problems
+export function ddexProblems(album: DdexAlbum, tracks: DdexTrack[]): ValidationIssue[] {
+  const problems: ValidationIssue[] = []
+
+  if (!album.artist_name) {
+    problems.push({ field: 'artist_name', message: 'The artist profile has no name' })
+  }
+  if (!album.release_date) {
+    problems.push({ field: 'release_date', message: 'Album release date is required' })
+  }
+  if (!album.artwork_url) {
+    problems.push({ field: 'artwork_url', message: 'Album artwork is required' })
+  }
+  if (!releaseLabel(album, tracks)) {
+    problems.push({ field: 'record_label', message: 'A record label is required on a track or the artist profile' })
+  }
+  if (tracks.length === 0) {
+    problems.push({ field: 'tracks', message: 'Album has no tracks' })
+    return problems
+  }
+  if (!releaseGenre(tracks)) {
+    problems.push({ field: 'metadata.genre', message: 'A genre is required in the metadata of at least one track' })
+  }
+
+  const licenses = new Set(tracks.map((track) => track.license_type ?? 'all_rights_reserved'))
+  if (licenses.size > 1) {
+    problems.push({ field: 'license_type', message: `Tracks have different licenses (${[...licenses].sort().join(', ')}) and cannot share one deal` })
+  }
+
+  const territories = releaseTerritories(tracks)
+  if (territories.included?.length === 0) {
+    problems.push({ field: 'availability_regions', message: 'There is no territory where every track is available' })
+  }
+
+  tracks.forEach((track, index) => {
+    if (!track.isrc) {
+      problems.push({ field: trackField(track, index, 'isrc'), message: `Track "${track.title}" has no ISRC` })
+    }
+    if (!track.p_line) {
+      problems.push({ field: trackField(track, index, 'p_line'), message: `Track "${track.title}" has no P line` })
+    }
+    if (!trackDurationMs(track)) {
+      problems.push({ field: trackField(track, index, 'duration'), message: `Track "${track.title}" has no duration` })
+    }
+  })
+
+  return problems
+}
+
+// ==========================================
+// XML
+// ==========================================
+
+interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: Array<XmlElement | string>
+}
+
+function el(name: string, children: Array<XmlElement | string | null> | string, attributes: Record<string, string> = {}): XmlElement {
+  return {
+    name,
+    attributes,
+    children: typeof children === 'string' ? [children] : children.filter((child): child is XmlElement | string => child !== null)
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function serialize(element: XmlElement, depth = 0): string {
+  const indent = '  '.repeat(depth)
+  const attributes = Object.entries(element.attributes)
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('')
+
+  if (element.children.length === 1 && typeof element.children[0] === 'string') {
+    return `${indent}<${element.name}${attributes}>${escapeXml(element.children[0])}</${element.name}>`
+  }
+  return [
+    `${indent}<${element.name}${attributes}>`,
+    ...element.children.map((child) => typeof child === 'string' ? `${indent}  ${escapeXml(child)}` : serialize(child, depth + 1)),
+    `${indent}</${element.name}>`
+  ].join('\n')
+}
+
+// ISO 8601 duration, e.g. PT3M25S
+function isoDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  return `PT${hours ? `${hours}H` : ''}${minutes}M${seconds}S`
+}
+
+function messageParty(party: DdexParty, tag: string): XmlElement {
+  return el(tag, [el('PartyId', party.dpid), el('PartyName', [el('FullName', party.name)])])
+}
+
+function displayTitle(title: string): XmlElement[] {
+  return [el('DisplayTitleText', title), el('DisplayTitle', [el('TitleText', title)])]
+}
+
+function displayArtist(name: string): XmlElement[] {
+  return [
+    el('DisplayArtistName', name),
+    el('DisplayArtist', [
+      el('ArtistPartyReference', 'PArtist'),
+      el('DisplayArtistRole', 'MainArtist')
+    ], { SequenceNumber: '1' })
+  ]
+}
+
+function pLine(text: string, date: string | null): XmlElement {
+  return el('PLine', [date ? el('Year', date.slice(0, 4)) : null, el('PLineText', text)])
+}
+
+function parentalWarning(explicit: boolean): XmlElement {
+  return el('ParentalWarningType', explicit ? 'Explicit' : 'NotExplicit')
+}
+
+// A NewReleaseMessage for the album as one Album release. Check
+// ddexProblems first: this assumes every required field is present.
+export function buildNewReleaseMessage(album: DdexAlbum, tracks: DdexTrack[], options: DdexMessageOptions): string {
+  const artistName = album.artist_name!
+  const releaseDate = album.release_date!
+  const label = releaseLabel(album, tracks)!
+  const proprietaryId = (id: string) => el('ProprietaryId', id, { Namespace: `DPID:${options.sender.dpid}` })
+
+  const publishers = [...new Set(tracks.map((track) => track.publisher).filter((name): name is string => !!name))]
+  const publisherReference = (name: string) => `PPublisher${publishers.indexOf(name) + 1}`
+
+  const parties = [
+    el('Party', [el('PartyReference', 'PArtist'), el('PartyName', [el('FullName', artistName)])]),
+    el('Party', [el('PartyReference', 'PLabel'), el('PartyName', [el('FullName', label)])]),
+    ...publishers.map((name) => el('Party', [el('PartyReference', publisherReference(name)), el('PartyName', [el('FullName', name)])]))
+  ]
+
+  const soundRecordings = tracks.map((track, index) => el('SoundRecording', [
+    el('ResourceReference', `A${index + 1}`),
+    el('Type', 'MusicalWorkSoundRecording'),
+    el('SoundRecordingEdition', [
+      el('ResourceId', [el('ISRC', track.isrc!)]),
+      pLine(track.p_line!, track.release_date ?? releaseDate)
+    ]),
+    ...displayTitle(track.title),
+    ...displayArtist(artistName),
+    track.publisher
+      ? el('Contributor', [
+        el('ContributorPartyReference', publisherReference(track.publisher)),
+        el('Role', 'MusicPublisher')
+      ], { SequenceNumber: '1' })
+      : null,
+    el('Duration', isoDuration(trackDurationMs(track)!)),
+    parentalWarning(!!track.explicit)
+  ]))
+
+  const imageReference = `A${tracks.length + 1}`
+  const image = el('Image', [
+    el('ResourceReference', imageReference),
+    el('Type', 'FrontCoverImage'),
+    el('ResourceId', [proprietaryId(`${album.id}-artwork`)]),
+    el('TechnicalDetails', [
+      el('TechnicalResourceDetailsReference', 'T1'),
+      el('File', [el('URI', album.artwork_url!)])
+    ])
+  ])
+
+  const totalMs = tracks.reduce((sum, track) => sum + trackDurationMs(track)!, 0)
+  const release = el('Release', [
+    el('ReleaseReference', 'R0'),
+    el('ReleaseType', 'Album'),
+    el('ReleaseId', [proprietaryId(album.id)]),
+    ...displayTitle(album.name),
+    ...displayArtist(artistName),
+    el('ReleaseLabelReference', 'PLabel'),
+    pLine(tracks[0].p_line!, releaseDate),
+    el('Duration', isoDuration(totalMs)),
+    el('Genre', [el('GenreText', releaseGenre(tracks)!)]),
+    parentalWarning(tracks.some((track) => track.explicit)),
+    el('ResourceGroup', [
+      el('ResourceGroup', [
+        el('SequenceNumber', '1'),
+        ...tracks.map((_, index) => el('ResourceGroupContentItem', [
+          el('SequenceNumber', String(index + 1)),
+          el('ReleaseResourceReference', `A${index + 1}`)
+        ]))
+      ]),
+      el('LinkedReleaseResourceReference', imageReference)
+    ])
+  ])
+
+  const territories = releaseTerritories(tracks)
+  const territoryCodes = territories.included
+    ? territories.included.map((code) => el('TerritoryCode', code))
+    : [el('TerritoryCode', 'Worldwide'), ...territories.excluded.map((code) => el('ExcludedTerritoryCode', code))]
+
+  const deals = dealTermsFor(tracks[0].license_type ?? 'all_rights_reserved').map(({ commercialModel, useTypes }) =>
+    el('Deal', [
+      el('DealTerms', [
+        ...territoryCodes,
+        el('ValidityPeriod', [el('StartDate', releaseDate)]),
+        el('CommercialModelType', commercialModel),
+        ...useTypes.map((useType) => el('UseType', useType))
+      ])
+    ])
+  )
+
+  const message = el('ern:NewReleaseMessage', [
+    el('MessageHeader', [
+      el('MessageThreadId', options.messageId),
+      el('MessageId', options.messageId),
+      messageParty(options.sender, 'MessageSender'),
+      messageParty(options.recipient, 'MessageRecipient'),
+      el('MessageCreatedDateTime', options.createdAt.toISOString()),
+      el('MessageControlType', options.test ? 'TestMessage' : 'LiveMessage')
+    ]),
+    el('PartyList', parties),
+    el('ResourceList', [...soundRecordings, image]),
+    el('ReleaseList', [release]),
+    el('DealList', [
+      el('ReleaseDeal', [el('DealReleaseReference', 'R0'), ...deals])
+    ])
+  ], {
+    'xmlns:ern': ERN_NAMESPACE,
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': ERN_SCHEMA_LOCATION,
+    LanguageAndScriptCode: 'en',
+    AvsVersionId: AVS_VERSION
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serialize(message)}\n`
+}
+
+// ==========================================
+// READING
+// ==========================================
+
+// Any ERN 4.x namespace, e.g. http://ddex.net/xml/ern/41
+const ERN4_NAMESPACE = /^http:\/\/ddex\.net\/xml\/ern\/4\d+$/
+
+interface XmlNode {
+  // Without its namespace prefix
+  name: string
+  attributes: Record<string, string>
+  children: XmlNode[]
+  text: string
+}
+
+const XML_TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, code: string) => {
+    if (code[0] === '#') {
+      return String.fromCodePoint(code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : Number(code.slice(1)))
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[code.toLowerCase()]!
+  })
+}
+
+function malformed(message: string): ValidationError {
+  return new ValidationError(`Malformed XML: ${message}`, [{ field: 'document', message: `Malformed XML: ${message}` }])
+}
+
+// Elements, attributes and text of a well-formed document; enough for ERN,
+// which has no mixed content
+function parseXml(source: string): XmlNode {
+  const stack: XmlNode[] = [{ name: '', attributes: {}, children: [], text: '' }]
+  let position = 0
+
+  for (const match of source.matchAll(XML_TOKEN)) {
+    if (match.index !== position) throw malformed(`unexpected "<" at offset ${position}`)
+    position = match.index + match[0].length
+
+    const [token, cdata, closing, opening, attributeSource, selfClosing, text] = match
+    const current = stack[stack.length - 1]
+
+    if (opening) {
+      const attributes: Record<string, string> = {}
+      for (const [, name, double, single] of attributeSource.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[name] = decodeXml(double ?? single)
+      }
+      const node = { name: opening.split(':').pop()!, attributes, children: [], text: '' }
+      current.children.push(node)
+      if (!selfClosing) stack.push(node)
+    } else if (closing) {
+      if (stack.length === 1 || current.name !== closing.split(':').pop()) {
+        throw malformed(`unexpected </${closing}>`)
+      }
+      stack.pop()
+    } else if (cdata !== undefined) {
+      current.text += cdata
+    } else if (text !== undefined) {
+      if (stack.length === 1 && text.trim()) throw malformed('text outside the root element')
+      current.text += decodeXml(text)
+    } else if (token.startsWith('<!DOCTYPE')) {
+      // DTDs (and the entities they could declare) are not expanded
+      throw malformed('DOCTYPE declarations are not accepted')
+    }
+  }
+
+  if (position !== source.length) throw malformed(`unexpected "<" at offset ${position}`)
+  if (stack.length !== 1) throw malformed(`<${stack[stack.length - 1].name}> is not closed`)
+  if (stack[0].children.length !== 1) throw malformed('expected one root element')
+  return stack[0].children[0]
+}
+
+function children(node: XmlNode | undefined, name: string): XmlNode[] {
+  return node ? node.children.filter((child) => child.name === name) : []
+}
+
+function descendants(node: XmlNode | undefined, name: string): XmlNode[] {
+  if (!node) return []
+  return node.children.flatMap((child) => [...(child.name === name ? [child] : []), ...descendants(child, name)])
+}
+
+// Trimmed text at a path of child elements, null when missing or empty
+function textAt(node: XmlNode | undefined, ...path: string[]): string | null {
+  const target = path.reduce<XmlNode | undefined>((parent, name) => children(parent, name)[0], node)
+  return target?.text.trim() || null
+}
+
+// availability_scope / availability_regions for a deal's territories
+function availabilityOf(terms: XmlNode | undefined): Record<string, unknown> {
+  const included = children(terms, 'TerritoryCode').map((node) => node.text.trim())
+  const excluded = children(terms, 'ExcludedTerritoryCode').map((node) => node.text.trim())
+
+  if (included.includes('Worldwide')) {
+    return excluded.length > 0
+      ? { availability_scope: 'blocked_regions', availability_regions: excluded }
+      : { availability_scope: 'worldwide' }
+  }
+  return included.length > 0 ? { availability_scope: 'exclusive_regions', availability_regions: included } : {}
+}
+
+const PARENTAL_WARNINGS: Record<string, boolean> = { Explicit: true, NotExplicit: false, ExplicitContentEdited: false }
+
+// One catalog entry per sound recording of each release in an ERN 4.x
+// NewReleaseMessage, in resource group order. Releases become albums;
+// the first deal of a release gives its date and territories.
+export function readNewReleaseMessage(xml: string): CatalogEntry[] {
+  const root = parseXml(xml)
+  const namespaces = Object.entries(root.attributes)
+    .filter(([name]) => name === 'xmlns' || name.startsWith('xmlns:'))
+    .map(([, value]) => value)
+  if (root.name !== 'NewReleaseMessage' || !namespaces.some((value) => ERN4_NAMESPACE.test(value))) {
+    throw new ValidationError('Not an ERN 4 NewReleaseMessage', [
+      { field: 'document', message: 'Must be a DDEX ERN 4.x NewReleaseMessage' }
+    ])
+  }
+
+  const parties = new Map(descendants(children(root, 'PartyList')[0], 'Party')
+    .map((party) => [textAt(party, 'PartyReference'), textAt(party, 'PartyName', 'FullName')]))
+  const recordings = new Map(children(children(root, 'ResourceList')[0], 'SoundRecording')
+    .map((recording) => [textAt(recording, 'ResourceReference'), recording]))
+
+  const dealTerms = new Map<string, XmlNode | undefined>()
+  for (const releaseDeal of children(children(root, 'DealList')[0], 'ReleaseDeal')) {
+    const terms = children(children(releaseDeal, 'Deal')[0], 'DealTerms')[0]
+    for (const reference of children(releaseDeal, 'DealReleaseReference')) {
+      if (!dealTerms.has(reference.text.trim())) dealTerms.set(reference.text.trim(), terms)
+    }
+  }
+
+  const entries: CatalogEntry[] = []
+  for (const release of children(children(root, 'ReleaseList')[0], 'Release')) {
+    const references = descendants(release, 'ReleaseResourceReference')
+      .map((node) => node.text.trim())
+      .filter((reference) => recordings.has(reference))
+
+    const terms = dealTerms.get(textAt(release, 'ReleaseReference') ?? '')
+    const releaseDate = textAt(terms, 'ValidityPeriod', 'StartDate') ?? textAt(release, 'ReleaseDate') ?? textAt(release, 'OriginalReleaseDate')
+    const shared = {
+      album: textAt(release, 'DisplayTitleText') ?? textAt(release, 'DisplayTitle', 'TitleText'),
+      album_release_date: releaseDate?.slice(0, 10),
+      record_label: parties.get(textAt(release, 'ReleaseLabelReference')),
+      genre: textAt(release, 'Genre', 'GenreText'),
+      ...availabilityOf(terms)
+    }
+
+    references.forEach((reference, index) => {
+      const recording = recordings.get(reference)!
+      const publisher = children(recording, 'Contributor')
+        .find((contributor) => children(contributor, 'Role').some((role) => role.text.trim() === 'MusicPublisher'))
+
+      const values: Record<string, unknown> = {
+        ...shared,
+        title: textAt(recording, 'DisplayTitleText') ?? textAt(recording, 'DisplayTitle', 'TitleText'),
+        isrc: descendants(recording, 'ISRC')[0]?.text.trim(),
+        p_line: descendants(recording, 'PLineText')[0]?.text.trim(),
+        explicit: PARENTAL_WARNINGS[textAt(recording, 'ParentalWarningType') ?? ''],
+        publisher: parties.get(textAt(publisher, 'ContributorPartyReference')),
+        track_number: index + 1
+      }
+      for (const [key, value] of Object.entries(values)) {
+        if (value === undefined || value === null || value === '') delete values[key]
+      }
+      entries.push({ row: entries.length + 1, values, errors: [] })
+    })
+  }
+
+  return entries
+}
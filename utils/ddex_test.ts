@@ -0,0 +1,101 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { ValidationError } from '../middleware/validation.ts'
+import { buildNewReleaseMessage, readNewReleaseMessage } from './ddex.ts'
+import type { DdexAlbum, DdexMessageOptions, DdexTrack } from './ddex.ts'
+
+const album: DdexAlbum = {
+  id: 'album-1',
+  name: 'Night & Day',
+  release_date: '2026-11-01',
+  artwork_url: 'https://cdn.example.com/cover.jpg',
+  artist_name: 'The "Band"',
+  record_label: 'Own Records'
+}
+
+const options: DdexMessageOptions = {
+  sender: { dpid: 'PADPIDA2014120301H', name: 'Bucket' },
+  recipient: { dpid: 'PADPIDA2011072101T', name: 'Store' },
+  messageId: 'message-1',
+  createdAt: new Date('2026-10-01T00:00:00Z')
+}
+
+function track(number: number, overrides: Partial<DdexTrack> = {}): DdexTrack {
+  return {
+    id: `track-${number}`,
+    title: `Song ${number}`,
+    track_number: number,
+    isrc: `USRC1760783${number}`,
+    p_line: '℗ 2026 Own Records',
+    record_label: null,
+    publisher: null,
+    release_date: null,
+    explicit: false,
+    duration_ms: 183400,
+    duration_seconds: 184,
+    availability_scope: 'worldwide',
+    availability_regions: null,
+    license_type: 'all_rights_reserved',
+    metadata: { genre: 'Pop' },
+    ...overrides
+  }
+}
+
+Deno.test('readNewReleaseMessage reads back an exported album', () => {
+  const xml = buildNewReleaseMessage(album, [
+    track(1, { publisher: 'Publishing <A>' }),
+    track(2, { title: 'Song "2" & more', explicit: true })
+  ], options)
+
+  const shared = {
+    album: 'Night & Day',
+    album_release_date: '2026-11-01',
+    record_label: 'Own Records',
+    genre: 'Pop',
+    availability_scope: 'worldwide',
+    p_line: '℗ 2026 Own Records'
+  }
+
+  assertEquals(readNewReleaseMessage(xml), [
+    {
+      row: 1,
+      values: { ...shared, title: 'Song 1', isrc: 'USRC17607831', explicit: false, publisher: 'Publishing <A>', track_number: 1 },
+      errors: []
+    },
+    {
+      row: 2,
+      values: { ...shared, title: 'Song "2" & more', isrc: 'USRC17607832', explicit: true, track_number: 2 },
+      errors: []
+    }
+  ])
+})
+
+Deno.test('readNewReleaseMessage reads back release territories', () => {
+  const blocked = buildNewReleaseMessage(album, [
+    track(1, { availability_scope: 'blocked_regions', availability_regions: ['DE'] }),
+    track(2)
+  ], options)
+  const exclusive = buildNewReleaseMessage(album, [
+    track(1, { availability_scope: 'exclusive_regions', availability_regions: ['CA', 'US'] })
+  ], options)
+
+  for (const entry of readNewReleaseMessage(blocked)) {
+    assertEquals(entry.values.availability_scope, 'blocked_regions')
+    assertEquals(entry.values.availability_regions, ['DE'])
+  }
+  const [entry] = readNewReleaseMessage(exclusive)
+  assertEquals(entry.values.availability_scope, 'exclusive_regions')
+  assertEquals(entry.values.availability_regions, ['CA', 'US'])
+})
+
+Deno.test('readNewReleaseMessage rejects documents it cannot read', () => {
+  const documents = [
+    '<NewReleaseMessage><ResourceList></NewReleaseMessage>',
+    '<NewReleaseMessage xmlns="http://example.com/other"/>',
+    '<?xml version="1.0"?><!DOCTYPE x [<!ENTITY e "z">]><NewReleaseMessage/>',
+    'text<NewReleaseMessage/>'
+  ]
+
+  for (const document of documents) {
+    assertThrows(() => readNewReleaseMessage(document), ValidationError)
+  }
+})
@@ -0,0 +1,168 @@
+import { logger, serializeError } from './logger.ts'
+
+// Local IP-to-country database: a CSV file of `start,end,country` rows where
+// start and end are IP addresses (DB-IP "IP to Country Lite") or decimal
+// integers (IP2Location DB1). Extra columns and quotes are ignored. No
+// external service is called; without a file every country is unknown.
+const databasePath = Deno.env.get('GEOIP_DB_PATH') ?? ''
+
+const IPV4_MAPPED_PREFIX = 0xffffn << 32n
+
+interface RangeTable<T> {
+  starts: T[]
+  ends: T[]
+  countries: string[]
+}
+
+interface GeoIpDatabase {
+  v4: RangeTable<number>
+  v6: RangeTable<bigint>
+}
+
+let database: Promise<GeoIpDatabase | null> | undefined
+
+function parseIpv4(ip: string): number | null {
+  const parts = ip.split('.')
+  if (parts.length !== 4) return null
+
+  let value = 0
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null
+    value = value * 256 + Number(part)
+  }
+  return value
+}
+
+function parseIpv6(ip: string): bigint | null {
+  let address = ip.split('%')[0]
+
+  // Trailing dotted IPv4 (::ffff:1.2.3.4) becomes two hex groups
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) {
+    const v4 = parseIpv4(dotted[2])
+    if (v4 === null) return null
+    address = `${dotted[1]}${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`
+  }
+
+  const halves = address.split('::')
+  if (halves.length > 2) return null
+
+  const head = halves[0] ? halves[0].split(':') : []
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+
+  const groups = [...head, ...Array(missing).fill('0'), ...tail]
+  let value = 0n
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null
+    value = (value << 16n) | BigInt(parseInt(group, 16))
+  }
+  return value
+}
+
+// IPv4 (also as IPv4-mapped IPv6) as a number, other IPv6 as a bigint
+function parseAddress(ip: string): number | bigint | null {
+  const v4 = parseIpv4(ip)
+  if (v4 !== null) return v4
+
+  const v6 = parseIpv6(ip)
+  if (v6 === null) return null
+  return v6 >> 32n === 0xffffn ? Number(v6 - IPV4_MAPPED_PREFIX) : v6
+}
+
+function parseBound(value: string): number | bigint | null {
+  if (!/^\d+$/.test(value)) return parseAddress(value)
+
+  const numeric = BigInt(value)
+  if (numeric <= 0xffffffffn) return Number(numeric)
+  if (numeric >> 32n === 0xffffn) return Number(numeric - IPV4_MAPPED_PREFIX)
+  return numeric
+}
+
+function sortTable<T extends number | bigint>(table: RangeTable<T>): RangeTable<T> {
+  const order = table.starts.map((_, index) => index)
+  order.sort((a, b) => table.starts[a] < table.starts[b] ? -1 : table.starts[a] > table.starts[b] ? 1 : 0)
+  return {
+    starts: order.map(index => table.starts[index]),
+    ends: order.map(index => table.ends[index]),
+    countries: order.map(index => table.countries[index])
+  }
+}
+
+async function loadDatabase(): Promise<GeoIpDatabase | null> {
+  if (!databasePath) {
+    logger.warn('geoip.database_not_configured')
+    return null
+  }
+
+  try {
+    const csv = await Deno.readTextFile(databasePath)
+    const v4: RangeTable<number> = { starts: [], ends: [], countries: [] }
+    const v6: RangeTable<bigint> = { starts: [], ends: [], countries: [] }
+    let skipped = 0
+
+    for (const line of csv.split(/\r?\n/)) {
+      if (line.trim() === '' || line.startsWith('#')) continue
+
+      const [rawStart, rawEnd, rawCountry] = line.split(',').map(field => field.trim().replace(/^"|"$/g, ''))
+      const start = parseBound(rawStart ?? '')
+      const end = parseBound(rawEnd ?? '')
+      const country = (rawCountry ?? '').toUpperCase()
+
+      if (start === null || end === null || typeof start !== typeof end || !/^[A-Z]{2}$/.test(country)) {
+        skipped++
+        continue
+      }
+
+      const table = (typeof start === 'number' ? v4 : v6) as RangeTable<number | bigint>
+      table.starts.push(start)
+      table.ends.push(end)
+      table.countries.push(country)
+    }
+
+    logger.info('geoip.database_loaded', {
+      path: databasePath,
+      ipv4_ranges: v4.starts.length,
+      ipv6_ranges: v6.starts.length,
+      skipped_lines: skipped
+    })
+    return { v4: sortTable(v4), v6: sortTable(v6) }
+  } catch (error) {
+    logger.error('geoip.database_load_failed', { path: databasePath, error: serializeError(error) })
+    return null
+  }
+}
+
+function findRange<T extends number | bigint>(table: RangeTable<T>, address: T): string | null {
+  // Last range starting at or before the address
+  let low = 0
+  let high = table.starts.length - 1
+  let index = -1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (table.starts[middle] <= address) {
+      index = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  return index !== -1 && address <= table.ends[index] ? table.countries[index] : null
+}
+
+// ISO 3166-1 alpha-2 country of an IP address, or null when it is not in the
+// database (private ranges, unparseable input, no database). The file is read
+// once, on first use.
+export async function lookupCountry(ip: string): Promise<string | null> {
+  const address = parseAddress(ip.trim())
+  if (address === null) return null
+
+  database ??= loadDatabase()
+  const loaded = await database
+  if (!loaded) return null
+
+  return typeof address === 'number'
+    ? findRange(loaded.v4, address)
+    : findRange(loaded.v6, address)
+}
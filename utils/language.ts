@@ -0,0 +1,59 @@
+// BCP 47 language tags and Accept-Language negotiation (RFC 4647 lookup)
+
+// Canonical casing of a tag (pt-br -> pt-BR, zh-hant -> zh-Hant), null if invalid
+export function canonicalLanguageTag(tag: string): string | null {
+  try {
+    const [canonical] = Intl.getCanonicalLocales(tag)
+    return canonical ?? null
+  } catch {
+    return null
+  }
+}
+
+interface LanguageRange {
+  range: string
+  q: number
+}
+
+// Ranges from an Accept-Language header, most preferred first; q=0 is dropped
+export function parseAcceptLanguage(header: string | null): LanguageRange[] {
+  if (!header) return []
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [range, ...params] = part.split(';').map(piece => piece.trim())
+      const qParam = params.find(param => param.startsWith('q='))
+      const q = qParam === undefined ? 1 : Number(qParam.slice(2))
+      return { range: range.toLowerCase(), q: Number.isFinite(q) ? q : 0, index }
+    })
+    .filter(({ range, q }) => range !== '' && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ range, q }) => ({ range, q }))
+}
+
+// The available tag that best matches the header. Each range, in order of
+// preference, is tried exactly, then against more specific tags (en -> en-GB),
+// then with its last subtag dropped (de-CH -> de). Returns null when nothing
+// matches or the header only says '*', leaving the default to the caller.
+export function negotiateLanguage(available: string[], header: string | null): string | null {
+  const tags = available.map(tag => tag.toLowerCase())
+
+  for (const { range } of parseAcceptLanguage(header)) {
+    if (range === '*') return null
+
+    let candidate = range
+    while (candidate) {
+      const exact = tags.indexOf(candidate)
+      if (exact !== -1) return available[exact]
+
+      const extended = tags.findIndex(tag => tag.startsWith(`${candidate}-`))
+      if (extended !== -1) return available[extended]
+
+      const cut = candidate.lastIndexOf('-')
+      candidate = cut === -1 ? '' : candidate.slice(0, cut)
+    }
+  }
+
+  return null
+}
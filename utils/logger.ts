@@ -0,0 +1,45 @@
+import { getRequestContext } from './request-context.ts'
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+const configuredLevel = Deno.env.get('LOG_LEVEL') ?? ''
+const minimumLevel: LogLevel = configuredLevel in LEVEL_ORDER ? configuredLevel as LogLevel : 'info'
+
+// One JSON object per line, tagged with the current request id
+function write(level: LogLevel, message: string, fields: Record<string, unknown> = {}) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minimumLevel]) return
+
+  const context = getRequestContext()
+  const entry = {
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    ...(context && { request_id: context.requestId }),
+    ...fields
+  }
+
+  const line = JSON.stringify(entry)
+  if (level === 'error') {
+    console.error(line)
+  } else if (level === 'warn') {
+    console.warn(line)
+  } else {
+    console.log(line)
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => write('debug', message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => write('info', message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => write('warn', message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => write('error', message, fields)
+}
+
+export function serializeError(error: unknown): Record<string, unknown> {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack }
+  }
+  return { message: String(error) }
+}
@@ -0,0 +1,488 @@
+import { ValidationError } from '../middleware/validation.ts'
+import type { ValidationIssue } from '../middleware/validation.ts'
+
+export const LYRICS_FORMATS = ['lrc', 'ttml'] as const
+export type LyricsFormat = typeof LYRICS_FORMATS[number]
+
+// duration_seconds is stored in whole seconds, so allow timings up to a
+// second past it
+const DURATION_TOLERANCE_MS = 1000
+
+export interface LyricWord {
+  tStartMs: number
+  // Until the next word (or the end of the line) when missing
+  tEndMs?: number | null
+  text: string
+}
+
+// Shape of content_items.lyrics.segments, as in the segments column of the
+// consolidated lyrics table
+export interface LyricSegment {
+  tStartMs: number
+  // Until the next line (or the end of the track) when missing
+  tEndMs?: number | null
+  line: string
+  words?: LyricWord[]
+}
+
+export interface ParsedLyrics {
+  segments: LyricSegment[]
+  language?: string
+}
+
+export interface ActiveLyric {
+  index: number
+  segment: LyricSegment
+  endMs: number | null
+  word: LyricWord | null
+}
+
+// ==========================================
+// LRC / ENHANCED LRC
+// ==========================================
+
+const LRC_LINE_TIME = /^\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/
+const LRC_WORD_TIME = /<(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?>/g
+const LRC_TAG = /^\[([a-z#]+):(.*)\]$/i
+
+function lrcTimeToMs(minutes: string, seconds: string, fraction?: string): number | null {
+  if (Number(seconds) >= 60) return null
+  // .xx is hundredths, .xxx thousandths
+  const ms = fraction ? Number(fraction.padEnd(3, '0')) : 0
+  return (Number(minutes) * 60 + Number(seconds)) * 1000 + ms
+}
+
+// Splits "<00:01.00>Hello <00:01.50>world<00:02.10>" into timed words; a
+// trailing timestamp with no text marks when the last word ends
+function parseLrcWords(text: string, lineStartMs: number): { line: string; words?: LyricWord[] } | null {
+  const tags = [...text.matchAll(LRC_WORD_TIME)]
+  const line = text.replace(LRC_WORD_TIME, '').replace(/\s+/g, ' ').trim()
+  if (tags.length === 0) return { line }
+
+  const words: LyricWord[] = []
+  const leading = text.slice(0, tags[0].index).trim()
+  if (leading) words.push({ tStartMs: lineStartMs, tEndMs: null, text: leading })
+
+  for (let i = 0; i < tags.length; i++) {
+    const start = lrcTimeToMs(tags[i][1], tags[i][2], tags[i][3])
+    if (start === null) return null
+
+    const previous = words[words.length - 1]
+    if (previous && previous.tEndMs === null) previous.tEndMs = start
+
+    const end = i + 1 < tags.length ? tags[i + 1].index : text.length
+    const word = text.slice(tags[i].index! + tags[i][0].length, end).trim()
+    if (word) words.push({ tStartMs: start, tEndMs: null, text: word })
+  }
+
+  return { line, words }
+}
+
+// Parses LRC, including enhanced LRC word timings, [offset:] and lines with
+// several timestamps. An empty timestamped line ends the line before it.
+export function parseLrc(document: string): ParsedLyrics {
+  const errors: ValidationIssue[] = []
+  const entries: { tStartMs: number; line: string; words?: LyricWord[] }[] = []
+  let offsetMs = 0
+  let language: string | undefined
+
+  document.split(/\r?\n/).forEach((raw, index) => {
+    const field = `document.line[${index + 1}]`
+    let rest = raw.trim()
+    if (rest === '') return
+
+    const tag = rest.match(LRC_TAG)
+    if (tag) {
+      const [, name, value] = tag
+      if (name.toLowerCase() === 'offset') {
+        offsetMs = Number(value.trim())
+        if (!Number.isInteger(offsetMs)) {
+          errors.push({ field, message: '[offset:] must be a whole number of milliseconds' })
+        }
+      } else if (name.toLowerCase() === 'la') {
+        language = value.trim() || undefined
+      }
+      return
+    }
+
+    const starts: number[] = []
+    let match: RegExpMatchArray | null
+    while ((match = rest.match(LRC_LINE_TIME))) {
+      const start = lrcTimeToMs(match[1], match[2], match[3])
+      if (start === null) {
+        errors.push({ field, message: `Invalid timestamp ${match[0]}` })
+        return
+      }
+      starts.push(start)
+      rest = rest.slice(match[0].length)
+    }
+
+    if (starts.length === 0) {
+      errors.push({ field, message: 'Line has no [mm:ss.xx] timestamp' })
+      return
+    }
+
+    const parsed = parseLrcWords(rest, starts[0])
+    if (!parsed) {
+      errors.push({ field, message: 'Invalid word timestamp' })
+      return
+    }
+
+    // A line sung several times repeats its word timings relative to each start
+    for (const start of starts) {
+      const shift = start - starts[0]
+      entries.push({
+        tStartMs: start,
+        line: parsed.line,
+        ...(parsed.words && {
+          words: parsed.words.map(word => ({
+            tStartMs: word.tStartMs + shift,
+            tEndMs: word.tEndMs === null || word.tEndMs === undefined ? null : word.tEndMs + shift,
+            text: word.text
+          }))
+        })
+      })
+    }
+  })
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid LRC document', errors)
+  }
+
+  // A positive offset makes lyrics appear sooner
+  const sorted = entries
+    .map(entry => ({ ...entry, tStartMs: Math.max(0, entry.tStartMs - offsetMs) }))
+    .map(entry => entry.words
+      ? { ...entry, words: entry.words.map(word => shiftWord(word, -offsetMs)) }
+      : entry)
+    .sort((a, b) => a.tStartMs - b.tStartMs)
+
+  const segments: LyricSegment[] = []
+  for (const entry of sorted) {
+    const previous = segments[segments.length - 1]
+    if (entry.line === '') {
+      if (previous && previous.tEndMs === null) previous.tEndMs = entry.tStartMs
+      continue
+    }
+
+    const lastWord = entry.words?.[entry.words.length - 1]
+    segments.push({
+      tStartMs: entry.tStartMs,
+      tEndMs: lastWord?.tEndMs ?? null,
+      line: entry.line,
+      ...(entry.words && entry.words.length > 0 && { words: entry.words })
+    })
+  }
+
+  return { segments, language }
+}
+
+function shiftWord(word: LyricWord, deltaMs: number): LyricWord {
+  return {
+    tStartMs: Math.max(0, word.tStartMs + deltaMs),
+    tEndMs: word.tEndMs === null || word.tEndMs === undefined ? null : Math.max(0, word.tEndMs + deltaMs),
+    text: word.text
+  }
+}
+
+// Word timings may cover only part of a line (a TTML <p> mixing timed spans
+// with plain text); exporters then write the line so no text is lost
+function wordsCoverLine(segment: LyricSegment): boolean {
+  if (!segment.words?.length) return false
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim()
+  return normalize(segment.words.map(word => word.text).join(' ')) === normalize(segment.line)
+}
+
+function formatLrcTime(ms: number): string {
+  const centiseconds = Math.round(ms / 10)
+  const minutes = Math.floor(centiseconds / 6000)
+  const seconds = Math.floor(centiseconds / 100) % 60
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(centiseconds % 100).padStart(2, '0')}`
+}
+
+// Writes LRC; with `enhanced`, lines timed word by word get <mm:ss.xx>
+// word tags. Gaps after a line's end are closed with an empty timestamp line.
+export function toLrc(segments: LyricSegment[], options: { enhanced?: boolean; language?: string } = {}): string {
+  const lines: string[] = []
+  if (options.language) lines.push(`[la:${options.language}]`)
+
+  segments.forEach((segment, index) => {
+    let text = segment.line
+    if (options.enhanced && segment.words && wordsCoverLine(segment)) {
+      text = segment.words.map(word => `<${formatLrcTime(word.tStartMs)}>${word.text}`).join(' ')
+      const lastWord = segment.words[segment.words.length - 1]
+      if (lastWord.tEndMs !== null && lastWord.tEndMs !== undefined) {
+        text += ` <${formatLrcTime(lastWord.tEndMs)}>`
+      }
+    }
+    lines.push(`[${formatLrcTime(segment.tStartMs)}]${text}`)
+
+    const next = segments[index + 1]
+    if (segment.tEndMs !== null && segment.tEndMs !== undefined && (!next || next.tStartMs > segment.tEndMs)) {
+      lines.push(`[${formatLrcTime(segment.tEndMs)}]`)
+    }
+  })
+
+  return lines.join('\n') + '\n'
+}
+
+// ==========================================
+// TTML
+// ==========================================
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'"
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16))
+    if (code.startsWith('#')) return String.fromCodePoint(Number(code.slice(1)))
+    return XML_ENTITIES[code] ?? entity
+  })
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const [, name, double, single] of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name] = decodeXml(double ?? single)
+  }
+  return attributes
+}
+
+// Clock times (hh:mm:ss.fff, also the common mm:ss.fff) and offset times
+// (12.5s, 500ms, 1m, 1h). Frame and tick based times are not supported.
+function parseTtmlTime(value: string): number | null {
+  const clock = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:\.(\d+))?$/)
+  if (clock) {
+    const [, hours = '0', minutes, seconds, fraction] = clock
+    if (Number(minutes) >= 60 || Number(seconds) >= 60) return null
+    const ms = fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0
+    return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + ms
+  }
+
+  const offset = value.trim().match(/^(\d+(?:\.\d+)?)(h|m|s|ms)$/)
+  if (offset) {
+    const factor = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 }[offset[2] as 'h' | 'm' | 's' | 'ms']
+    return Math.round(Number(offset[1]) * factor)
+  }
+
+  return null
+}
+
+// begin plus end or dur; null times mean the attribute is absent,
+// undefined that it could not be parsed
+function parseTiming(attributes: Record<string, string>): { start: number | null; end: number | null } | undefined {
+  const start = attributes.begin === undefined ? null : parseTtmlTime(attributes.begin)
+  if (start === null && attributes.begin !== undefined) return undefined
+
+  if (attributes.end !== undefined) {
+    const end = parseTtmlTime(attributes.end)
+    return end === null ? undefined : { start, end }
+  }
+  if (attributes.dur !== undefined && start !== null) {
+    const duration = parseTtmlTime(attributes.dur)
+    return duration === null ? undefined : { start, end: start + duration }
+  }
+  return { start, end: null }
+}
+
+// Reads the timed <p> elements of a TTML document, with word timings from
+// <span begin=...> children. As in lyric TTML files in the wild, times on
+// <p> and <span> are read as absolute; nested time containers are not
+// supported. This is a lenient scanner, not a validating XML parser.
+export function parseTtml(document: string): ParsedLyrics {
+  const errors: ValidationIssue[] = []
+  const segments: LyricSegment[] = []
+
+  const root = document.match(/<tt\b([^>]*)>/)
+  if (!root) {
+    throw new ValidationError('Invalid TTML document', [
+      { field: 'document', message: 'Missing <tt> root element' }
+    ])
+  }
+  const language = parseAttributes(root[1])['xml:lang']
+
+  const paragraphs = [...document.matchAll(/<p\b([^>]*)>([\s\S]*?)<\/p>/g)]
+  paragraphs.forEach(([, attributeSource, inner], index) => {
+    const field = `document.p[${index + 1}]`
+    const timing = parseTiming(parseAttributes(attributeSource))
+    if (!timing || timing.start === null) {
+      errors.push({ field, message: 'Missing or unsupported begin/end/dur time' })
+      return
+    }
+
+    const words: LyricWord[] = []
+    for (const [, spanAttributes, spanText] of inner.matchAll(/<span\b([^>]*)>([^<]*)<\/span>/g)) {
+      const attributes = parseAttributes(spanAttributes)
+      if (attributes.begin === undefined) continue
+
+      const wordTiming = parseTiming(attributes)
+      if (!wordTiming || wordTiming.start === null) {
+        errors.push({ field, message: 'Word has an unsupported begin/end/dur time' })
+        return
+      }
+      const text = decodeXml(spanText).trim()
+      if (text) words.push({ tStartMs: wordTiming.start, tEndMs: wordTiming.end, text })
+    }
+
+    const line = decodeXml(inner.replace(/<br\s*\/?>/g, ' ').replace(/<[^>]+>/g, ''))
+      .replace(/\s+/g, ' ')
+      .trim()
+
+    segments.push({
+      tStartMs: timing.start,
+      tEndMs: timing.end,
+      line,
+      ...(words.length > 0 && { words })
+    })
+  })
+
+  if (paragraphs.length === 0) {
+    errors.push({ field: 'document', message: 'No timed <p> elements found' })
+  }
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid TTML document', errors)
+  }
+
+  return { segments, language }
+}
+
+function formatTtmlTime(ms: number): string {
+  const hours = Math.floor(ms / 3_600_000)
+  const minutes = Math.floor(ms / 60_000) % 60
+  const seconds = Math.floor(ms / 1000) % 60
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(ms % 1000, 3)}`
+}
+
+export function toTtml(segments: LyricSegment[], options: { language?: string; durationMs?: number | null } = {}): string {
+  const timing = (start: number, end: number | null) =>
+    `begin="${formatTtmlTime(start)}"${end === null ? '' : ` end="${formatTtmlTime(end)}"`}`
+
+  const paragraphs = segments.map((segment, index) => {
+    const end = segmentEndMs(segments, index, options.durationMs ?? null)
+    const body = segment.words && wordsCoverLine(segment)
+      ? segment.words
+        .map((word, wordIndex) => {
+          const wordEnd = word.tEndMs ?? segment.words![wordIndex + 1]?.tStartMs ?? end
+          return `<span ${timing(word.tStartMs, wordEnd)}>${escapeXml(word.text)}</span>`
+        })
+        .join(' ')
+      : escapeXml(segment.line)
+    return `      <p ${timing(segment.tStartMs, end)}>${body}</p>`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${escapeXml(options.language ?? 'en')}">`,
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    ''
+  ].join('\n')
+}
+
+// ==========================================
+// VALIDATION & PLAYBACK
+// ==========================================
+
+// Lines and words must start in order, must not overlap, must end after they
+// start and must fit in the track when its duration is known
+export function validateSegments(segments: LyricSegment[], durationSeconds: number | null): ValidationIssue[] {
+  const errors: ValidationIssue[] = []
+  const limitMs = durationSeconds === null ? null : durationSeconds * 1000 + DURATION_TOLERANCE_MS
+
+  const checkSpan = (field: string, start: number, end: number | null | undefined) => {
+    if (!Number.isInteger(start) || start < 0) {
+      errors.push({ field: `${field}.tStartMs`, message: 'Must be a non-negative integer' })
+    } else if (limitMs !== null && start >= limitMs) {
+      errors.push({ field: `${field}.tStartMs`, message: `Is past the end of the track (${durationSeconds}s)` })
+    }
+    if (end === null || end === undefined) return
+    if (!Number.isInteger(end) || end <= start) {
+      errors.push({ field: `${field}.tEndMs`, message: 'Must be an integer after tStartMs' })
+    } else if (limitMs !== null && end > limitMs) {
+      errors.push({ field: `${field}.tEndMs`, message: `Is past the end of the track (${durationSeconds}s)` })
+    }
+  }
+
+  segments.forEach((segment, index) => {
+    const field = `segments[${index}]`
+    checkSpan(field, segment.tStartMs, segment.tEndMs)
+
+    const previous = segments[index - 1]
+    if (previous) {
+      if (segment.tStartMs <= previous.tStartMs) {
+        errors.push({ field: `${field}.tStartMs`, message: 'Must be later than the previous line' })
+      } else if (previous.tEndMs !== null && previous.tEndMs !== undefined && segment.tStartMs < previous.tEndMs) {
+        errors.push({ field: `${field}.tStartMs`, message: `Overlaps the previous line, which ends at ${previous.tEndMs}ms` })
+      }
+    }
+
+    segment.words?.forEach((word, wordIndex) => {
+      const wordField = `${field}.words[${wordIndex}]`
+      checkSpan(wordField, word.tStartMs, word.tEndMs)
+
+      const previousWord = segment.words![wordIndex - 1]
+      if (word.tStartMs < segment.tStartMs) {
+        errors.push({ field: `${wordField}.tStartMs`, message: 'Is before the start of its line' })
+      } else if (previousWord && word.tStartMs < (previousWord.tEndMs ?? previousWord.tStartMs + 1)) {
+        errors.push({ field: `${wordField}.tStartMs`, message: 'Must not start before the previous word ends' })
+      }
+
+      const wordEnd = word.tEndMs ?? word.tStartMs
+      if (segment.tEndMs !== null && segment.tEndMs !== undefined && wordEnd > segment.tEndMs) {
+        errors.push({ field: `${wordField}.tEndMs`, message: 'Is after the end of its line' })
+      }
+    })
+  })
+
+  return errors
+}
+
+// End of a line: its own tEndMs, else the next line's start, else the track end
+export function segmentEndMs(segments: LyricSegment[], index: number, durationMs: number | null): number | null {
+  return segments[index].tEndMs ?? segments[index + 1]?.tStartMs ?? durationMs
+}
+
+// The line (and word) being sung at offsetMs, or null between lines
+export function findActiveSegment(segments: LyricSegment[], offsetMs: number, durationMs: number | null): ActiveLyric | null {
+  // Last line starting at or before offsetMs
+  let low = 0
+  let high = segments.length - 1
+  let index = -1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (segments[middle].tStartMs <= offsetMs) {
+      index = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  if (index === -1) return null
+
+  const segment = segments[index]
+  const endMs = segmentEndMs(segments, index, durationMs)
+  if (endMs !== null && offsetMs >= endMs) return null
+
+  const words = segment.words ?? []
+  const word = words.find((candidate, wordIndex) => {
+    const wordEnd = candidate.tEndMs ?? words[wordIndex + 1]?.tStartMs ?? endMs
+    return candidate.tStartMs <= offsetMs && (wordEnd === null || offsetMs < wordEnd)
+  }) ?? null
+
+  return { index, segment, endMs, word }
+}
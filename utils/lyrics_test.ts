@@ -0,0 +1,42 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts'
+import { parseTtml, toLrc, toTtml } from './lyrics.ts'
+
+const mixed = `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="de">
+  <body>
+    <div>
+      <p begin="1s" end="3s">Hallo <span begin="1.5s" end="2s">Welt</span></p>
+      <p begin="3s" end="5s"><span begin="3s" end="4s">Guten</span> <span begin="4s" end="5s">Tag</span></p>
+    </div>
+  </body>
+</tt>`
+
+Deno.test('toTtml keeps untimed text of lines with partial word timings', () => {
+  const { segments, language } = parseTtml(mixed)
+  const exported = parseTtml(toTtml(segments, { language }))
+
+  assertEquals(exported.language, 'de')
+  assertEquals(exported.segments, [
+    { tStartMs: 1000, tEndMs: 3000, line: 'Hallo Welt' },
+    {
+      tStartMs: 3000,
+      tEndMs: 5000,
+      line: 'Guten Tag',
+      words: [
+        { tStartMs: 3000, tEndMs: 4000, text: 'Guten' },
+        { tStartMs: 4000, tEndMs: 5000, text: 'Tag' }
+      ]
+    }
+  ])
+})
+
+Deno.test('toLrc writes word tags only for lines timed word by word', () => {
+  const { segments } = parseTtml(mixed)
+
+  assertEquals(toLrc(segments, { enhanced: true }), [
+    '[00:01.00]Hallo Welt',
+    '[00:03.00]<00:03.00>Guten <00:04.00>Tag <00:05.00>',
+    '[00:05.00]',
+    ''
+  ].join('\n'))
+})
@@ -0,0 +1,226 @@
+import { FORMAT_PATTERNS, isCalendarDate, ValidationError } from '../middleware/validation.ts'
+import type { ValidationIssue } from '../middleware/validation.ts'
+
+export const DEFAULT_PAGE_LIMIT = 20
+export const MAX_PAGE_LIMIT = 100
+
+export type ListFilterType = 'string' | 'uuid' | 'integer' | 'boolean'
+
+export interface ListFilter {
+  type: ListFilterType
+  // Defaults to the query parameter name
+  column?: string
+  enum?: readonly string[]
+}
+
+// Per-endpoint list contract: which columns may be sorted on and which
+// query parameters filter the result
+export interface ListOptions {
+  // First entry is the default sort
+  sortFields: string[]
+  defaultOrder?: 'asc' | 'desc'
+  // Column behind the common created_after / created_before filters
+  timeColumn?: string
+  filters?: Record<string, ListFilter>
+  maxLimit?: number
+}
+
+export interface ListQuery {
+  limit: number
+  sort: { field: string; ascending: boolean }
+  cursor: { value: unknown; id: string } | null
+  filters: { column: string; operator: 'eq' | 'gte' | 'lte'; value: string | number | boolean }[]
+}
+
+export interface CursorPagination {
+  limit: number
+  next_cursor: string | null
+  has_more: boolean
+}
+
+const RESERVED_PARAMS = ['limit', 'cursor', 'sort', 'created_after', 'created_before']
+
+// Parses ?limit, ?cursor, ?sort=field|-field, ?created_after, ?created_before
+// and the endpoint's own filters; throws ValidationError on bad input
+export function parseListQuery(url: URL, options: ListOptions): ListQuery {
+  const params = url.searchParams
+  const errors: ValidationIssue[] = []
+  const maxLimit = options.maxLimit ?? MAX_PAGE_LIMIT
+
+  let limit = DEFAULT_PAGE_LIMIT
+  const rawLimit = params.get('limit')
+  if (rawLimit !== null) {
+    limit = Number(rawLimit)
+    if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+      errors.push({ field: 'limit', message: `Must be an integer between 1 and ${maxLimit}` })
+    }
+  }
+
+  const rawSort = params.get('sort')
+  const sortField = rawSort?.replace(/^-/, '') || options.sortFields[0]
+  const ascending = rawSort
+    ? !rawSort.startsWith('-')
+    : options.defaultOrder === 'asc'
+  if (!options.sortFields.includes(sortField)) {
+    errors.push({ field: 'sort', message: `Must be one of: ${options.sortFields.join(', ')} (prefix with - for descending)` })
+  }
+
+  let cursor: ListQuery['cursor'] = null
+  const rawCursor = params.get('cursor')
+  if (rawCursor) {
+    const decoded = decodeCursor(rawCursor)
+    if (!decoded) {
+      errors.push({ field: 'cursor', message: 'Invalid cursor' })
+    } else if (decoded.field !== sortField || decoded.ascending !== ascending) {
+      errors.push({ field: 'cursor', message: 'Cursor was issued for a different sort order' })
+    } else {
+      cursor = { value: decoded.value, id: decoded.id }
+    }
+  }
+
+  const filters: ListQuery['filters'] = []
+  const timeColumn = options.timeColumn ?? 'created_at'
+  for (const [param, operator] of [['created_after', 'gte'], ['created_before', 'lte']] as const) {
+    const value = params.get(param)
+    if (value === null) continue
+    if ((!FORMAT_PATTERNS['date-time'].test(value) && !FORMAT_PATTERNS.date.test(value)) || !isCalendarDate(value)) {
+      errors.push({ field: param, message: 'Must be an ISO 8601 date or date-time' })
+      continue
+    }
+    filters.push({ column: timeColumn, operator, value })
+  }
+
+  for (const [param, filter] of Object.entries(options.filters ?? {})) {
+    const value = params.get(param)
+    if (value === null) continue
+    const parsed = parseFilterValue(value, filter)
+    if (parsed.error) {
+      errors.push({ field: param, message: parsed.error })
+      continue
+    }
+    filters.push({ column: filter.column ?? param, operator: 'eq', value: parsed.value! })
+  }
+
+  for (const param of params.keys()) {
+    if (!RESERVED_PARAMS.includes(param) && !(options.filters && param in options.filters)) {
+      errors.push({ field: param, message: 'Unknown query parameter' })
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid list parameters', errors)
+  }
+
+  return { limit, sort: { field: sortField, ascending }, cursor, filters }
+}
+
+// The PostgREST filter builder methods a list query needs, as returned by
+// supabase.from(...).select(...)
+export interface ListQueryBuilder<Self> {
+  eq(column: string, value: unknown): Self
+  gte(column: string, value: unknown): Self
+  lte(column: string, value: unknown): Self
+  or(filters: string): Self
+  order(column: string, options: { ascending: boolean; nullsFirst?: boolean }): Self
+  limit(count: number): Self
+}
+
+// Applies filters, keyset ordering and the cursor to a Supabase select.
+// One extra row is fetched so paginate() can tell whether a next page exists.
+export function applyListQuery<Query extends ListQueryBuilder<Query>>(query: Query, list: ListQuery): Query {
+  let builder = query
+  const { field, ascending } = list.sort
+
+  for (const filter of list.filters) {
+    builder = builder[filter.operator](filter.column, filter.value)
+  }
+
+  if (list.cursor) {
+    builder = builder.or(keysetFilter(field, ascending, list.cursor))
+  }
+
+  return builder
+    .order(field, { ascending, nullsFirst: false })
+    .order('id', { ascending })
+    .limit(list.limit + 1)
+}
+
+export function paginate<T extends Record<string, any>>(
+  rows: T[] | null,
+  list: ListQuery
+): { items: T[]; pagination: CursorPagination } {
+  const items = (rows ?? []).slice(0, list.limit)
+  const hasMore = (rows ?? []).length > list.limit
+  const last = items[items.length - 1]
+
+  return {
+    items,
+    pagination: {
+      limit: list.limit,
+      next_cursor: hasMore && last
+        ? encodeCursor(list.sort.field, list.sort.ascending, last[list.sort.field] ?? null, last.id)
+        : null,
+      has_more: hasMore
+    }
+  }
+}
+
+// Cursors are opaque to clients: base64url of [field, direction, value, id]
+function encodeCursor(field: string, ascending: boolean, value: unknown, id: string): string {
+  return btoa(JSON.stringify([field, ascending ? 'asc' : 'desc', value, id]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+function decodeCursor(cursor: string) {
+  try {
+    const [field, direction, value, id] = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')))
+    if (typeof field !== 'string' || typeof id !== 'string' || !FORMAT_PATTERNS.uuid.test(id)) return null
+    if (direction !== 'asc' && direction !== 'desc') return null
+    if (value !== null && typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') return null
+    return { field, ascending: direction === 'asc', value, id }
+  } catch {
+    return null
+  }
+}
+
+// Rows strictly after the cursor in (field, id) order; NULLs sort last
+function keysetFilter(field: string, ascending: boolean, cursor: { value: unknown; id: string }): string {
+  const past = ascending ? 'gt' : 'lt'
+  const id = quote(cursor.id)
+
+  if (cursor.value === null) {
+    return `and(${field}.is.null,id.${past}.${id})`
+  }
+
+  const value = quote(String(cursor.value))
+  return `${field}.${past}.${value},and(${field}.eq.${value},id.${past}.${id}),${field}.is.null`
+}
+
+// PostgREST filter values may contain reserved characters (timestamps, commas)
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+function parseFilterValue(value: string, filter: ListFilter): { value?: string | number | boolean; error?: string } {
+  switch (filter.type) {
+    case 'integer':
+      return Number.isInteger(Number(value)) && value.trim() !== ''
+        ? { value: Number(value) }
+        : { error: 'Must be an integer' }
+    case 'boolean':
+      return value === 'true' || value === 'false'
+        ? { value: value === 'true' }
+        : { error: 'Must be true or false' }
+    case 'uuid':
+      return FORMAT_PATTERNS.uuid.test(value)
+        ? { value }
+        : { error: 'Must be a valid UUID' }
+    default:
+      if (filter.enum && !filter.enum.includes(value)) {
+        return { error: `Must be one of: ${filter.enum.join(', ')}` }
+      }
+      return { value }
+  }
+}
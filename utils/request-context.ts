@@ -0,0 +1,51 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+// Per-request values readable anywhere below handleRequest without threading
+// them through every call
+export interface RequestContext {
+  requestId: string
+  startedAt: number
+  route?: string // matched route pattern, e.g. '/content/:id/metadata'
+  userId?: string
+  clientIp?: string // caller's address, see resolveClientIp()
+  country?: string | null // caller's country once resolved for geoblocking
+}
+
+const storage = new AsyncLocalStorage<RequestContext>()
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/
+
+// Reverse proxies in front of the API, each appending the address it saw to
+// X-Forwarded-For. Entries left of theirs are client-supplied and ignored.
+const trustedProxyCount = Math.max(0, Math.floor(Number(Deno.env.get('TRUSTED_PROXY_COUNT') ?? 0)) || 0)
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn)
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore()
+}
+
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId
+}
+
+// The connection's peer, or with TRUSTED_PROXY_COUNT proxies the address the
+// outermost proxy saw, i.e. that many hops from the right of X-Forwarded-For
+export function resolveClientIp(req: Request, remoteAddr: string | null): string {
+  if (trustedProxyCount > 0) {
+    const hops = (req.headers.get('X-Forwarded-For') ?? '')
+      .split(',')
+      .map((hop) => hop.trim())
+      .filter(Boolean)
+    if (hops.length >= trustedProxyCount) return hops[hops.length - trustedProxyCount]
+  }
+  return remoteAddr ?? 'unknown'
+}
+
+// Honours a well-formed incoming X-Request-Id so ids can span services
+export function resolveRequestId(req: Request): string {
+  const incoming = req.headers.get('X-Request-Id')
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID()
+}
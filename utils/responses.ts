@@ -1,11 +1,15 @@
 import { corsHeaders } from '../middleware/cors.ts'
+import type { ValidationIssue } from '../middleware/validation.ts'
+import { getRequestId } from './request-context.ts'
+import type { CursorPagination } from './pagination.ts'
 
-interface ApiResponse<T = any> {
+export interface ApiResponse<T = any> {
   success: boolean
   data?: T
   error?: string
   message?: string
   timestamp: string
+  requestId?: string
 }
 
 export function createSuccessResponse<T>(
@@ -17,7 +21,8 @@ export function createSuccessResponse<T>(
     success: true,
     data,
     message,
-    timestamp: new Date().toISOString()
+    timestamp: new Date().toISOString(),
+    requestId: getRequestId()
   }
 
   return new Response(JSON.stringify(response), {
@@ -38,6 +43,7 @@ export function createErrorResponse(
     success: false,
     error,
     timestamp: new Date().toISOString(),
+    requestId: getRequestId(),
     ...(details && { details })
   }
 
@@ -51,23 +57,17 @@ export function createErrorResponse(
 }
 
 export function createPaginatedResponse<T>(
-  data: T[], 
-  page: number, 
-  limit: number, 
-  total: number
+  data: T[],
+  pagination: CursorPagination,
+  meta?: Record<string, unknown>
 ): Response {
   const response = {
     success: true,
     data,
-    pagination: {
-      page,
-      limit,
-      total,
-      totalPages: Math.ceil(total / limit),
-      hasNext: page * limit < total,
-      hasPrev: page > 1
-    },
-    timestamp: new Date().toISOString()
+    pagination,
+    ...(meta && { meta }),
+    timestamp: new Date().toISOString(),
+    requestId: getRequestId()
   }
 
   return new Response(JSON.stringify(response), {
@@ -79,7 +79,7 @@ export function createPaginatedResponse<T>(
   })
 }
 
-export function createValidationErrorResponse(errors: string[]): Response {
+export function createValidationErrorResponse(errors: ValidationIssue[]): Response {
   return createErrorResponse(
     'Validation failed',
     422,
@@ -94,6 +94,16 @@ export function createNotFoundResponse(resource: string): Response {
   )
 }
 
+export function createMethodNotAllowedResponse(allowedMethods: string[]): Response {
+  const response = createErrorResponse(
+    'Method not allowed',
+    405,
+    { allowedMethods }
+  )
+  response.headers.set('Allow', allowedMethods.join(', '))
+  return response
+}
+
 export function createUnauthorizedResponse(message: string = 'Unauthorized'): Response {
   return createErrorResponse(message, 401)
 }
@@ -102,9 +112,24 @@ export function createForbiddenResponse(message: string = 'Forbidden'): Response
   return createErrorResponse(message, 403)
 }
 
-export function createRateLimitResponse(): Response {
+export function createRateLimitResponse(retryAfterSeconds?: number): Response {
   return createErrorResponse(
-    'Rate limit exceeded. Please try again later.',
-    429
+    retryAfterSeconds !== undefined
+      ? `Rate limit exceeded. Try again in ${retryAfterSeconds} seconds.`
+      : 'Rate limit exceeded. Please try again later.',
+    429,
+    { code: 'RATE_LIMIT_ERROR', ...(retryAfterSeconds !== undefined && { retryAfter: retryAfterSeconds }) }
   )
-} 
\ No newline at end of file
+}
+
+// Copy of a response with extra headers set (handler responses may have immutable headers)
+export function withHeaders(response: Response, extra: Record<string, string>): Response {
+  const headers = new Headers(response.headers)
+  Object.entries(extra).forEach(([key, value]) => headers.set(key, value))
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  })
+}
@@ -0,0 +1,483 @@
+import { FORMAT_PATTERNS, isCalendarDate } from '../middleware/validation.ts'
+import { childBoxes, findBox } from './audio-inspector.ts'
+import type { AudioFormat, Box } from './audio-inspector.ts'
+
+// Same shape as MetadataExtractor's result in supabase/functions/process-lyrics:
+// values keyed by content_items column, each with a 0..1 confidence
+export interface TagExtraction {
+  metadata: Record<string, any>
+  confidence: Record<string, number>
+  errors: string[]
+  tagFormat: string | null // e.g. 'id3v2.4', 'vorbis', 'mp4'
+  coverArt: CoverArt | null
+}
+
+export interface CoverArt {
+  mimeType: 'image/jpeg' | 'image/png'
+  bytes: Uint8Array
+}
+
+export const MAX_COVER_ART_BYTES = 5242880
+
+// Fields a tag can suggest, with the column limits from updateMetadataSchema
+const TEXT_LIMITS: Record<string, number> = {
+  title: 200,
+  album_name: 200,
+  record_label: 200,
+  p_line: 300
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length))
+}
+
+function synchsafe(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] & 0x7f) << 21 | (bytes[offset + 1] & 0x7f) << 14 |
+    (bytes[offset + 2] & 0x7f) << 7 | (bytes[offset + 3] & 0x7f)
+}
+
+function uint32(bytes: Uint8Array, offset: number, littleEndian = false): number {
+  return new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0, littleEndian)
+}
+
+function sniffImage(bytes: Uint8Array): CoverArt['mimeType'] | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg'
+  if (ascii(bytes, 1, 3) === 'PNG' && bytes[0] === 0x89) return 'image/png'
+  return null
+}
+
+// Collects suggestions from every tag in the file; when two tags carry the
+// same field, the more trustworthy source wins
+function createCollector() {
+  const result: TagExtraction = { metadata: {}, confidence: {}, errors: [], tagFormat: null, coverArt: null }
+
+  function suggest(field: string, value: unknown, confidence: number) {
+    if (value === null || value === undefined || value === '') return
+    if ((result.confidence[field] ?? 0) >= confidence) return
+    result.metadata[field] = value
+    result.confidence[field] = confidence
+  }
+
+  return {
+    result,
+
+    text(field: string, raw: string | undefined, confidence: number) {
+      const value = raw?.trim()
+      if (!value) return
+
+      switch (field) {
+        case 'track_number': {
+          // "3" or "3/12"
+          const track = Number(value.split('/')[0])
+          if (Number.isInteger(track) && track >= 1) suggest(field, track, confidence)
+          else result.errors.push(`Track number "${value}" is not a positive integer`)
+          return
+        }
+        case 'isrc': {
+          const isrc = value.toUpperCase().replace(/[-\s]/g, '')
+          if (FORMAT_PATTERNS.isrc.test(isrc)) suggest(field, isrc, confidence)
+          else result.errors.push(`ISRC "${value}" is not a valid ISRC`)
+          return
+        }
+        case 'release_date': {
+          // Only full dates; a bare year says too little about the release
+          const date = value.slice(0, 10)
+          if (FORMAT_PATTERNS.date.test(date) && isCalendarDate(date)) suggest(field, date, confidence)
+          return
+        }
+        default:
+          suggest(field, value.slice(0, TEXT_LIMITS[field] ?? value.length), confidence)
+      }
+    },
+
+    flag(field: string, value: boolean | null, confidence: number) {
+      if (value !== null) suggest(field, value, confidence)
+    },
+
+    picture(bytes: Uint8Array, front: boolean) {
+      const mimeType = sniffImage(bytes)
+      if (!mimeType) {
+        result.errors.push('Embedded picture is not a JPEG or PNG image')
+        return
+      }
+      if (bytes.length > MAX_COVER_ART_BYTES) {
+        result.errors.push(`Embedded picture is larger than ${MAX_COVER_ART_BYTES} bytes`)
+        return
+      }
+      // The front cover beats any other picture
+      if (!result.coverArt || front) {
+        result.coverArt = { mimeType, bytes: bytes.slice() }
+      }
+    },
+
+    format(tagFormat: string) {
+      result.tagFormat ??= tagFormat
+    }
+  }
+}
+
+type Collector = ReturnType<typeof createCollector>
+
+// iTunes content advisory: 1 (or 4) explicit, 2 clean, 0 not rated
+function advisory(value: number | string | undefined): boolean | null {
+  const rating = Number(value)
+  if (rating === 1 || rating === 4) return true
+  if (rating === 2) return false
+  return null
+}
+
+function yesNo(value: string | undefined): boolean | null {
+  const normalized = value?.trim().toLowerCase()
+  if (normalized === '1' || normalized === 'true' || normalized === 'yes') return true
+  if (normalized === '0' || normalized === 'false' || normalized === 'no') return false
+  return null
+}
+
+// ==========================================
+// ID3v2 (MP3, AAC)
+// ==========================================
+
+// ID3v2.2 three-character frames, as their v2.3 names
+const ID3V22_FRAMES: Record<string, string> = {
+  TT2: 'TIT2', TAL: 'TALB', TRK: 'TRCK', TRC: 'TSRC', TPB: 'TPUB',
+  TYE: 'TYER', TDA: 'TDAT', TXX: 'TXXX'
+}
+
+const ID3_TEXT_FRAMES: Record<string, [field: string, confidence: number]> = {
+  TIT2: ['title', 0.9],
+  TALB: ['album_name', 0.9],
+  TRCK: ['track_number', 0.9],
+  TSRC: ['isrc', 0.9],
+  TPUB: ['record_label', 0.7], // "publisher" is usually the label
+  TPRO: ['p_line', 0.8],
+  TDRL: ['release_date', 0.8],
+  TDRC: ['release_date', 0.7]
+}
+
+const ID3_USER_FRAMES: Record<string, [field: string, confidence: number]> = {
+  ISRC: ['isrc', 0.8],
+  LABEL: ['record_label', 0.8]
+}
+
+// Reverses unsynchronisation: every 0xFF 0x00 was 0xFF
+function resynchronise(bytes: Uint8Array): Uint8Array {
+  const out: number[] = []
+  for (let i = 0; i < bytes.length; i++) {
+    out.push(bytes[i])
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++
+  }
+  return Uint8Array.from(out)
+}
+
+function decodeId3Text(encoding: number, bytes: Uint8Array): string {
+  switch (encoding) {
+    case 0: return String.fromCharCode(...bytes) // ISO-8859-1
+    case 1: return bytes[0] === 0xfe && bytes[1] === 0xff
+      ? new TextDecoder('utf-16be').decode(bytes.subarray(2))
+      : new TextDecoder('utf-16le').decode(bytes[0] === 0xff && bytes[1] === 0xfe ? bytes.subarray(2) : bytes)
+    case 2: return new TextDecoder('utf-16be').decode(bytes)
+    default: return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+// End of a NUL-terminated string from start: one zero byte, or an aligned
+// pair of them in UTF-16
+function terminator(bytes: Uint8Array, encoding: number, start: number): number {
+  const wide = encoding === 1 || encoding === 2
+  for (let i = start; i + (wide ? 1 : 0) < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i
+  }
+  return bytes.length
+}
+
+function id3Text(data: Uint8Array): string {
+  // Multiple values are NUL-separated in v2.4; the first one is kept
+  return decodeId3Text(data[0], data.subarray(1)).split('\0')[0]
+}
+
+function readId3Frame(id: string, data: Uint8Array, collect: Collector) {
+  if (data.length < 2) return
+
+  if (ID3_TEXT_FRAMES[id]) {
+    const [field, confidence] = ID3_TEXT_FRAMES[id]
+    collect.text(field, id3Text(data), confidence)
+  } else if (id === 'TXXX') {
+    const encoding = data[0]
+    const end = terminator(data, encoding, 1)
+    const description = decodeId3Text(encoding, data.subarray(1, end)).toUpperCase()
+    const value = decodeId3Text(encoding, data.subarray(end + (encoding === 1 || encoding === 2 ? 2 : 1))).split('\0')[0]
+
+    if (ID3_USER_FRAMES[description]) {
+      const [field, confidence] = ID3_USER_FRAMES[description]
+      collect.text(field, value, confidence)
+    } else if (description === 'ITUNESADVISORY') {
+      collect.flag('explicit', advisory(value), 0.9)
+    } else if (description === 'EXPLICIT') {
+      collect.flag('explicit', yesNo(value), 0.8)
+    }
+  } else if (id === 'APIC' || id === 'PIC') {
+    const encoding = data[0]
+    // v2.2 has a three-letter image format instead of a MIME type
+    const typeOffset = id === 'PIC' ? 4 : terminator(data, 0, 1) + 1
+    const pictureType = data[typeOffset]
+    const descriptionEnd = terminator(data, encoding, typeOffset + 1)
+    const start = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1)
+    collect.picture(data.subarray(start), pictureType === 3)
+  }
+}
+
+function readId3v2(bytes: Uint8Array, collect: Collector) {
+  if (bytes.length < 10 || ascii(bytes, 0, 3) !== 'ID3') return
+
+  const major = bytes[3]
+  const flags = bytes[5]
+  if (major < 2 || major > 4) {
+    collect.result.errors.push(`ID3v2.${major} tags are not supported`)
+    return
+  }
+  // v2.2 used this flag for a compression scheme that was never defined
+  if (major === 2 && flags & 0x40) return
+
+  collect.format(`id3v2.${major}`)
+  let body = bytes.subarray(10, Math.min(bytes.length, 10 + synchsafe(bytes, 6)))
+  if (major < 4 && flags & 0x80) body = resynchronise(body)
+
+  let offset = 0
+  if (major > 2 && flags & 0x40 && body.length >= 4) {
+    // Extended header: v2.3 size excludes its own 4 bytes, v2.4 includes them
+    offset = major === 3 ? 4 + uint32(body, 0) : synchsafe(body, 0)
+  }
+
+  const idLength = major === 2 ? 3 : 4
+  const headerLength = major === 2 ? 6 : 10
+  const frames: Record<string, Uint8Array> = {}
+
+  while (offset + headerLength <= body.length) {
+    const rawId = ascii(body, offset, idLength)
+    if (!/^[A-Z0-9]+$/.test(rawId)) break // padding
+
+    const size = major === 2
+      ? body[offset + 3] << 16 | body[offset + 4] << 8 | body[offset + 5]
+      : major === 4 ? synchsafe(body, offset + 4) : uint32(body, offset + 4)
+    const frameFlags = major === 2 ? 0 : body[offset + 9]
+    let data = body.subarray(offset + headerLength, Math.min(body.length, offset + headerLength + size))
+    offset += headerLength + size
+
+    const id = major === 2 ? ID3V22_FRAMES[rawId] ?? rawId : rawId
+    // Compressed or encrypted frames are skipped
+    if (major === 3 && frameFlags & 0xc0) continue
+    if (major === 4) {
+      if (frameFlags & 0x0c) continue
+      if (frameFlags & 0x01) data = data.subarray(4) // data length indicator
+      if (frameFlags & 0x02) data = resynchronise(data)
+    }
+
+    frames[id] ??= data
+    readId3Frame(id, data, collect)
+  }
+
+  // v2.3 splits the date: TYER "2024", TDAT "DDMM"
+  if (frames.TYER && frames.TDAT) {
+    const year = id3Text(frames.TYER).trim()
+    const dayMonth = id3Text(frames.TDAT).trim()
+    if (/^\d{4}$/.test(year) && /^\d{4}$/.test(dayMonth)) {
+      collect.text('release_date', `${year}-${dayMonth.slice(2)}-${dayMonth.slice(0, 2)}`, 0.7)
+    }
+  }
+}
+
+// ID3v1: fixed 128 bytes at the end; low confidence since fields are cut at 30 characters
+function readId3v1(bytes: Uint8Array, collect: Collector) {
+  const start = bytes.length - 128
+  if (start < 0 || ascii(bytes, start, 3) !== 'TAG') return
+
+  collect.format('id3v1')
+  const field = (offset: number) => String.fromCharCode(...bytes.subarray(start + offset, start + offset + 30)).split('\0')[0]
+  collect.text('title', field(3), 0.5)
+  collect.text('album_name', field(63), 0.5)
+  // ID3v1.1 keeps the track in the last comment byte
+  if (bytes[start + 125] === 0 && bytes[start + 126] !== 0) {
+    collect.text('track_number', String(bytes[start + 126]), 0.5)
+  }
+}
+
+// ==========================================
+// VORBIS COMMENTS (FLAC)
+// ==========================================
+
+const VORBIS_FIELDS: Record<string, [field: string, confidence: number]> = {
+  TITLE: ['title', 0.9],
+  ALBUM: ['album_name', 0.9],
+  TRACKNUMBER: ['track_number', 0.9],
+  ISRC: ['isrc', 0.9],
+  LABEL: ['record_label', 0.8],
+  ORGANIZATION: ['record_label', 0.8],
+  PUBLISHER: ['record_label', 0.7],
+  RELEASEDATE: ['release_date', 0.8],
+  DATE: ['release_date', 0.7]
+}
+
+// FLAC PICTURE block, also found base64-encoded as METADATA_BLOCK_PICTURE
+function readFlacPicture(bytes: Uint8Array, collect: Collector) {
+  if (bytes.length < 32) return
+  const pictureType = uint32(bytes, 0)
+  let offset = 4
+  offset += 4 + uint32(bytes, offset) // MIME type
+  offset += 4 + uint32(bytes, offset) // description
+  offset += 16 // width, height, depth, colors
+  if (offset + 4 > bytes.length) return
+  const length = uint32(bytes, offset)
+  collect.picture(bytes.subarray(offset + 4, offset + 4 + length), pictureType === 3)
+}
+
+function readVorbisComments(bytes: Uint8Array, collect: Collector) {
+  const decoder = new TextDecoder('utf-8')
+  let offset = 4 + uint32(bytes, 0, true) // vendor string
+  if (offset + 4 > bytes.length) return
+  const count = uint32(bytes, offset, true)
+  offset += 4
+
+  collect.format('vorbis')
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = uint32(bytes, offset, true)
+    const comment = decoder.decode(bytes.subarray(offset + 4, offset + 4 + length))
+    offset += 4 + length
+
+    const separator = comment.indexOf('=')
+    if (separator <= 0) continue
+    const key = comment.slice(0, separator).toUpperCase()
+    const value = comment.slice(separator + 1)
+
+    if (VORBIS_FIELDS[key]) {
+      const [field, confidence] = VORBIS_FIELDS[key]
+      collect.text(field, value, confidence)
+    } else if (key === 'ITUNESADVISORY') {
+      collect.flag('explicit', advisory(value), 0.9)
+    } else if (key === 'EXPLICIT') {
+      collect.flag('explicit', yesNo(value), 0.8)
+    } else if (key === 'METADATA_BLOCK_PICTURE') {
+      try {
+        readFlacPicture(Uint8Array.from(atob(value.trim()), char => char.charCodeAt(0)), collect)
+      } catch {
+        collect.result.errors.push('METADATA_BLOCK_PICTURE is not valid base64')
+      }
+    }
+  }
+}
+
+function readFlacTags(bytes: Uint8Array, collect: Collector) {
+  let offset = 0
+  while (offset + 10 <= bytes.length && ascii(bytes, offset, 3) === 'ID3') {
+    offset += 10 + synchsafe(bytes, offset + 6) + (bytes[offset + 5] & 0x10 ? 10 : 0)
+  }
+  if (ascii(bytes, offset, 4) !== 'fLaC') return
+  offset += 4
+
+  let last = false
+  while (!last && offset + 4 <= bytes.length) {
+    last = (bytes[offset] & 0x80) !== 0
+    const type = bytes[offset] & 0x7f
+    const length = bytes[offset + 1] << 16 | bytes[offset + 2] << 8 | bytes[offset + 3]
+    const block = bytes.subarray(offset + 4, Math.min(bytes.length, offset + 4 + length))
+    offset += 4 + length
+
+    if (type === 4) readVorbisComments(block, collect)
+    else if (type === 6) readFlacPicture(block, collect)
+  }
+}
+
+// ==========================================
+// MP4 ATOMS (M4A)
+// ==========================================
+
+const MP4_TEXT_ITEMS: Record<string, [field: string, confidence: number]> = {
+  '©nam': ['title', 0.9],
+  '©alb': ['album_name', 0.9],
+  '©day': ['release_date', 0.7]
+}
+
+// Freeform '----' items under the com.apple.iTunes namespace
+const MP4_FREEFORM_ITEMS: Record<string, [field: string, confidence: number]> = {
+  ISRC: ['isrc', 0.9],
+  LABEL: ['record_label', 0.8]
+}
+
+// An item's value sits in its 'data' child after a type and a locale
+function mp4Data(bytes: Uint8Array, item: Box): Uint8Array | null {
+  const data = childBoxes(bytes, item.start, item.end).find(box => box.type === 'data')
+  return data && data.end - data.start >= 8 ? bytes.subarray(data.start + 8, data.end) : null
+}
+
+function readMp4Tags(bytes: Uint8Array, collect: Collector) {
+  const meta = findBox(bytes, null, ['moov', 'udta', 'meta'])
+  if (!meta) return
+  // meta is a full box: version and flags come before its children
+  const ilst = childBoxes(bytes, meta.start + 4, meta.end).find(box => box.type === 'ilst')
+  if (!ilst) return
+
+  collect.format('mp4')
+  const decoder = new TextDecoder('utf-8')
+
+  for (const item of childBoxes(bytes, ilst.start, ilst.end)) {
+    if (item.type === '----') {
+      const children = childBoxes(bytes, item.start, item.end)
+      const name = children.find(box => box.type === 'name')
+      const value = mp4Data(bytes, item)
+      if (!name || !value) continue
+      const key = decoder.decode(bytes.subarray(name.start + 4, name.end)).toUpperCase()
+      if (MP4_FREEFORM_ITEMS[key]) {
+        const [field, confidence] = MP4_FREEFORM_ITEMS[key]
+        collect.text(field, decoder.decode(value), confidence)
+      }
+      continue
+    }
+
+    const value = mp4Data(bytes, item)
+    if (!value) continue
+
+    if (MP4_TEXT_ITEMS[item.type]) {
+      const [field, confidence] = MP4_TEXT_ITEMS[item.type]
+      collect.text(field, decoder.decode(value), confidence)
+    } else if (item.type === 'trkn' && value.length >= 4) {
+      // reserved, track, total, reserved
+      collect.text('track_number', String(value[2] << 8 | value[3]), 0.9)
+    } else if (item.type === 'rtng' && value.length >= 1) {
+      collect.flag('explicit', advisory(value[0]), 0.9)
+    } else if (item.type === 'covr') {
+      collect.picture(value, true)
+    }
+  }
+}
+
+// ==========================================
+// ENTRY POINT
+// ==========================================
+
+// Reads title, album, track number, ISRC, label, P-line, release date, the
+// explicit flag and cover art from the tags of an inspected audio file.
+// Never throws on a bad tag: what cannot be read is listed in errors.
+export function readEmbeddedTags(bytes: Uint8Array, format: AudioFormat): TagExtraction {
+  const collect = createCollector()
+
+  try {
+    switch (format) {
+      case 'mp3':
+      case 'aac':
+        readId3v2(bytes, collect)
+        readId3v1(bytes, collect)
+        break
+      case 'flac':
+        readId3v2(bytes, collect)
+        readFlacTags(bytes, collect)
+        break
+      case 'm4a':
+        readMp4Tags(bytes, collect)
+        break
+    }
+  } catch (error) {
+    // A malformed tag keeps whatever was read before it
+    collect.result.errors.push(`Tags could not be read completely: ${error.message}`)
+  }
+
+  return collect.result
+}
@@ -0,0 +1,43 @@
+import { ValidationError } from '../middleware/validation.ts'
+
+// tus resumable upload protocol, https://tus.io/protocols/resumable-upload
+export const TUS_VERSION = '1.0.0'
+export const TUS_EXTENSIONS = ['creation', 'termination', 'expiration']
+export const TUS_CHUNK_CONTENT_TYPE = 'application/offset+octet-stream'
+
+function decodeBase64Utf8(value: string): string {
+  const binary = atob(value)
+  return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
+
+// Upload-Metadata: comma-separated `key base64(value)` pairs, the value may be
+// omitted. Keys must be unique.
+export function parseUploadMetadata(header: string | null): Record<string, string> {
+  const metadata: Record<string, string> = {}
+  if (!header || header.trim() === '') return metadata
+
+  for (const pair of header.split(',')) {
+    const [key, value, ...rest] = pair.trim().split(' ')
+    if (!key || rest.length > 0 || key in metadata) {
+      throw new ValidationError('Invalid Upload-Metadata', [
+        { field: 'Upload-Metadata', message: 'Must be comma-separated "key base64value" pairs with unique keys' }
+      ])
+    }
+
+    try {
+      metadata[key] = value === undefined ? '' : decodeBase64Utf8(value)
+    } catch {
+      throw new ValidationError('Invalid Upload-Metadata', [
+        { field: `Upload-Metadata.${key}`, message: 'Value must be base64-encoded UTF-8' }
+      ])
+    }
+  }
+  return metadata
+}
+
+// Upload-Length / Upload-Offset: a non-negative integer, null when absent or malformed
+export function parseByteCount(header: string | null): number | null {
+  if (header === null || !/^\d+$/.test(header.trim())) return null
+  const value = Number(header.trim())
+  return Number.isSafeInteger(value) ? value : null
+}
@@ -0,0 +1,429 @@
+import { ValidationError } from '../middleware/validation.ts'
+
+// Shape of content_items.waveform_peaks: one min/max pair per bucket for each
+// resolution, interleaved as [min0, max0, min1, max1, ...] and scaled to
+// -127..127. Channels are mixed into one envelope.
+export interface WaveformPeaks {
+  version: 1
+  bits: 8
+  sample_rate: number
+  channels: number
+  duration_ms: number
+  resolutions: Record<string, number[]>
+}
+
+export const DEFAULT_WAVEFORM_RESOLUTIONS = [200, 1000]
+
+const MAX_RESOLUTION = 10000
+
+function unsupported(message: string): ValidationError {
+  return new ValidationError('Waveform cannot be generated', [{ field: 'file', message }])
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length))
+}
+
+// Collects per-bucket extremes for several resolutions in one pass over the
+// samples, which arrive as floats in -1..1
+function createPeakAccumulator(totalFrames: number, resolutions: number[]) {
+  const buckets = resolutions.map(count => ({
+    count,
+    min: new Float32Array(count).fill(Infinity),
+    max: new Float32Array(count).fill(-Infinity)
+  }))
+
+  return {
+    add(frame: number, sample: number) {
+      for (const bucket of buckets) {
+        const index = Math.min(bucket.count - 1, Math.floor(frame * bucket.count / totalFrames))
+        if (sample < bucket.min[index]) bucket.min[index] = sample
+        if (sample > bucket.max[index]) bucket.max[index] = sample
+      }
+    },
+
+    result(): Record<string, number[]> {
+      const scale = (value: number) => Math.max(-127, Math.min(127, Math.round(value * 127)))
+      return Object.fromEntries(buckets.map(bucket => {
+        const data: number[] = []
+        for (let i = 0; i < bucket.count; i++) {
+          // Buckets no sample fell into (more buckets than frames) are silent
+          const empty = bucket.min[i] === Infinity
+          data.push(empty ? 0 : scale(bucket.min[i]), empty ? 0 : scale(bucket.max[i]))
+        }
+        return [String(bucket.count), data]
+      }))
+    }
+  }
+}
+
+type PeakAccumulator = ReturnType<typeof createPeakAccumulator>
+
+interface DecodedStream {
+  sampleRate: number
+  channels: number
+  totalFrames: number
+}
+
+// ==========================================
+// WAV (PCM AND IEEE FLOAT)
+// ==========================================
+
+const WAVE_FORMAT_PCM = 1
+const WAVE_FORMAT_IEEE_FLOAT = 3
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe
+
+function decodeWav(bytes: Uint8Array, resolutions: number[]): DecodedStream & { peaks: PeakAccumulator } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let format: { code: number; channels: number; sampleRate: number; blockAlign: number; bitDepth: number } | null = null
+
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4)
+    const size = view.getUint32(offset + 4, true)
+    const body = offset + 8
+
+    if (id === 'fmt ' && size >= 16 && body + 16 <= bytes.length) {
+      const code = view.getUint16(body, true)
+      format = {
+        // The extensible subformat GUID starts with the actual format code
+        code: code === WAVE_FORMAT_EXTENSIBLE && size >= 40 ? view.getUint16(body + 24, true) : code,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bitDepth: view.getUint16(body + 14, true)
+      }
+    } else if (id === 'data') {
+      if (!format || format.channels === 0 || format.blockAlign === 0) throw unsupported('WAV data chunk has no usable fmt chunk')
+
+      const { code, channels, blockAlign, bitDepth } = format
+      const bytesPerSample = blockAlign / channels
+      const read = sampleReader(view, code, bytesPerSample)
+      if (!read) throw unsupported(`WAV sample format ${code} with ${bitDepth} bits is not supported`)
+
+      const dataSize = size === 0 || body + size > bytes.length ? bytes.length - body : size
+      const totalFrames = Math.floor(dataSize / blockAlign)
+      if (totalFrames === 0) throw unsupported('WAV file contains no samples')
+
+      const peaks = createPeakAccumulator(totalFrames, resolutions)
+      for (let frame = 0; frame < totalFrames; frame++) {
+        const start = body + frame * blockAlign
+        for (let channel = 0; channel < channels; channel++) {
+          peaks.add(frame, read(start + channel * bytesPerSample))
+        }
+      }
+      return { sampleRate: format.sampleRate, channels, totalFrames, peaks }
+    }
+
+    offset = body + size + (size & 1)
+  }
+  throw unsupported('WAV file has no data chunk')
+}
+
+// Reads one sample at a byte offset as a float in -1..1
+function sampleReader(view: DataView, code: number, bytesPerSample: number) {
+  if (code === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bytesPerSample === 4) return (at: number) => view.getFloat32(at, true)
+    if (bytesPerSample === 8) return (at: number) => view.getFloat64(at, true)
+    return null
+  }
+  if (code !== WAVE_FORMAT_PCM) return null
+
+  switch (bytesPerSample) {
+    case 1: return (at: number) => (view.getUint8(at) - 128) / 128 // 8-bit PCM is unsigned
+    case 2: return (at: number) => view.getInt16(at, true) / 32768
+    case 3: return (at: number) => ((view.getUint8(at + 2) << 24 | view.getUint8(at + 1) << 16 | view.getUint8(at) << 8) >> 8) / 8388608
+    case 4: return (at: number) => view.getInt32(at, true) / 2147483648
+    default: return null
+  }
+}
+
+// ==========================================
+// FLAC
+// ==========================================
+
+class BitReader {
+  position = 0 // in bits
+
+  constructor(private bytes: Uint8Array) {}
+
+  get byteOffset(): number {
+    return Math.ceil(this.position / 8)
+  }
+
+  // Up to 32 bits, unsigned
+  read(count: number): number {
+    let value = 0
+    while (count > 0) {
+      const byte = this.bytes[this.position >>> 3]
+      if (byte === undefined) throw new RangeError('Unexpected end of FLAC stream')
+      const available = 8 - (this.position & 7)
+      const take = Math.min(available, count)
+      value = value * 2 ** take + ((byte >>> (available - take)) & ((1 << take) - 1))
+      count -= take
+      this.position += take
+    }
+    return value
+  }
+
+  readSigned(count: number): number {
+    if (count === 0) return 0
+    const value = this.read(count)
+    return value >= 2 ** (count - 1) ? value - 2 ** count : value
+  }
+
+  // Number of 0 bits before the next 1 bit, which is consumed
+  readUnary(): number {
+    let count = 0
+    for (;;) {
+      const byte = this.bytes[this.position >>> 3]
+      if (byte === undefined) throw new RangeError('Unexpected end of FLAC stream')
+      const offset = this.position & 7
+      const rest = (byte << offset) & 0xff
+      if (rest === 0) {
+        count += 8 - offset
+        this.position += 8 - offset
+        continue
+      }
+      const zeros = Math.clz32(rest) - 24
+      this.position += zeros + 1
+      return count + zeros
+    }
+  }
+
+  alignToByte() {
+    this.position = this.byteOffset * 8
+  }
+
+  seekToByte(offset: number) {
+    this.position = offset * 8
+  }
+}
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]]
+
+function readResidual(reader: BitReader, blockSize: number, order: number, samples: Int32Array | number[]) {
+  const method = reader.read(2)
+  if (method > 1) throw new Error('Reserved residual coding method')
+  const parameterBits = method === 0 ? 4 : 5
+  const escape = method === 0 ? 15 : 31
+  const partitionOrder = reader.read(4)
+  const partitions = 1 << partitionOrder
+
+  let index = order
+  for (let partition = 0; partition < partitions; partition++) {
+    const count = (blockSize >> partitionOrder) - (partition === 0 ? order : 0)
+    const parameter = reader.read(parameterBits)
+
+    if (parameter === escape) {
+      const bits = reader.read(5)
+      for (let i = 0; i < count; i++) samples[index++] = reader.readSigned(bits)
+      continue
+    }
+    for (let i = 0; i < count; i++) {
+      const folded = reader.readUnary() * 2 ** parameter + reader.read(parameter)
+      // Zigzag: 0, -1, 1, -2, ... without 32-bit overflow
+      samples[index++] = folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2
+    }
+  }
+}
+
+function decodeSubframe(reader: BitReader, blockSize: number, bitDepth: number): number[] {
+  if (reader.read(1) !== 0) throw new Error('Invalid subframe padding')
+  const type = reader.read(6)
+  let wasted = 0
+  if (reader.read(1) === 1) wasted = reader.readUnary() + 1
+  const depth = bitDepth - wasted
+
+  const samples: number[] = new Array(blockSize)
+
+  if (type === 0) {
+    samples.fill(reader.readSigned(depth))
+  } else if (type === 1) {
+    for (let i = 0; i < blockSize; i++) samples[i] = reader.readSigned(depth)
+  } else if (type >= 8 && type <= 12) {
+    const order = type & 0x07
+    for (let i = 0; i < order; i++) samples[i] = reader.readSigned(depth)
+    readResidual(reader, blockSize, order, samples)
+    const coefficients = FIXED_COEFFICIENTS[order]
+    for (let i = order; i < blockSize; i++) {
+      let prediction = 0
+      for (let j = 0; j < order; j++) prediction += coefficients[j] * samples[i - j - 1]
+      samples[i] += prediction
+    }
+  } else if (type >= 32) {
+    const order = (type & 0x1f) + 1
+    for (let i = 0; i < order; i++) samples[i] = reader.readSigned(depth)
+    const precision = reader.read(4) + 1
+    if (precision === 16) throw new Error('Invalid LPC coefficient precision')
+    const shift = reader.readSigned(5)
+    const coefficients: number[] = []
+    for (let i = 0; i < order; i++) coefficients.push(reader.readSigned(precision))
+    readResidual(reader, blockSize, order, samples)
+    const divisor = 2 ** Math.max(shift, 0)
+    for (let i = order; i < blockSize; i++) {
+      let sum = 0
+      for (let j = 0; j < order; j++) sum += coefficients[j] * samples[i - j - 1]
+      samples[i] += Math.floor(sum / divisor)
+    }
+  } else {
+    throw new Error(`Reserved subframe type ${type}`)
+  }
+
+  if (wasted > 0) {
+    for (let i = 0; i < blockSize; i++) samples[i] *= 2 ** wasted
+  }
+  return samples
+}
+
+const FLAC_SAMPLE_SIZES = [0, 8, 12, 0, 16, 20, 24, 32]
+
+// UTF-8-style coded frame/sample number; only its length matters here
+function skipCodedNumber(reader: BitReader) {
+  const first = reader.read(8)
+  const extra = first < 0x80 ? 0 : Math.clz32(~(first << 24)) - 1
+  for (let i = 0; i < extra; i++) reader.read(8)
+}
+
+function decodeFlac(bytes: Uint8Array, resolutions: number[]): DecodedStream & { peaks: PeakAccumulator } {
+  const reader = new BitReader(bytes)
+
+  // Skip ID3v2 tags, then 'fLaC'
+  let start = 0
+  while (start + 10 <= bytes.length && ascii(bytes, start, 3) === 'ID3') {
+    const size = (bytes[start + 6] & 0x7f) << 21 | (bytes[start + 7] & 0x7f) << 14 |
+      (bytes[start + 8] & 0x7f) << 7 | (bytes[start + 9] & 0x7f)
+    start += 10 + size + (bytes[start + 5] & 0x10 ? 10 : 0)
+  }
+  if (ascii(bytes, start, 4) !== 'fLaC') throw unsupported('Not a FLAC stream')
+  reader.seekToByte(start + 4)
+
+  let streamInfo: { sampleRate: number; channels: number; bitDepth: number; totalFrames: number } | null = null
+  let last = false
+  while (!last) {
+    last = reader.read(1) === 1
+    const type = reader.read(7)
+    const length = reader.read(24)
+    const blockStart = reader.byteOffset
+    if (type === 0) {
+      reader.read(16 + 16 + 24 + 24)
+      streamInfo = {
+        sampleRate: reader.read(20),
+        channels: reader.read(3) + 1,
+        bitDepth: reader.read(5) + 1,
+        totalFrames: reader.read(4) * 2 ** 32 + reader.read(32)
+      }
+    }
+    reader.seekToByte(blockStart + length)
+  }
+
+  if (!streamInfo || streamInfo.sampleRate === 0) throw unsupported('FLAC file has no STREAMINFO block')
+  if (streamInfo.totalFrames === 0) throw unsupported('FLAC stream does not declare its length')
+
+  const { sampleRate, channels, bitDepth, totalFrames } = streamInfo
+  const peaks = createPeakAccumulator(totalFrames, resolutions)
+  const scale = 2 ** (bitDepth - 1)
+
+  let frame = 0
+  while (frame < totalFrames && reader.byteOffset + 2 <= bytes.length) {
+    const frameStart = reader.byteOffset
+    try {
+      if (reader.read(14) !== 0x3ffe) throw new Error('Lost frame sync')
+      reader.read(2) // reserved, blocking strategy
+      const blockSizeCode = reader.read(4)
+      const sampleRateCode = reader.read(4)
+      const assignment = reader.read(4)
+      const sampleSizeCode = reader.read(3)
+      reader.read(1)
+      skipCodedNumber(reader)
+
+      let blockSize: number
+      if (blockSizeCode === 1) blockSize = 192
+      else if (blockSizeCode >= 2 && blockSizeCode <= 5) blockSize = 576 * 2 ** (blockSizeCode - 2)
+      else if (blockSizeCode === 6) blockSize = reader.read(8) + 1
+      else if (blockSizeCode === 7) blockSize = reader.read(16) + 1
+      else if (blockSizeCode >= 8) blockSize = 256 * 2 ** (blockSizeCode - 8)
+      else throw new Error('Reserved block size')
+
+      if (sampleRateCode === 12) reader.read(8)
+      else if (sampleRateCode === 13 || sampleRateCode === 14) reader.read(16)
+      reader.read(8) // CRC-8
+
+      const depth = sampleSizeCode === 0 ? bitDepth : FLAC_SAMPLE_SIZES[sampleSizeCode]
+      if (!depth) throw new Error('Reserved sample size')
+
+      const frameChannels = assignment < 8 ? assignment + 1 : 2
+      const decoded: number[][] = []
+      for (let channel = 0; channel < frameChannels; channel++) {
+        // The side channel of a stereo pair carries one extra bit
+        const side = (assignment === 8 && channel === 1) || (assignment === 9 && channel === 0) || (assignment === 10 && channel === 1)
+        decoded.push(decodeSubframe(reader, blockSize, depth + (side ? 1 : 0)))
+      }
+      reader.alignToByte()
+      reader.read(16) // CRC-16
+
+      if (assignment === 8) {
+        // left, side
+        for (let i = 0; i < blockSize; i++) decoded[1][i] = decoded[0][i] - decoded[1][i]
+      } else if (assignment === 9) {
+        // side, right
+        for (let i = 0; i < blockSize; i++) decoded[0][i] = decoded[0][i] + decoded[1][i]
+      } else if (assignment === 10) {
+        // mid, side
+        for (let i = 0; i < blockSize; i++) {
+          const side = decoded[1][i]
+          const mid = decoded[0][i] * 2 + (side & 1)
+          decoded[0][i] = (mid + side) / 2
+          decoded[1][i] = (mid - side) / 2
+        }
+      }
+
+      const frames = Math.min(blockSize, totalFrames - frame)
+      for (let i = 0; i < frames; i++) {
+        for (const samples of decoded) peaks.add(frame + i, samples[i] / scale)
+      }
+      frame += frames
+    } catch (error) {
+      if (error instanceof RangeError) break
+      // Corrupt frame: resume at the next sync code
+      let next = frameStart + 1
+      while (next + 1 < bytes.length && !(bytes[next] === 0xff && (bytes[next + 1] & 0xfe) === 0xf8)) next++
+      if (next + 1 >= bytes.length) break
+      reader.seekToByte(next)
+    }
+  }
+
+  if (frame === 0) throw unsupported('No decodable FLAC frames found')
+  return { sampleRate, channels, totalFrames, peaks }
+}
+
+// ==========================================
+// PEAKS
+// ==========================================
+
+// Bucket counts from a setting such as "200,1000"; invalid entries are dropped
+export function parseResolutions(value: string | undefined): number[] {
+  const parsed = (value ?? '')
+    .split(',')
+    .map(entry => Number(entry.trim()))
+    .filter(count => Number.isInteger(count) && count > 0 && count <= MAX_RESOLUTION)
+  return parsed.length > 0 ? [...new Set(parsed)].sort((a, b) => a - b) : DEFAULT_WAVEFORM_RESOLUTIONS
+}
+
+// Decodes a WAV or FLAC file and reduces it to min/max peaks per bucket for
+// each resolution. Throws ValidationError on field `file` for other formats.
+export function generateWaveform(bytes: Uint8Array, format: string, resolutions = DEFAULT_WAVEFORM_RESOLUTIONS): WaveformPeaks {
+  if (format !== 'wav' && format !== 'flac') {
+    throw unsupported(`Waveforms are generated from WAV and FLAC files, not ${format.toUpperCase()}`)
+  }
+
+  const decoded = format === 'wav' ? decodeWav(bytes, resolutions) : decodeFlac(bytes, resolutions)
+  return {
+    version: 1,
+    bits: 8,
+    sample_rate: decoded.sampleRate,
+    channels: decoded.channels,
+    duration_ms: Math.round(decoded.totalFrames / decoded.sampleRate * 1000),
+    resolutions: decoded.peaks.result()
+  }
+}